@@ -37,9 +37,11 @@ import {
 import { 
   computeCapTable, 
   computeOwnershipHistory,
+  replayAllEvents,
   calculatePreRoundMetrics,
   getUnallocatedESOPPool,
   ESOP_POOL_HOLDER_ID,
+  TREASURY_HOLDER_ID,
 } from './lib/capTableEngine';
 
 function AppContent() {
@@ -74,12 +76,12 @@ function AppContent() {
   // Compute cap table and ownership from events (client-side)
   const capTable: CapTableResponse | null = useMemo(() => {
     if (!selectedCompany || events.length === 0) return null;
-    return computeCapTable(selectedCompany.id, events);
+    return computeCapTable(selectedCompany.id, events, selectedCompany);
   }, [selectedCompany, events]);
 
   const ownershipHistory: OwnershipSnapshot[] = useMemo(() => {
     if (!selectedCompany || events.length === 0) return [];
-    return computeOwnershipHistory(selectedCompany.id, events);
+    return computeOwnershipHistory(selectedCompany.id, events, selectedCompany);
   }, [selectedCompany, events]);
 
   // Compute company stats from cap table
@@ -100,7 +102,9 @@ function AppContent() {
     const preferredClasses = state.shareClasses.filter(sc => sc.type === 'preferred');
     const lastPreferred = preferredClasses[preferredClasses.length - 1];
     
-    const shareholderCount = state.people.filter(p => p.id !== ESOP_POOL_HOLDER_ID).length;
+    const shareholderCount = state.people.filter(
+      p => p.id !== ESOP_POOL_HOLDER_ID && p.id !== TREASURY_HOLDER_ID
+    ).length;
     
     return {
       lastRoundName: lastRound?.label || 'Incorporation',
@@ -190,6 +194,8 @@ function AppContent() {
 
   const handleUpdateCompany = async (data: Partial<Company>) => {
     if (!selectedCompany) return;
+    // Tighter authorized share settings must still accept the existing history
+    replayAllEvents(selectedCompany.id, events, { ...selectedCompany, ...data });
     try {
       const updated = await storage.updateCompany(selectedCompany.id, data);
       setSelectedCompany(updated);
@@ -224,6 +230,8 @@ function AppContent() {
 
   const handleCreateEvent = async (data: Omit<EventBase, 'id' | 'companyId' | 'createdAt' | 'updatedAt'>) => {
     if (!selectedCompany) return;
+    // Replaying with the new event surfaces validation errors before anything is saved
+    replayAllEvents(selectedCompany.id, [...events, { ...data, id: 'pending', companyId: selectedCompany.id }], selectedCompany);
     try {
       await storage.createEvent(selectedCompany.id, data);
       await loadEvents();
@@ -235,6 +243,9 @@ function AppContent() {
   };
 
   const handleUpdateEvent = async (eventId: string, data: Partial<EventBase>) => {
+    if (selectedCompany) {
+      replayAllEvents(selectedCompany.id, events.map(e => e.id === eventId ? { ...e, ...data } : e), selectedCompany);
+    }
     try {
       await storage.updateEvent(eventId, data);
       await loadEvents();
@@ -247,6 +258,15 @@ function AppContent() {
   };
 
   const handleDeleteEvent = async (eventId: string) => {
+    if (selectedCompany) {
+      // Later events may depend on this one, so the remaining history must still replay
+      try {
+        replayAllEvents(selectedCompany.id, events.filter(e => e.id !== eventId), selectedCompany);
+      } catch (error) {
+        alert(`This event cannot be deleted: ${error instanceof Error ? error.message : error}`);
+        return;
+      }
+    }
     try {
       await storage.deleteEvent(eventId);
       await loadEvents();
@@ -572,6 +592,7 @@ function AppContent() {
                     events={events}
                     ownershipHistory={ownershipHistory}
                     companyId={selectedCompany?.id || ''}
+                    settings={selectedCompany || undefined}
                     currency={selectedCompany?.baseCurrency || 'USD'}
                   />
                 </motion.div>
@@ -587,6 +608,7 @@ function AppContent() {
                   <ExitPlanner
                     companyId={selectedCompany.id}
                     events={events}
+                    settings={selectedCompany}
                     currency={selectedCompany.baseCurrency}
                   />
                 </motion.div>
@@ -636,6 +658,7 @@ function AppContent() {
             existingEvent={editingEvent}
             existingEvents={events}
             capTable={capTable}
+            settings={selectedCompany}
             onSave={editingEvent ? (data) => handleUpdateEvent(editingEvent.id, data) : handleCreateEvent}
             onClose={() => {
               setShowEventModal(false);
@@ -12,18 +12,20 @@ import {
   AreaChart,
   Area,
 } from 'recharts';
-import type { CapTableResponse, EventBase, OwnershipSnapshot } from '../types';
-import { PERSON_TYPE_LABELS, ESOP_POOL_HOLDER_ID } from '../types';
+import type { CapTableResponse, CapTableSettings, EventBase, OwnershipSnapshot } from '../types';
+import { PERSON_TYPE_LABELS, ESOP_POOL_HOLDER_ID, CONVERSION_METHOD_LABELS, VESTING_AWARD_TYPE_LABELS } from '../types';
+import { replayAllEvents, calculateSAFEConversions, calculateRedemptionObligations, calculateAuthorizedShareUsage, calculateVestingProjection, calculateSection83bElections } from '../lib/capTableEngine';
 
 interface CapTableViewProps {
   capTable: CapTableResponse | null;
   events: EventBase[];
   ownershipHistory: OwnershipSnapshot[];
   companyId: string;
+  settings?: CapTableSettings;
   currency: string;
 }
 
-type TabType = 'legal' | 'fully_diluted' | 'evolution';
+type TabType = 'legal' | 'fully_diluted' | 'evolution' | 'vesting';
 
 const CURRENCY_SYMBOLS: Record<string, string> = {
   USD: '$',
@@ -51,6 +53,8 @@ export function CapTableView({
   capTable,
   events,
   ownershipHistory,
+  companyId,
+  settings,
   currency,
 }: CapTableViewProps) {
   const currencySymbol = CURRENCY_SYMBOLS[currency] || currency + ' ';
@@ -110,6 +114,16 @@ export function CapTableView({
         >
           Ownership Evolution
         </button>
+        <button
+          onClick={() => setActiveTab('vesting')}
+          className={`px-4 py-2 text-sm font-medium rounded-sm transition-colors ${
+            activeTab === 'vesting'
+              ? 'bg-white text-charcoal-900 shadow-sm'
+              : 'text-charcoal-600 hover:text-charcoal-900'
+          }`}
+        >
+          Vesting
+        </button>
       </div>
 
       {/* Content */}
@@ -120,7 +134,13 @@ export function CapTableView({
         transition={{ duration: 0.15 }}
       >
         {activeTab === 'legal' && (
-          <LegalCapTable capTable={capTable} currencySymbol={currencySymbol} />
+          <LegalCapTable
+            capTable={capTable}
+            events={events}
+            companyId={companyId}
+            settings={settings}
+            currencySymbol={currencySymbol}
+          />
         )}
         {activeTab === 'fully_diluted' && (
           <FullyDilutedCapTable capTable={capTable} currencySymbol={currencySymbol} currency={currency} />
@@ -131,14 +151,35 @@ export function CapTableView({
             events={events}
           />
         )}
+        {activeTab === 'vesting' && (
+          <VestingProjectionView capTable={capTable} />
+        )}
       </motion.div>
     </div>
   );
 }
 
-function LegalCapTable({ capTable, currencySymbol }: { capTable: CapTableResponse; currencySymbol: string }) {
+function LegalCapTable({ capTable, events, companyId, settings, currencySymbol }: {
+  capTable: CapTableResponse;
+  events: EventBase[];
+  companyId: string;
+  settings?: CapTableSettings;
+  currencySymbol: string;
+}) {
   const { legalCapTable } = capTable;
   const shareClasses = legalCapTable.shareClasses;
+  const totalUnvested = legalCapTable.rows.reduce((sum, r) => sum + r.unvestedShares, 0);
+  const [redemptionDate, setRedemptionDate] = useState(new Date().toISOString().split('T')[0]);
+  const authorizedShareUsage = capTable.state ? calculateAuthorizedShareUsage(capTable.state) : [];
+  const hasAuthorizedLimits = authorizedShareUsage.some(u => u.authorized !== null);
+  const section83bElections = capTable.state ? calculateSection83bElections(capTable.state) : [];
+  const today = new Date().toISOString().split('T')[0];
+  // Obligations depend on the shares outstanding and redeemed by the chosen date
+  const redemptionObligations = useMemo(() => {
+    if (!redemptionDate) return [];
+    const { finalState } = replayAllEvents(companyId, events.filter(e => e.date <= redemptionDate), settings);
+    return calculateRedemptionObligations(finalState, redemptionDate);
+  }, [companyId, events, settings, redemptionDate]);
 
   return (
     <div className="space-y-6">
@@ -164,6 +205,14 @@ function LegalCapTable({ capTable, currencySymbol }: { capTable: CapTableRespons
           <strong className="text-charcoal-900">Legal Cap Table</strong> shows only issued shares 
           (common and preferred stock). It excludes options, warrants, and convertible instruments 
           that haven't yet converted into equity.
+          {legalCapTable.treasuryShares > 0 && (
+            <> {legalCapTable.treasuryShares.toLocaleString()} repurchased shares held in treasury 
+            are excluded from the totals and ownership percentages.</>
+          )}
+          {totalUnvested > 0 && (
+            <> {totalUnvested.toLocaleString()} issued shares are still subject to reverse vesting 
+            and can be repurchased by the company if the holder leaves.</>
+          )}
         </p>
       </div>
 
@@ -178,6 +227,7 @@ function LegalCapTable({ capTable, currencySymbol }: { capTable: CapTableRespons
                 <th key={sc.id} className="text-right">{sc.name}</th>
               ))}
               <th className="text-right">Total Shares</th>
+              {totalUnvested > 0 && <th className="text-right">Unvested</th>}
               <th className="text-right">Ownership %</th>
             </tr>
           </thead>
@@ -198,6 +248,11 @@ function LegalCapTable({ capTable, currencySymbol }: { capTable: CapTableRespons
                 <td className="text-right font-mono font-medium">
                   {row.totalShares.toLocaleString()}
                 </td>
+                {totalUnvested > 0 && (
+                  <td className="text-right font-mono text-charcoal-500">
+                    {row.unvestedShares > 0 ? row.unvestedShares.toLocaleString() : '—'}
+                  </td>
+                )}
                 <td className="text-right font-mono">
                   {row.ownershipPercent}%
                 </td>
@@ -218,11 +273,153 @@ function LegalCapTable({ capTable, currencySymbol }: { capTable: CapTableRespons
               <td className="text-right font-mono font-medium">
                 {legalCapTable.totalShares.toLocaleString()}
               </td>
+              {totalUnvested > 0 && (
+                <td className="text-right font-mono font-medium text-charcoal-500">
+                  {totalUnvested.toLocaleString()}
+                </td>
+              )}
               <td className="text-right font-mono font-medium">100.00%</td>
             </tr>
           </tfoot>
         </table>
       </div>
+
+      {/* Authorized Shares */}
+      {hasAuthorizedLimits && (
+        <div className="card">
+          <div className="card-header">
+            <h3 className="text-sm font-semibold text-charcoal-900">Authorized Shares</h3>
+          </div>
+          <div className="p-4">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th></th>
+                  <th className="text-right">Authorized</th>
+                  <th className="text-right">Issued</th>
+                  <th className="text-right">Reserved</th>
+                  <th className="text-right">Available</th>
+                </tr>
+              </thead>
+              <tbody>
+                {authorizedShareUsage.map(usage => (
+                  <tr key={usage.shareClassId || 'company'}>
+                    <td className="font-medium">{usage.name}</td>
+                    <td className="text-right font-mono">
+                      {usage.authorized !== null ? usage.authorized.toLocaleString() : '—'}
+                    </td>
+                    <td className="text-right font-mono">{usage.issued.toLocaleString()}</td>
+                    <td className="text-right font-mono text-charcoal-500">
+                      {usage.reserved > 0 ? usage.reserved.toLocaleString() : '—'}
+                    </td>
+                    <td className={`text-right font-mono ${usage.available !== null && usage.available < 0 ? 'text-red-600' : ''}`}>
+                      {usage.available !== null ? usage.available.toLocaleString() : '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="input-help">Reserved covers the option pool, outstanding options, RSUs and warrants</p>
+          </div>
+        </div>
+      )}
+
+      {/* Redemption Obligations */}
+      {capTable.state?.shareClasses.some(sc => sc.redemption) && (
+        <div className="card">
+          <div className="card-header flex items-center justify-between">
+            <h3 className="text-sm font-semibold text-charcoal-900">Redemption Obligations</h3>
+            <div className="flex items-center gap-2">
+              <span className="text-xs text-charcoal-500">As of</span>
+              <input
+                type="date"
+                value={redemptionDate}
+                onChange={(e) => setRedemptionDate(e.target.value)}
+                className="input py-1 w-40"
+              />
+            </div>
+          </div>
+          <div className="p-4">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Share Class</th>
+                  <th className="text-right">Price/Share</th>
+                  <th className="text-right">Redeemed</th>
+                  <th className="text-right">Due</th>
+                  <th className="text-right">Amount Due</th>
+                  <th className="text-right">Not Yet Due</th>
+                  <th className="text-right">Next Instalment</th>
+                </tr>
+              </thead>
+              <tbody>
+                {redemptionObligations.map(obligation => (
+                  <tr key={obligation.shareClassId}>
+                    <td className="font-medium">{obligation.shareClassName}</td>
+                    <td className="text-right font-mono">
+                      {currencySymbol}{Number(obligation.pricePerShare).toFixed(4)}
+                    </td>
+                    <td className="text-right font-mono">{obligation.redeemedShares.toLocaleString()}</td>
+                    <td className={`text-right font-mono ${obligation.dueShares > 0 ? 'text-rose-600' : ''}`}>
+                      {obligation.dueShares.toLocaleString()}
+                    </td>
+                    <td className="text-right font-mono">
+                      {currencySymbol}{Number(obligation.dueAmount).toLocaleString()}
+                    </td>
+                    <td className="text-right font-mono">{obligation.scheduledShares.toLocaleString()}</td>
+                    <td className="text-right font-mono">
+                      {obligation.nextInstalmentDate
+                        ? new Date(obligation.nextInstalmentDate).toLocaleDateString()
+                        : '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* 83(b) Elections */}
+      {section83bElections.length > 0 && (
+        <div className="card">
+          <div className="card-header">
+            <h3 className="text-sm font-semibold text-charcoal-900">83(b) Elections</h3>
+          </div>
+          <div className="p-4">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Holder</th>
+                  <th className="text-right">Early Exercised</th>
+                  <th className="text-right">Restricted Shares</th>
+                  <th className="text-right">Filing Deadline</th>
+                  <th className="text-right">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {section83bElections.map(election => {
+                  const daysLeft = Math.ceil(
+                    (new Date(election.deadline).getTime() - new Date(today).getTime()) / (24 * 60 * 60 * 1000)
+                  );
+                  return (
+                    <tr key={election.holdingId}>
+                      <td className="font-medium">{election.holderName}</td>
+                      <td className="text-right font-mono">{new Date(election.exerciseDate).toLocaleDateString()}</td>
+                      <td className="text-right font-mono">{election.shares.toLocaleString()}</td>
+                      <td className="text-right font-mono">{new Date(election.deadline).toLocaleDateString()}</td>
+                      <td className={`text-right ${daysLeft >= 0 && daysLeft <= 7 ? 'text-rose-600' : 'text-charcoal-500'}`}>
+                        {daysLeft < 0 ? 'Window closed' : daysLeft === 0 ? 'Due today' : `${daysLeft} days left`}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            <p className="input-help">Elections are due 30 days after an early exercise and cannot be filed late</p>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -258,6 +455,10 @@ function FullyDilutedCapTable({ capTable, currencySymbol, currency }: { capTable
       isESOPPool: boolean;
       issuedShares: number;
       optionShares: number;
+      warrantShares: number;
+      rsuShares: number;
+      antiDilutionShares: number;
+      unvestedShares: number;
       totalShares: number;
     }>();
 
@@ -266,6 +467,10 @@ function FullyDilutedCapTable({ capTable, currencySymbol, currency }: { capTable
       if (existing) {
         existing.issuedShares += row.issuedShares;
         existing.optionShares += row.optionShares;
+        existing.warrantShares += row.warrantShares;
+        existing.rsuShares += row.rsuShares;
+        existing.antiDilutionShares += row.antiDilutionShares;
+        existing.unvestedShares += row.unvestedShares;
         existing.totalShares += row.totalShares;
       } else {
         grouped.set(row.holderName, {
@@ -274,6 +479,10 @@ function FullyDilutedCapTable({ capTable, currencySymbol, currency }: { capTable
           isESOPPool: row.isESOPPool,
           issuedShares: row.issuedShares,
           optionShares: row.optionShares,
+          warrantShares: row.warrantShares,
+          rsuShares: row.rsuShares,
+          antiDilutionShares: row.antiDilutionShares,
+          unvestedShares: row.unvestedShares,
           totalShares: row.totalShares,
         });
       }
@@ -282,6 +491,11 @@ function FullyDilutedCapTable({ capTable, currencySymbol, currency }: { capTable
     return Array.from(grouped.values()).sort((a, b) => b.totalShares - a.totalShares);
   }, [fullyDilutedCapTable.rows]);
 
+  const hasWarrants = groupedRows.some(r => r.warrantShares > 0);
+  const committedTranches = fullyDilutedCapTable.committedTranches;
+  const hasRSUs = groupedRows.some(r => r.rsuShares > 0);
+  const hasAntiDilution = groupedRows.some(r => r.antiDilutionShares > 0);
+
   // Calculate pro forma ownership if SAFEs convert
   const proFormaData = useMemo(() => {
     const unconvertedSAFEs = fullyDilutedCapTable.unconvertedSAFEs;
@@ -305,53 +519,13 @@ function FullyDilutedCapTable({ capTable, currencySymbol, currency }: { capTable
       ? preMoneyValuation / currentFDShares 
       : (latestPricePerShare || 1); // Use latest price or $1 as fallback
 
-    let totalSafeShares = 0;
-    const safeConversions: Array<{
-      investorName: string;
-      principal: number;
-      cap: number | null;
-      discount: number;
-      effectivePrice: number;
-      shares: number;
-      method: string;
-    }> = [];
-
-    for (const safe of unconvertedSAFEs) {
-      const principal = Number(safe.principalAmount);
-      let effectivePrice = impliedPrice;
-      let method = 'round_price';
-
-      // Cap price calculation
-      if (safe.valuationCap && preMoneyValuation) {
-        const capPrice = Number(safe.valuationCap) / currentFDShares;
-        if (capPrice < effectivePrice) {
-          effectivePrice = capPrice;
-          method = 'cap';
-        }
-      }
-
-      // Discount price
-      if (safe.discountPercent && safe.discountPercent > 0) {
-        const discountPrice = impliedPrice * (1 - safe.discountPercent / 100);
-        if (discountPrice < effectivePrice) {
-          effectivePrice = discountPrice;
-          method = 'discount';
-        }
-      }
-
-      const shares = Math.round(principal / effectivePrice);
-      totalSafeShares += shares;
-
-      safeConversions.push({
-        investorName: safe.investorName || 'Unknown',
-        principal,
-        cap: safe.valuationCap ? Number(safe.valuationCap) : null,
-        discount: safe.discountPercent || 0,
-        effectivePrice,
-        shares,
-        method
-      });
-    }
+    const conversions = calculateSAFEConversions(unconvertedSAFEs, impliedPrice, currentFDShares);
+    const totalSafeShares = conversions.totalShares;
+    const safeConversions = unconvertedSAFEs.map(safe => ({
+      investorName: safe.investorName || 'Unknown',
+      principal: Number(safe.principalAmount),
+      ...conversions.breakdowns[safe.id]
+    }));
 
     const totalSharesAfter = currentFDShares + totalSafeShares;
     const postMoneyValuation = preMoneyValuation 
@@ -450,7 +624,8 @@ function FullyDilutedCapTable({ capTable, currencySymbol, currency }: { capTable
       <div className="p-4 bg-charcoal-50 rounded-sm border border-charcoal-100">
         <p className="text-sm text-charcoal-600">
           <strong className="text-charcoal-900">Fully Diluted Cap Table</strong> includes all 
-          issued shares plus all options (vested and unvested), unallocated ESOP pool. 
+          issued shares plus all options (vested and unvested), unallocated ESOP pool{hasRSUs && ', unsettled RSUs'}{hasWarrants && ', outstanding warrants'}. 
+          {hasAntiDilution && 'Preferred shares are counted as converted, including extra shares from anti-dilution adjustments. '}
           Investors with multiple investments are grouped together.
         </p>
       </div>
@@ -465,6 +640,15 @@ function FullyDilutedCapTable({ capTable, currencySymbol, currency }: { capTable
                 <th className="px-4 py-3 text-left text-xs font-medium text-charcoal-500 uppercase tracking-wider w-[100px]">Type</th>
                 <th className="px-4 py-3 text-right text-xs font-medium text-charcoal-500 uppercase tracking-wider w-[110px]">Issued</th>
                 <th className="px-4 py-3 text-right text-xs font-medium text-charcoal-500 uppercase tracking-wider w-[110px]">Options</th>
+                {hasAntiDilution && (
+                  <th className="px-4 py-3 text-right text-xs font-medium text-charcoal-500 uppercase tracking-wider w-[110px]">Anti-Dilution</th>
+                )}
+                {hasRSUs && (
+                  <th className="px-4 py-3 text-right text-xs font-medium text-charcoal-500 uppercase tracking-wider w-[110px]">RSUs</th>
+                )}
+                {hasWarrants && (
+                  <th className="px-4 py-3 text-right text-xs font-medium text-charcoal-500 uppercase tracking-wider w-[110px]">Warrants</th>
+                )}
                 <th className="px-4 py-3 text-right text-xs font-medium text-charcoal-500 uppercase tracking-wider w-[110px]">Total</th>
                 <th className="px-4 py-3 text-right text-xs font-medium text-charcoal-500 uppercase tracking-wider w-[80px]">FD %</th>
                 <th className="px-4 py-3 text-right text-xs font-medium text-charcoal-500 uppercase tracking-wider w-[100px]">Value</th>
@@ -492,10 +676,30 @@ function FullyDilutedCapTable({ capTable, currencySymbol, currency }: { capTable
                     </td>
                     <td className="px-4 py-3 text-right font-mono tabular-nums">
                       {row.issuedShares > 0 ? row.issuedShares.toLocaleString() : '—'}
+                      {row.unvestedShares > 0 && (
+                        <div className="text-xs text-charcoal-500">
+                          {row.unvestedShares.toLocaleString()} unvested
+                        </div>
+                      )}
                     </td>
                     <td className="px-4 py-3 text-right font-mono tabular-nums">
                       {row.optionShares > 0 ? row.optionShares.toLocaleString() : '—'}
                     </td>
+                    {hasAntiDilution && (
+                      <td className="px-4 py-3 text-right font-mono tabular-nums">
+                        {row.antiDilutionShares > 0 ? row.antiDilutionShares.toLocaleString() : '—'}
+                      </td>
+                    )}
+                    {hasRSUs && (
+                      <td className="px-4 py-3 text-right font-mono tabular-nums">
+                        {row.rsuShares > 0 ? row.rsuShares.toLocaleString() : '—'}
+                      </td>
+                    )}
+                    {hasWarrants && (
+                      <td className="px-4 py-3 text-right font-mono tabular-nums">
+                        {row.warrantShares > 0 ? row.warrantShares.toLocaleString() : '—'}
+                      </td>
+                    )}
                     <td className="px-4 py-3 text-right font-mono tabular-nums font-medium">
                       {row.totalShares.toLocaleString()}
                     </td>
@@ -518,6 +722,21 @@ function FullyDilutedCapTable({ capTable, currencySymbol, currency }: { capTable
                 <td className="px-4 py-3 text-right font-mono tabular-nums font-medium">
                   {groupedRows.reduce((sum, r) => sum + r.optionShares, 0).toLocaleString()}
                 </td>
+                {hasAntiDilution && (
+                  <td className="px-4 py-3 text-right font-mono tabular-nums font-medium">
+                    {groupedRows.reduce((sum, r) => sum + r.antiDilutionShares, 0).toLocaleString()}
+                  </td>
+                )}
+                {hasRSUs && (
+                  <td className="px-4 py-3 text-right font-mono tabular-nums font-medium">
+                    {groupedRows.reduce((sum, r) => sum + r.rsuShares, 0).toLocaleString()}
+                  </td>
+                )}
+                {hasWarrants && (
+                  <td className="px-4 py-3 text-right font-mono tabular-nums font-medium">
+                    {groupedRows.reduce((sum, r) => sum + r.warrantShares, 0).toLocaleString()}
+                  </td>
+                )}
                 <td className="px-4 py-3 text-right font-mono tabular-nums font-medium">
                   {fullyDilutedCapTable.totalShares.toLocaleString()}
                 </td>
@@ -526,11 +745,74 @@ function FullyDilutedCapTable({ capTable, currencySymbol, currency }: { capTable
                   {impliedValuation ? formatCurrency(impliedValuation) : '—'}
                 </td>
               </tr>
+              {committedTranches.length > 0 && (
+                <tr className="border-t border-charcoal-100 text-charcoal-500">
+                  <td
+                    colSpan={4 + (hasAntiDilution ? 1 : 0) + (hasRSUs ? 1 : 0) + (hasWarrants ? 1 : 0)}
+                    className="px-4 py-3 italic"
+                  >
+                    Committed but unissued
+                    <span className="ml-2 text-xs not-italic">
+                      ({committedTranches.length} milestone tranche{committedTranches.length !== 1 ? 's' : ''}, not included in total)
+                    </span>
+                  </td>
+                  <td className="px-4 py-3 text-right font-mono tabular-nums">
+                    {committedTranches.reduce((sum, t) => sum + t.committedShares, 0).toLocaleString()}
+                  </td>
+                  <td className="px-4 py-3 text-right font-mono tabular-nums">—</td>
+                  <td className="px-4 py-3 text-right font-mono tabular-nums">
+                    {formatCurrency(committedTranches.reduce((sum, t) => sum + Number(t.amount), 0))}
+                  </td>
+                </tr>
+              )}
             </tfoot>
           </table>
         </div>
       </div>
 
+      {/* Committed Tranches */}
+      {committedTranches.length > 0 && (
+        <div className="card">
+          <div className="card-header">
+            <h3 className="text-sm font-semibold text-charcoal-900">
+              Committed Tranches (Awaiting Milestones)
+            </h3>
+          </div>
+          <div className="p-4">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Investor</th>
+                  <th>Milestone</th>
+                  <th>Share Class</th>
+                  <th className="text-right">Amount</th>
+                  <th className="text-right">Price/Share</th>
+                  <th className="text-right">Shares</th>
+                </tr>
+              </thead>
+              <tbody>
+                {committedTranches.map((tranche) => (
+                  <tr key={tranche.id}>
+                    <td className="font-medium">{tranche.investorName || 'Unknown'}</td>
+                    <td>{tranche.milestone || '—'}</td>
+                    <td>
+                      {fullyDilutedCapTable.shareClasses.find(sc => sc.id === tranche.shareClassId)?.name || '—'}
+                    </td>
+                    <td className="text-right font-mono">
+                      {currencySymbol}{Number(tranche.amount).toLocaleString()}
+                    </td>
+                    <td className="text-right font-mono">
+                      {currencySymbol}{Number(tranche.pricePerShare).toFixed(4)}
+                    </td>
+                    <td className="text-right font-mono">{tranche.committedShares.toLocaleString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       {/* Outstanding SAFEs */}
       {fullyDilutedCapTable.unconvertedSAFEs.length > 0 && (
         <div className="card">
@@ -551,24 +833,118 @@ function FullyDilutedCapTable({ capTable, currencySymbol, currency }: { capTable
                 </tr>
               </thead>
               <tbody>
-                {fullyDilutedCapTable.unconvertedSAFEs.map((safe) => (
-                  <tr key={safe.id}>
-                    <td className="font-medium">{safe.investorName || 'Unknown'}</td>
-                    <td>
-                      <span className="badge-warning">
-                        {safe.valuationType === 'post_money' ? 'Post-Money' : 'Pre-Money'}
-                      </span>
+                {fullyDilutedCapTable.unconvertedSAFEs.map((safe) => {
+                  const original = safe.originalTerms;
+                  const sourceName = (id?: string) =>
+                    capTable.state?.safes.find(s => s.id === id)?.investorName || 'a later SAFE';
+                  const capChanged = !!original && original.valuationCap !== safe.valuationCap;
+                  const discountChanged = !!original && Number(original.discountPercent || 0) !== Number(safe.discountPercent || 0);
+                  return (
+                    <tr key={safe.id}>
+                      <td className="font-medium">
+                        {safe.investorName || 'Unknown'}
+                        {original && safe.mfnCapSourceSafeId && (
+                          <div className="text-xs font-normal text-charcoal-500">
+                            MFN cap from {sourceName(safe.mfnCapSourceSafeId)}
+                          </div>
+                        )}
+                        {original && safe.mfnDiscountSourceSafeId && (
+                          <div className="text-xs font-normal text-charcoal-500">
+                            MFN discount from {sourceName(safe.mfnDiscountSourceSafeId)}
+                          </div>
+                        )}
+                      </td>
+                      <td>
+                        <span className="badge-warning">
+                          {safe.valuationType === 'post_money' ? 'Post-Money' : 'Pre-Money'}
+                        </span>
+                        {safe.mostFavoredNation && (
+                          <span className="ml-1 badge-default">MFN</span>
+                        )}
+                      </td>
+                      <td className="text-right font-mono">
+                        {currencySymbol}{Number(safe.principalAmount).toLocaleString()}
+                      </td>
+                      <td className="text-right font-mono">
+                        {capChanged && (
+                          <span className="mr-2 text-charcoal-400 line-through">
+                            {original.valuationCap
+                              ? `${currencySymbol}${Number(original.valuationCap).toLocaleString()}`
+                              : 'Uncapped'}
+                          </span>
+                        )}
+                        {safe.valuationCap 
+                          ? `${currencySymbol}${Number(safe.valuationCap).toLocaleString()}`
+                          : <span className="text-charcoal-400">Uncapped</span>}
+                      </td>
+                      <td className="text-right font-mono">
+                        {discountChanged && (
+                          <span className="mr-2 text-charcoal-400 line-through">
+                            {original.discountPercent ? `${original.discountPercent}%` : '—'}
+                          </span>
+                        )}
+                        {safe.discountPercent ? `${safe.discountPercent}%` : '—'}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Outstanding Convertible Notes */}
+      {fullyDilutedCapTable.unconvertedNotes.length > 0 && (
+        <div className="card">
+          <div className="card-header">
+            <h3 className="text-sm font-semibold text-charcoal-900">
+              Outstanding Convertible Notes (Not Yet Converted)
+            </h3>
+          </div>
+          <div className="p-4">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Noteholder</th>
+                  <th className="text-right">Principal</th>
+                  <th className="text-right">Interest</th>
+                  <th className="text-right">Accrued</th>
+                  <th className="text-right">Balance</th>
+                  <th className="text-right">Cap</th>
+                  <th className="text-right">Discount</th>
+                  <th className="text-right">Maturity</th>
+                </tr>
+              </thead>
+              <tbody>
+                {fullyDilutedCapTable.unconvertedNotes.map((note) => (
+                  <tr key={note.id}>
+                    <td className="font-medium">{note.investorName || 'Unknown'}</td>
+                    <td className="text-right font-mono">
+                      {currencySymbol}{Number(note.principalAmount).toLocaleString()}
+                    </td>
+                    <td className="text-right font-mono">
+                      {note.interestRatePercent}% <span className="text-charcoal-400">{note.interestType}</span>
                     </td>
                     <td className="text-right font-mono">
-                      {currencySymbol}{Number(safe.principalAmount).toLocaleString()}
+                      {currencySymbol}{Number(note.accruedInterest).toLocaleString()}
+                    </td>
+                    <td className="text-right font-mono font-medium">
+                      {currencySymbol}{Number(note.outstandingBalance).toLocaleString()}
                     </td>
                     <td className="text-right font-mono">
-                      {safe.valuationCap 
-                        ? `${currencySymbol}${Number(safe.valuationCap).toLocaleString()}`
+                      {note.valuationCap 
+                        ? `${currencySymbol}${Number(note.valuationCap).toLocaleString()}`
                         : <span className="text-charcoal-400">Uncapped</span>}
                     </td>
                     <td className="text-right font-mono">
-                      {safe.discountPercent ? `${safe.discountPercent}%` : '—'}
+                      {note.discountPercent ? `${note.discountPercent}%` : '—'}
+                    </td>
+                    <td className="text-right font-mono">
+                      {note.maturityDate ? new Date(note.maturityDate).toLocaleDateString('en-GB') : '—'}
+                      {note.matured && (
+                        <span className="ml-1 badge-warning">Matured</span>
+                      )}
                     </td>
                   </tr>
                 ))}
@@ -688,6 +1064,53 @@ function FullyDilutedCapTable({ capTable, currencySymbol, currency }: { capTable
               </tfoot>
             </table>
           </div>
+
+          {/* Conversion Detail */}
+          <div className="overflow-x-auto border-t border-charcoal-200">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="bg-charcoal-50/50 border-b border-charcoal-200">
+                  <th className="px-4 py-2 text-left text-xs font-medium text-charcoal-500 uppercase tracking-wider">SAFE</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-charcoal-500 uppercase tracking-wider w-[130px]">Capitalization</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-charcoal-500 uppercase tracking-wider w-[100px]">Cap Price</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-charcoal-500 uppercase tracking-wider w-[110px]">Discount Price</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-charcoal-500 uppercase tracking-wider w-[100px]">Method</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-charcoal-500 uppercase tracking-wider w-[100px]">Shares</th>
+                </tr>
+              </thead>
+              <tbody>
+                {proFormaData.safeConversions.map((conv, index) => (
+                  <tr key={index} className="border-b border-charcoal-100">
+                    <td className="px-4 py-2">
+                      {conv.investorName}
+                      <span className="ml-2 text-xs text-charcoal-500">
+                        {conv.valuationType === 'post_money' ? 'Post-Money' : 'Pre-Money'}
+                      </span>
+                    </td>
+                    <td className="px-4 py-2 text-right font-mono tabular-nums">
+                      {Math.round(Number(conv.capitalization)).toLocaleString()}
+                    </td>
+                    <td className="px-4 py-2 text-right font-mono tabular-nums">
+                      {conv.capPrice ? `${currencySymbol}${Number(conv.capPrice).toFixed(4)}` : '—'}
+                    </td>
+                    <td className="px-4 py-2 text-right font-mono tabular-nums">
+                      {conv.discountPrice ? `${currencySymbol}${Number(conv.discountPrice).toFixed(4)}` : '—'}
+                    </td>
+                    <td className="px-4 py-2 text-right">
+                      <span className="badge-default">{CONVERSION_METHOD_LABELS[conv.method]}</span>
+                    </td>
+                    <td className="px-4 py-2 text-right font-mono tabular-nums">
+                      {conv.shares.toLocaleString()}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="px-4 py-2 text-xs text-charcoal-500">
+              Post-money SAFEs price their cap against a capitalization that includes all converting SAFEs; 
+              pre-money SAFEs use the current fully diluted shares.
+            </p>
+          </div>
         </div>
       )}
     </div>
@@ -902,3 +1325,150 @@ function OwnershipEvolution({
   );
 }
 
+function VestingProjectionView({ capTable }: { capTable: CapTableResponse }) {
+  const { state } = capTable;
+  const [selectedHolderId, setSelectedHolderId] = useState('');
+  const projection = useMemo(() => state ? calculateVestingProjection(state) : null, [state]);
+
+  if (!state || !projection || projection.tranches.length === 0) {
+    return (
+      <div className="card p-12 text-center">
+        <h3 className="text-lg font-medium text-charcoal-900 mb-2">
+          No vesting schedules
+        </h3>
+        <p className="text-charcoal-600">
+          Grants and awards with a vesting schedule will show their projected vesting here.
+        </p>
+      </div>
+    );
+  }
+
+  const today = new Date().toISOString().split('T')[0];
+  const horizon = new Date();
+  horizon.setMonth(horizon.getMonth() + 12);
+  const horizonDate = horizon.toISOString().split('T')[0];
+
+  const holderName = (holderId: string) => state.people.find(p => p.id === holderId)?.name || 'Unknown';
+  const holderIds = [...new Set(projection.tranches.map(t => t.holderId))];
+  const holderId = holderIds.includes(selectedHolderId) ? selectedHolderId : holderIds[0];
+
+  const holderProjection = calculateVestingProjection(state, { holderId });
+  const vestedToDate = holderProjection.series.filter(p => p.date <= today).pop()?.cumulative || 0;
+  const nextVesting = holderProjection.series.find(p => p.date > today);
+  const chartData = holderProjection.series.map(point => ({
+    date: new Date(point.date).toLocaleDateString('en-GB', { month: 'short', year: '2-digit' }),
+    vested: point.cumulative,
+  }));
+
+  const upcoming = projection.tranches.filter(t => t.date > today && t.date <= horizonDate);
+
+  return (
+    <div className="space-y-6">
+      {/* Per-holder chart */}
+      <div className="card p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-sm font-semibold text-charcoal-900">Vesting Schedule</h3>
+          <select
+            value={holderId}
+            onChange={(e) => setSelectedHolderId(e.target.value)}
+            className="select w-56"
+          >
+            {holderIds.map(id => (
+              <option key={id} value={id}>{holderName(id)}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="grid grid-cols-3 gap-4 mb-6">
+          <div className="p-4 bg-charcoal-50 rounded-sm">
+            <p className="text-xs text-charcoal-500 uppercase tracking-wider mb-1">Vested to Date</p>
+            <p className="text-lg font-mono text-charcoal-900">
+              {vestedToDate.toLocaleString()} / {holderProjection.totalShares.toLocaleString()}
+            </p>
+          </div>
+          <div className="p-4 bg-charcoal-50 rounded-sm">
+            <p className="text-xs text-charcoal-500 uppercase tracking-wider mb-1">Next Vesting</p>
+            <p className="text-lg font-mono text-charcoal-900">
+              {nextVesting ? new Date(nextVesting.date).toLocaleDateString() : '—'}
+            </p>
+          </div>
+          <div className="p-4 bg-charcoal-50 rounded-sm">
+            <p className="text-xs text-charcoal-500 uppercase tracking-wider mb-1">Shares Vesting Next</p>
+            <p className="text-lg font-mono text-charcoal-900">
+              {nextVesting ? nextVesting.vested.toLocaleString() : '—'}
+            </p>
+          </div>
+        </div>
+
+        <div className="h-[300px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <AreaChart data={chartData} margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e7e7e7" />
+              <XAxis
+                dataKey="date"
+                tick={{ fontSize: 12 }}
+                stroke="#6d6d6d"
+              />
+              <YAxis
+                tick={{ fontSize: 12 }}
+                stroke="#6d6d6d"
+                tickFormatter={(value) => Number(value).toLocaleString()}
+              />
+              <Tooltip
+                contentStyle={{
+                  backgroundColor: 'white',
+                  border: '1px solid #e7e7e7',
+                  borderRadius: '3px',
+                  fontSize: '12px',
+                }}
+                formatter={(value: number) => [value.toLocaleString(), 'Vested']}
+              />
+              <Area
+                type="stepAfter"
+                dataKey="vested"
+                stroke={CHART_COLORS[0]}
+                fill={CHART_COLORS[0]}
+                fillOpacity={0.3}
+              />
+            </AreaChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      {/* Company-wide upcoming vesting */}
+      <div className="card overflow-hidden">
+        <div className="card-header">
+          <h3 className="text-sm font-semibold text-charcoal-900">
+            Upcoming Vesting (Next 12 Months)
+          </h3>
+        </div>
+        {upcoming.length === 0 ? (
+          <p className="p-4 text-sm text-charcoal-500">Nothing vests in the next 12 months.</p>
+        ) : (
+          <table className="table">
+            <thead>
+              <tr>
+                <th>Date</th>
+                <th>Holder</th>
+                <th>Award</th>
+                <th className="text-right">Vesting</th>
+                <th className="text-right">Vested After</th>
+              </tr>
+            </thead>
+            <tbody>
+              {upcoming.map(tranche => (
+                <tr key={`${tranche.holdingId}-${tranche.date}`}>
+                  <td className="font-mono">{new Date(tranche.date).toLocaleDateString()}</td>
+                  <td className="font-medium">{holderName(tranche.holderId)}</td>
+                  <td>{VESTING_AWARD_TYPE_LABELS[tranche.awardType]}</td>
+                  <td className="text-right font-mono">{tranche.shares.toLocaleString()}</td>
+                  <td className="text-right font-mono text-charcoal-500">{tranche.cumulative.toLocaleString()}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,8 @@
 import { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import { Save, Trash2, Download, AlertTriangle, Users, Mail, X, LogOut, Loader2 } from 'lucide-react';
-import type { Company } from '../types';
+import type { Company, AuthorizedShareEnforcement, WithheldSharePolicy } from '../types';
+import { WITHHELD_SHARE_POLICY_LABELS } from '../types';
 import { useAuth } from '../contexts/AuthContext';
 import {
   getCompanyMembers,
@@ -29,8 +30,11 @@ export function CompanySettings({ company, onUpdate, onDelete, onExport, onLeave
     baseCurrency: company.baseCurrency,
     incorporationDate: company.incorporationDate || '',
     authorizedShares: company.authorizedShares?.toString() || '',
+    authorizedShareEnforcement: company.authorizedShareEnforcement || 'warning',
+    withheldSharePolicy: company.withheldSharePolicy || 'return_to_pool',
   });
   const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [showLeaveConfirm, setShowLeaveConfirm] = useState(false);
 
@@ -75,13 +79,18 @@ export function CompanySettings({ company, onUpdate, onDelete, onExport, onLeave
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsSaving(true);
+    setSaveError(null);
     try {
       await onUpdate({
         name: formData.name,
         baseCurrency: formData.baseCurrency,
         incorporationDate: formData.incorporationDate || undefined,
         authorizedShares: formData.authorizedShares ? parseInt(formData.authorizedShares, 10) : undefined,
+        authorizedShareEnforcement: formData.authorizedShareEnforcement,
+        withheldSharePolicy: formData.withheldSharePolicy,
       });
+    } catch (error) {
+      setSaveError(error instanceof Error ? error.message : 'Failed to save changes');
     } finally {
       setIsSaving(false);
     }
@@ -184,18 +193,54 @@ export function CompanySettings({ company, onUpdate, onDelete, onExport, onLeave
             </div>
           </div>
 
-          <div>
-            <label className="input-label">Authorized Shares</label>
-            <input
-              type="number"
-              value={formData.authorizedShares}
-              onChange={(e) => setFormData({ ...formData, authorizedShares: e.target.value })}
-              className="input"
-              placeholder="10,000,000"
-            />
-            <p className="input-help">Total number of shares the company is authorized to issue</p>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="input-label">Authorized Shares at Incorporation</label>
+              <input
+                type="number"
+                value={formData.authorizedShares}
+                onChange={(e) => setFormData({ ...formData, authorizedShares: e.target.value })}
+                className="input"
+                placeholder="10,000,000"
+              />
+              <p className="input-help">Later amendments are recorded as Authorized Share Increase events</p>
+            </div>
+            <div>
+              <label className="input-label">When Exceeded</label>
+              <select
+                value={formData.authorizedShareEnforcement}
+                onChange={(e) => setFormData({ ...formData, authorizedShareEnforcement: e.target.value as AuthorizedShareEnforcement })}
+                className="select"
+              >
+                <option value="error">Reject the event</option>
+                <option value="warning">Allow with a warning</option>
+              </select>
+              <p className="input-help">Applies to company and share class limits</p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="input-label">Withheld Exercise Shares</label>
+              <select
+                value={formData.withheldSharePolicy}
+                onChange={(e) => setFormData({ ...formData, withheldSharePolicy: e.target.value as WithheldSharePolicy })}
+                className="select"
+              >
+                {(Object.keys(WITHHELD_SHARE_POLICY_LABELS) as WithheldSharePolicy[]).map(policy => (
+                  <option key={policy} value={policy}>{WITHHELD_SHARE_POLICY_LABELS[policy]}</option>
+                ))}
+              </select>
+              <p className="input-help">Plan rule for shares withheld in net exercises</p>
+            </div>
           </div>
 
+          {saveError && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-sm text-sm text-red-700">
+              {saveError}
+            </div>
+          )}
+
           <div className="pt-4">
             <button type="submit" disabled={isSaving} className="btn-primary">
               <Save className="w-4 h-4 mr-2" />
@@ -1,16 +1,18 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { motion } from 'framer-motion';
 import { X, Plus, Trash2, Info, HelpCircle } from 'lucide-react';
 import { v4 as uuidv4 } from 'uuid';
-import type { EventBase, EventType, Person, SAFE } from '../types';
-import { EVENT_TYPE_LABELS } from '../types';
+import type { CapTableSettings, EventBase, EventType, Person, PersonType, SAFE, ConvertibleNote, CapTableState, VestingSchedule, VestingFrequency, AccelerationTrigger, AntiDilutionType, ConversionScope, DividendTerms, DividendPaymentForm, InterestType, PayToPlayTerms, PayToPlayConversion, PricedRoundEventData, OptionExerciseMethod } from '../types';
+import { EVENT_TYPE_LABELS, ESOP_POOL_HOLDER_ID, TREASURY_HOLDER_ID, ANTI_DILUTION_LABELS, PAY_TO_PLAY_CONVERSION_LABELS, VESTING_FREQUENCY_LABELS, ACCELERATION_TRIGGER_LABELS, OPTION_EXERCISE_METHOD_LABELS } from '../types';
 import type { CapTableResponse } from '../lib/capTableEngine';
+import { replayAllEvents, calculateProRataAllocations, calculateAccruedDividends, calculateRedemptionObligations, calculateAuthorizedShareUsage, isOutstandingSAFE } from '../lib/capTableEngine';
 
 interface EventModalProps {
   companyId: string;
   existingEvent: EventBase | null;
   existingEvents: EventBase[];
   capTable: CapTableResponse | null;
+  settings?: CapTableSettings;
   onSave: (data: Omit<EventBase, 'id' | 'companyId' | 'createdAt' | 'updatedAt'>) => Promise<void>;
   onClose: () => void;
   currency?: string;
@@ -29,11 +31,23 @@ const CURRENCY_SYMBOLS: Record<string, string> = {
 
 const getCurrencySymbol = (currency: string) => CURRENCY_SYMBOLS[currency] || currency + ' ';
 
+/**
+ * Events replayed before an event dated `date`: earlier dates, then same-day
+ * events listed ahead of it. A new event is replayed last on its day.
+ */
+const eventsBefore = (events: EventBase[], date: string, eventId?: string): EventBase[] => {
+  const position = events.findIndex(e => e.id === eventId);
+  return events.filter((e, i) =>
+    e.id !== eventId && (e.date < date || (e.date === date && (position === -1 || i < position)))
+  );
+};
+
 export function EventModal({
   companyId,
   existingEvent,
   existingEvents,
   capTable,
+  settings,
   onSave,
   onClose,
   currency = 'USD',
@@ -52,12 +66,20 @@ export function EventModal({
   const [error, setError] = useState<string | null>(null);
   const [people, setPeople] = useState<Person[]>([]);
   const [safes, setSafes] = useState<SAFE[]>([]);
+  const [notes, setNotes] = useState<ConvertibleNote[]>([]);
 
   // Event-specific data
   const [eventData, setEventData] = useState<Record<string, unknown>>(
     existingEvent?.data || {}
   );
 
+  // Rounds and transfers read the cap table as it stood before the event
+  const priorState = useMemo(() => {
+    if (eventType !== 'priced_round' && eventType !== 'secondary_transfer') return null;
+    const priorEvents = eventsBefore(existingEvents, date, existingEvent?.id);
+    return replayAllEvents(companyId, priorEvents, settings).finalState;
+  }, [eventType, companyId, existingEvents, existingEvent, date, settings]);
+
   // Load people and SAFEs for the company
   useEffect(() => {
     loadPeopleAndSafes();
@@ -75,9 +97,13 @@ export function EventModal({
     if (capTable?.state?.people) {
       setPeople(capTable.state.people);
     }
-    // Extract unconverted SAFEs
+    // Extract SAFEs still outstanding
     if (capTable?.state?.safes) {
-      setSafes(capTable.state.safes.filter((s: any) => !s.convertedInEventId));
+      setSafes(capTable.state.safes.filter(isOutstandingSAFE));
+    }
+    // Extract unconverted convertible notes
+    if (capTable?.state?.convertibleNotes) {
+      setNotes(capTable.state.convertibleNotes.filter(n => !n.convertedInEventId));
     }
   };
 
@@ -91,6 +117,8 @@ export function EventModal({
         return rounds[existingOfType] || `Series ${String.fromCharCode(65 + existingOfType - 2)}`;
       case 'safe_issuance':
         return `SAFE Round ${existingOfType + 1}`;
+      case 'convertible_note_issuance':
+        return `Convertible Notes ${existingOfType + 1}`;
       case 'esop_pool_creation':
         return 'ESOP Pool Creation';
       case 'esop_pool_extension':
@@ -99,6 +127,40 @@ export function EventModal({
         return `Option Grant ${existingOfType + 1}`;
       case 'option_exercise':
         return `Option Exercise ${existingOfType + 1}`;
+      case 'secondary_transfer':
+        return `Secondary Transfer ${existingOfType + 1}`;
+      case 'share_repurchase':
+        return `Share Repurchase ${existingOfType + 1}`;
+      case 'employee_termination':
+        return `Termination ${existingOfType + 1}`;
+      case 'stock_split':
+        return 'Stock Split';
+      case 'warrant_issuance':
+        return `Warrant Issuance ${existingOfType + 1}`;
+      case 'warrant_exercise':
+        return `Warrant Exercise ${existingOfType + 1}`;
+      case 'restricted_stock_award':
+        return `Restricted Stock Award ${existingOfType + 1}`;
+      case 'founder_departure':
+        return `Founder Departure ${existingOfType + 1}`;
+      case 'rsu_grant':
+        return `RSU Grant ${existingOfType + 1}`;
+      case 'rsu_settlement':
+        return `RSU Settlement ${existingOfType + 1}`;
+      case 'share_class_conversion':
+        return `Preferred Conversion ${existingOfType + 1}`;
+      case 'round_closing':
+        return `Round Closing ${existingOfType + 1}`;
+      case 'tranche_release':
+        return `Tranche Release ${existingOfType + 1}`;
+      case 'safe_cancellation':
+        return `SAFE Cancellation ${existingOfType + 1}`;
+      case 'dividend_declaration':
+        return `Dividend Declaration ${existingOfType + 1}`;
+      case 'share_redemption':
+        return `Share Redemption ${existingOfType + 1}`;
+      case 'authorized_share_increase':
+        return `Charter Amendment ${existingOfType + 1}`;
       default:
         return '';
     }
@@ -130,7 +192,7 @@ export function EventModal({
 
   // Determine available event types
   const availableEventTypes: EventType[] = hasIncorporation
-    ? ['priced_round', 'safe_issuance', 'esop_pool_creation', 'esop_pool_extension', 'esop_grant', 'option_exercise']
+    ? ['priced_round', 'round_closing', 'tranche_release', 'safe_issuance', 'safe_cancellation', 'convertible_note_issuance', 'esop_pool_creation', 'esop_pool_extension', 'esop_grant', 'option_exercise', 'rsu_grant', 'rsu_settlement', 'secondary_transfer', 'share_repurchase', 'share_class_conversion', 'dividend_declaration', 'share_redemption', 'authorized_share_increase', 'employee_termination', 'stock_split', 'warrant_issuance', 'warrant_exercise', 'restricted_stock_award', 'founder_departure']
     : ['incorporation'];
 
   return (
@@ -249,6 +311,8 @@ export function EventModal({
               onChange={setEventData}
               people={people}
               safes={safes}
+              notes={notes}
+              capTableState={priorState}
               currencySymbol={currencySymbol}
               currency={currency}
             />
@@ -261,6 +325,24 @@ export function EventModal({
               currency={currency}
             />
           )}
+          {eventType === 'safe_cancellation' && (
+            <SAFECancellationForm
+              data={eventData}
+              onChange={setEventData}
+              safes={safes}
+              capTableState={capTable?.state || null}
+              currencySymbol={currencySymbol}
+              currency={currency}
+            />
+          )}
+          {eventType === 'convertible_note_issuance' && (
+            <ConvertibleNoteIssuanceForm
+              data={eventData}
+              onChange={setEventData}
+              currencySymbol={currencySymbol}
+              currency={currency}
+            />
+          )}
           {eventType === 'esop_pool_creation' && (
             <ESOPPoolCreationForm
               data={eventData}
@@ -295,6 +377,161 @@ export function EventModal({
               currency={currency}
             />
           )}
+          {eventType === 'rsu_grant' && (
+            <RSUGrantForm
+              data={eventData}
+              onChange={setEventData}
+              people={people}
+              currencySymbol={currencySymbol}
+              currency={currency}
+            />
+          )}
+          {eventType === 'rsu_settlement' && (
+            <RSUSettlementForm
+              data={eventData}
+              onChange={setEventData}
+              people={people}
+              capTableState={capTable?.state || null}
+              currencySymbol={currencySymbol}
+              currency={currency}
+            />
+          )}
+          {eventType === 'secondary_transfer' && (
+            <SecondaryTransferForm
+              data={eventData}
+              onChange={setEventData}
+              people={people}
+              capTableState={priorState}
+              currencySymbol={currencySymbol}
+              currency={currency}
+            />
+          )}
+          {eventType === 'share_repurchase' && (
+            <ShareRepurchaseForm
+              data={eventData}
+              onChange={setEventData}
+              people={people}
+              capTableState={capTable?.state || null}
+              currencySymbol={currencySymbol}
+              currency={currency}
+            />
+          )}
+          {eventType === 'round_closing' && (
+            <RoundClosingForm
+              data={eventData}
+              onChange={setEventData}
+              rounds={existingEvents.filter(e => e.type === 'priced_round')}
+              capTableState={capTable?.state || null}
+              currencySymbol={currencySymbol}
+              currency={currency}
+            />
+          )}
+          {eventType === 'tranche_release' && (
+            <TrancheReleaseForm
+              data={eventData}
+              onChange={setEventData}
+              capTableState={capTable?.state || null}
+              currencySymbol={currencySymbol}
+              currency={currency}
+            />
+          )}
+          {eventType === 'dividend_declaration' && (
+            <DividendDeclarationForm
+              data={eventData}
+              onChange={setEventData}
+              capTableState={capTable?.state || null}
+              eventDate={date}
+              currencySymbol={currencySymbol}
+              currency={currency}
+            />
+          )}
+          {eventType === 'share_redemption' && (
+            <ShareRedemptionForm
+              data={eventData}
+              onChange={setEventData}
+              people={people}
+              capTableState={capTable?.state || null}
+              eventDate={date}
+              currencySymbol={currencySymbol}
+              currency={currency}
+            />
+          )}
+          {eventType === 'authorized_share_increase' && (
+            <AuthorizedShareIncreaseForm
+              data={eventData}
+              onChange={setEventData}
+              capTableState={capTable?.state || null}
+              currencySymbol={currencySymbol}
+              currency={currency}
+            />
+          )}
+          {eventType === 'share_class_conversion' && (
+            <ShareClassConversionForm
+              data={eventData}
+              onChange={setEventData}
+              people={people}
+              capTableState={capTable?.state || null}
+              currencySymbol={currencySymbol}
+              currency={currency}
+            />
+          )}
+          {eventType === 'stock_split' && (
+            <StockSplitForm
+              data={eventData}
+              onChange={setEventData}
+              currencySymbol={currencySymbol}
+              currency={currency}
+            />
+          )}
+          {eventType === 'warrant_issuance' && (
+            <WarrantIssuanceForm
+              data={eventData}
+              onChange={setEventData}
+              people={people}
+              capTableState={capTable?.state || null}
+              currencySymbol={currencySymbol}
+              currency={currency}
+            />
+          )}
+          {eventType === 'warrant_exercise' && (
+            <WarrantExerciseForm
+              data={eventData}
+              onChange={setEventData}
+              people={people}
+              capTableState={capTable?.state || null}
+              currencySymbol={currencySymbol}
+              currency={currency}
+            />
+          )}
+          {eventType === 'restricted_stock_award' && (
+            <RestrictedStockAwardForm
+              data={eventData}
+              onChange={setEventData}
+              people={people}
+              currencySymbol={currencySymbol}
+              currency={currency}
+            />
+          )}
+          {eventType === 'founder_departure' && (
+            <FounderDepartureForm
+              data={eventData}
+              onChange={setEventData}
+              people={people}
+              capTableState={capTable?.state || null}
+              currencySymbol={currencySymbol}
+              currency={currency}
+            />
+          )}
+          {eventType === 'employee_termination' && (
+            <EmployeeTerminationForm
+              data={eventData}
+              onChange={setEventData}
+              people={people}
+              capTableState={capTable?.state || null}
+              currencySymbol={currencySymbol}
+              currency={currency}
+            />
+          )}
 
           {/* Error */}
           {error && (
@@ -339,16 +576,23 @@ function IncorporationForm({ data, onChange }: FormProps) {
     ]
   );
   const [totalShares, setTotalShares] = useState(data.totalIssuedShares?.toString() || '10000000');
+  const [commonAuthorized, setCommonAuthorized] = useState(data.commonAuthorizedShares?.toString() || '');
   const [hasEsop, setHasEsop] = useState(!!(data.esopPool));
   const [esopMode, setEsopMode] = useState<'percentage' | 'shares'>('percentage');
   const [esopValue, setEsopValue] = useState('10');
+  const initialVesting = (data.founders as Array<{ vestingSchedule?: Omit<VestingSchedule, 'id'> }> | undefined)?.[0]?.vestingSchedule;
+  const [hasFounderVesting, setHasFounderVesting] = useState(!!initialVesting);
+  const [vesting, setVesting] = useState(() => vestingFieldsFromSchedule(initialVesting));
 
   useEffect(() => {
+    const vestingSchedule = hasFounderVesting ? buildVestingSchedule(vesting) : undefined;
+
     onChange({
       totalIssuedShares: parseInt(totalShares, 10) || 0,
       founderInputMode: founderMode,
-      founders,
+      founders: founders.map(f => ({ ...f, vestingSchedule })),
       pricePerShare: '0.0001',
+      ...(commonAuthorized && { commonAuthorizedShares: parseInt(commonAuthorized, 10) || undefined }),
       ...(hasEsop && {
         esopPool: {
           inputMode: esopMode,
@@ -358,7 +602,7 @@ function IncorporationForm({ data, onChange }: FormProps) {
         }
       })
     });
-  }, [totalShares, founderMode, founders, hasEsop, esopMode, esopValue]);
+  }, [totalShares, commonAuthorized, founderMode, founders, hasEsop, esopMode, esopValue, hasFounderVesting, vesting]);
 
   const addFounder = () => {
     setFounders([...founders, { personId: uuidv4(), name: '', percentage: 0 }]);
@@ -390,16 +634,29 @@ function IncorporationForm({ data, onChange }: FormProps) {
         </div>
       </div>
 
-      <div>
-        <label className="input-label">Total Common Shares to Issue</label>
-        <input
-          type="number"
-          value={totalShares}
-          onChange={(e) => setTotalShares(e.target.value)}
-          className="input"
-          placeholder="10,000,000"
-        />
-        <p className="input-help">These will be distributed among founders</p>
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="input-label">Total Common Shares to Issue</label>
+          <input
+            type="number"
+            value={totalShares}
+            onChange={(e) => setTotalShares(e.target.value)}
+            className="input"
+            placeholder="10,000,000"
+          />
+          <p className="input-help">These will be distributed among founders</p>
+        </div>
+        <div>
+          <label className="input-label">Authorized Common Shares</label>
+          <input
+            type="number"
+            value={commonAuthorized}
+            onChange={(e) => setCommonAuthorized(e.target.value)}
+            className="input"
+            placeholder="Unlimited"
+          />
+          <p className="input-help">Per the charter; includes shares reserved for the option pool</p>
+        </div>
       </div>
 
       {/* Founders */}
@@ -491,6 +748,23 @@ function IncorporationForm({ data, onChange }: FormProps) {
         )}
       </div>
 
+      {/* Founder vesting */}
+      <div>
+        <label className="flex items-center gap-2 cursor-pointer mb-3">
+          <input
+            type="checkbox"
+            checked={hasFounderVesting}
+            onChange={(e) => setHasFounderVesting(e.target.checked)}
+            className="rounded border-charcoal-300"
+          />
+          <span className="text-sm text-charcoal-700">Founder shares are subject to reverse vesting</span>
+        </label>
+
+        {hasFounderVesting && (
+          <VestingScheduleFields value={vesting} onChange={setVesting} />
+        )}
+      </div>
+
       {/* ESOP */}
       <div>
         <label className="flex items-center gap-2 cursor-pointer">
@@ -549,7 +823,9 @@ function IncorporationForm({ data, onChange }: FormProps) {
   );
 }
 
-function PricedRoundForm({ data, onChange, people, safes, currencySymbol, currency }: FormProps & { people: Person[]; safes: SAFE[] }) {
+type RoundInvestorItem = { personId: string; name: string; amount: string; proRataRights?: boolean };
+
+function PricedRoundForm({ data, onChange, people, safes, notes, capTableState, currencySymbol, currency }: FormProps & { people: Person[]; safes: SAFE[]; notes: ConvertibleNote[]; capTableState: CapTableState | null }) {
   const formatMoney = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
@@ -565,14 +841,35 @@ function PricedRoundForm({ data, onChange, people, safes, currencySymbol, curren
     (data.postMoneyValuation || data.preMoneyValuation || data.pricePerShare || '').toString()
   );
   const [totalNewMoney, setTotalNewMoney] = useState((data.totalNewMoney || '').toString());
-  const [investors, setInvestors] = useState<Array<{ personId: string; name: string; amount: string }>>(
-    (data.investors as Array<{ personId: string; name: string; amount: string }>) || [
+  // A new round starts with a row for every existing pro-rata rights holder
+  const [investors, setInvestors] = useState<RoundInvestorItem[]>(
+    (data.investors as RoundInvestorItem[]) || [
+      ...people
+        .filter(p => p.hasProRataRights)
+        .map(p => ({ personId: p.id, name: p.name, amount: '', proRataRights: true })),
       { personId: uuidv4(), name: '', amount: '' }
     ]
   );
+  const [proRataRoundSize, setProRataRoundSize] = useState((data.proRataRoundSize as string) || '');
   const [shareClassName, setShareClassName] = useState((data.shareClassName as string) || '');
   const [liquidationPref, setLiquidationPref] = useState((data.liquidationPreference || 1).toString());
   const [participation, setParticipation] = useState((data.participation as string) || 'non_participating');
+  const [antiDilution, setAntiDilution] = useState<AntiDilutionType>((data.antiDilution as AntiDilutionType) || 'none');
+  const initialDividends = data.dividends as DividendTerms | undefined;
+  const [dividendRate, setDividendRate] = useState(initialDividends ? initialDividends.ratePercent.toString() : '');
+  const [dividendCumulative, setDividendCumulative] = useState(initialDividends?.cumulative ?? false);
+  const [dividendCompounding, setDividendCompounding] = useState<InterestType>(initialDividends?.compounding || 'simple');
+  const [dividendPaymentForm, setDividendPaymentForm] = useState<DividendPaymentForm>(initialDividends?.paymentForm || 'cash');
+  const [classAuthorized, setClassAuthorized] = useState((data.authorizedShares as number | undefined)?.toString() || '');
+  const initialRedemption = data.redemption as PricedRoundEventData['redemption'];
+  const [redemptionDate, setRedemptionDate] = useState(initialRedemption?.earliestDate || '');
+  const [redemptionPrice, setRedemptionPrice] = useState(initialRedemption?.pricePerShare || '');
+  const [redemptionInstalments, setRedemptionInstalments] = useState((initialRedemption?.instalments || 1).toString());
+  const [redemptionInterval, setRedemptionInterval] = useState((initialRedemption?.instalmentIntervalMonths || 12).toString());
+  const initialPayToPlay = data.payToPlay as PayToPlayTerms | undefined;
+  const [payToPlayEnabled, setPayToPlayEnabled] = useState(!!initialPayToPlay);
+  const [payToPlayConversion, setPayToPlayConversion] = useState<PayToPlayConversion>(initialPayToPlay?.conversion || 'common');
+  const [payToPlayRequiredPercent, setPayToPlayRequiredPercent] = useState((initialPayToPlay?.requiredPercent ?? 100).toString());
   const [esopTargetPercent, setEsopTargetPercent] = useState((data.esopTargetPercent || '').toString());
   const [esopTiming, setEsopTiming] = useState<'before_round' | 'after_round'>(
     (data.esopTiming as 'before_round' | 'after_round') || 'before_round'
@@ -583,9 +880,19 @@ function PricedRoundForm({ data, onChange, people, safes, currencySymbol, curren
   const [selectedSafes, setSelectedSafes] = useState<string[]>(
     (data.safesToConvert as string[]) || safes.map(s => s.id)
   );
+  const [selectedNotes, setSelectedNotes] = useState<string[]>(
+    (data.notesToConvert as string[]) || notes.map(n => n.id)
+  );
+  const [tranches, setTranches] = useState<Array<{ id: string; personId: string; name: string; amount: string; milestone: string }>>(
+    (data.tranches as Array<{ id: string; personId: string; name: string; amount: string; milestone: string }>) || []
+  );
 
   useEffect(() => {
     const totalInvestment = investors.reduce((sum, i) => sum + (parseFloat(i.amount) || 0), 0);
+    // Tranches follow the investor they belong to, so renames and removals carry through
+    const investorTranches = tranches
+      .filter(t => investors.some(i => i.personId === t.personId))
+      .map(t => ({ ...t, name: investors.find(i => i.personId === t.personId)?.name || t.name }));
     
     onChange({
       valuationInputType: valuationType,
@@ -594,24 +901,51 @@ function PricedRoundForm({ data, onChange, people, safes, currencySymbol, curren
       ...(valuationType === 'price_per_share' && { pricePerShare: valuation }),
       totalNewMoney: totalInvestment.toString(),
       investors,
+      ...(proRataRoundSize && { proRataRoundSize }),
       createNewShareClass: true,
       shareClassName,
       liquidationPreference: parseFloat(liquidationPref) || 1,
       participation,
+      antiDilution,
+      ...(classAuthorized && { authorizedShares: parseInt(classAuthorized, 10) || undefined }),
+      ...(parseFloat(dividendRate) > 0 && {
+        dividends: {
+          ratePercent: parseFloat(dividendRate),
+          cumulative: dividendCumulative,
+          compounding: dividendCompounding,
+          paymentForm: dividendPaymentForm,
+        },
+      }),
+      ...(redemptionDate && {
+        redemption: {
+          earliestDate: redemptionDate,
+          ...(redemptionPrice && { pricePerShare: redemptionPrice }),
+          instalments: parseInt(redemptionInstalments, 10) || 1,
+          instalmentIntervalMonths: parseInt(redemptionInterval, 10) || 12,
+        },
+      }),
+      ...(payToPlayEnabled && {
+        payToPlay: {
+          conversion: payToPlayConversion,
+          requiredPercent: parseFloat(payToPlayRequiredPercent) || 100,
+        },
+      }),
       ...(esopTargetPercent && { 
         esopTargetPercent: parseFloat(esopTargetPercent),
         esopTiming,
         esopDilutionScope
       }),
-      ...(safes.length > 0 && { safesToConvert: selectedSafes })
+      ...(safes.length > 0 && { safesToConvert: selectedSafes }),
+      ...(notes.length > 0 && { notesToConvert: selectedNotes }),
+      ...(investorTranches.length > 0 && { tranches: investorTranches })
     });
-  }, [valuationType, valuation, investors, shareClassName, liquidationPref, participation, esopTargetPercent, esopTiming, esopDilutionScope, selectedSafes]);
+  }, [valuationType, valuation, investors, proRataRoundSize, shareClassName, liquidationPref, participation, antiDilution, classAuthorized, dividendRate, dividendCumulative, dividendCompounding, dividendPaymentForm, redemptionDate, redemptionPrice, redemptionInstalments, redemptionInterval, payToPlayEnabled, payToPlayConversion, payToPlayRequiredPercent, esopTargetPercent, esopTiming, esopDilutionScope, selectedSafes, selectedNotes, tranches]);
 
   const addInvestor = () => {
     setInvestors([...investors, { personId: uuidv4(), name: '', amount: '' }]);
   };
 
-  const updateInvestor = (index: number, field: string, value: string) => {
+  const updateInvestor = (index: number, field: string, value: string | boolean) => {
     const updated = [...investors];
     updated[index] = { ...updated[index], [field]: value };
     setInvestors(updated);
@@ -623,7 +957,44 @@ function PricedRoundForm({ data, onChange, people, safes, currencySymbol, curren
     }
   };
 
+  const applyProRataAllocations = () => {
+    const updated = [...investors];
+    for (const allocation of proRataAllocations) {
+      const index = updated.findIndex(inv => inv.personId === allocation.holderId);
+      if (index >= 0) {
+        updated[index] = { ...updated[index], amount: allocation.allocation };
+      } else {
+        updated.push({ personId: allocation.holderId, name: allocation.holderName, amount: allocation.allocation, proRataRights: true });
+      }
+    }
+    setInvestors(updated.filter(inv => inv.name || inv.amount));
+  };
+
+  const addTranche = () => {
+    setTranches([...tranches, { id: uuidv4(), personId: investors[0].personId, name: investors[0].name, amount: '', milestone: '' }]);
+  };
+
+  const updateTranche = (index: number, field: string, value: string) => {
+    const updated = [...tranches];
+    updated[index] = { ...updated[index], [field]: value };
+    setTranches(updated);
+  };
+
   const totalInvestment = investors.reduce((sum, i) => sum + (parseFloat(i.amount) || 0), 0);
+  const totalCommitted = tranches.reduce((sum, t) => sum + (parseFloat(t.amount) || 0), 0);
+  const proRataAllocations = capTableState
+    ? calculateProRataAllocations(capTableState, parseFloat(proRataRoundSize) || totalInvestment)
+    : [];
+  const priorPreferredHolderIds = [...new Set(
+    (capTableState?.holdings || [])
+      .filter(h => !h.isOption && h.holderId !== TREASURY_HOLDER_ID && capTableState?.shareClasses.some(
+        sc => sc.id === h.shareClassId && sc.type === 'preferred'
+      ))
+      .map(h => h.holderId)
+  )];
+  const payToPlayAllocations = capTableState && payToPlayEnabled && priorPreferredHolderIds.length > 0
+    ? calculateProRataAllocations(capTableState, parseFloat(proRataRoundSize) || totalInvestment, priorPreferredHolderIds)
+    : [];
 
   return (
     <div className="space-y-6">
@@ -716,6 +1087,18 @@ function PricedRoundForm({ data, onChange, people, safes, currencySymbol, curren
                   placeholder="1,000,000"
                 />
               </div>
+              <button
+                type="button"
+                onClick={() => updateInvestor(index, 'proRataRights', !investor.proRataRights)}
+                className={`text-xs px-2 rounded-sm ${
+                  investor.proRataRights
+                    ? 'bg-charcoal-900 text-white'
+                    : 'bg-charcoal-100 text-charcoal-600'
+                }`}
+                title="Investor holds pro-rata rights in future rounds"
+              >
+                Pro-rata
+              </button>
               <button
                 type="button"
                 onClick={() => removeInvestor(index)}
@@ -742,69 +1125,394 @@ function PricedRoundForm({ data, onChange, people, safes, currencySymbol, curren
         </div>
       </div>
 
-      {/* Share Class */}
-      <div className="grid grid-cols-3 gap-4">
+      {/* Pro-Rata Rights */}
+      {proRataAllocations.length > 0 && (
+        <div className="p-4 border border-charcoal-200 rounded-sm space-y-3">
+          <div className="flex items-center justify-between">
+            <label className="input-label mb-0">Pro-Rata Allocations</label>
+            <div className="relative w-44">
+              <span className="absolute left-3 top-1/2 -translate-y-1/2 text-charcoal-400 text-sm">{currencySymbol}</span>
+              <input
+                type="number"
+                value={proRataRoundSize}
+                onChange={(e) => setProRataRoundSize(e.target.value)}
+                className="input pl-7"
+                placeholder={`Round size (${totalInvestment || 0})`}
+              />
+            </div>
+          </div>
+          <div className="space-y-1 text-sm">
+            {proRataAllocations.map(allocation => {
+              const invested = investors
+                .filter(inv => inv.personId === allocation.holderId)
+                .reduce((sum, inv) => sum + (parseFloat(inv.amount) || 0), 0);
+              return (
+                <div key={allocation.holderId} className="flex justify-between items-center">
+                  <span>
+                    {allocation.holderName}{' '}
+                    <span className="text-charcoal-500">({allocation.ownershipPercent}% fully diluted)</span>
+                  </span>
+                  <span className="font-mono">
+                    {formatMoney(invested)} / {formatMoney(Number(allocation.allocation))}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+          <div className="flex items-center justify-between">
+            <p className="input-help mt-0">Measured against the round size, or the current total if left blank</p>
+            <button
+              type="button"
+              onClick={applyProRataAllocations}
+              className="text-sm text-charcoal-600 hover:text-charcoal-900"
+            >
+              Pre-fill allocations
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Redemption Rights */}
+      <div className="grid grid-cols-4 gap-4">
         <div>
-          <label className="input-label">Share Class Name</label>
+          <label className="input-label">Redeemable From</label>
           <input
-            type="text"
-            value={shareClassName}
-            onChange={(e) => setShareClassName(e.target.value)}
+            type="date"
+            value={redemptionDate}
+            onChange={(e) => setRedemptionDate(e.target.value)}
             className="input"
-            placeholder="Series Seed"
           />
         </div>
         <div>
-          <label className="input-label">Liquidation Preference</label>
+          <label className="input-label">Redemption Price</label>
           <div className="relative">
+            <span className="absolute left-3 top-1/2 -translate-y-1/2 text-charcoal-400">{currencySymbol}</span>
             <input
               type="number"
-              value={liquidationPref}
-              onChange={(e) => setLiquidationPref(e.target.value)}
-              className="input pr-8"
-              placeholder="1.0"
-              step="0.1"
+              value={redemptionPrice}
+              onChange={(e) => setRedemptionPrice(e.target.value)}
+              className="input pl-7"
+              placeholder="Round price"
+              step="0.0001"
+              disabled={!redemptionDate}
             />
-            <span className="absolute right-3 top-1/2 -translate-y-1/2 text-charcoal-400">x</span>
           </div>
         </div>
         <div>
-          <label className="input-label">Participation</label>
-          <select
-            value={participation}
-            onChange={(e) => setParticipation(e.target.value)}
-            className="select"
-          >
-            <option value="non_participating">Non-Participating</option>
-            <option value="participating">Participating</option>
-            <option value="capped_participating">Capped Participating</option>
-          </select>
+          <label className="input-label">Instalments</label>
+          <input
+            type="number"
+            value={redemptionInstalments}
+            onChange={(e) => setRedemptionInstalments(e.target.value)}
+            className="input"
+            min="1"
+            disabled={!redemptionDate}
+          />
         </div>
-      </div>
-
-      {/* ESOP Top-up */}
-      <div className="space-y-3">
-        <label className="input-label">ESOP Pool Target (Optional)</label>
-        <div className="flex items-start gap-4">
-          <div className="relative w-28">
+        <div>
+          <label className="input-label">Every</label>
+          <div className="relative">
             <input
               type="number"
-              value={esopTargetPercent}
-              onChange={(e) => setEsopTargetPercent(e.target.value)}
-              className="input pr-8"
-              placeholder="10"
-              step="0.1"
+              value={redemptionInterval}
+              onChange={(e) => setRedemptionInterval(e.target.value)}
+              className="input pr-16"
+              min="1"
+              disabled={!redemptionDate || redemptionInstalments === '1'}
             />
-            <span className="absolute right-3 top-1/2 -translate-y-1/2 text-charcoal-400">%</span>
+            <span className="absolute right-3 top-1/2 -translate-y-1/2 text-charcoal-400">months</span>
           </div>
-          {esopTargetPercent && (
+        </div>
+      </div>
+      <p className="input-help -mt-4">Leave the date blank if the class has no redemption rights</p>
+
+      {/* Pay-to-Play */}
+      {priorPreferredHolderIds.length > 0 && (
+        <div className="p-4 border border-charcoal-200 rounded-sm space-y-3">
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={payToPlayEnabled}
+              onChange={(e) => setPayToPlayEnabled(e.target.checked)}
+              className="rounded border-charcoal-300"
+            />
+            <span className="font-medium text-charcoal-900">Pay-to-play</span>
+          </label>
+          {payToPlayEnabled && (
             <>
-              <div className="flex flex-col gap-1">
-                <span className="text-xs text-charcoal-500">Timing</span>
-                <div className="flex gap-1">
-                  <button
-                    type="button"
-                    onClick={() => setEsopTiming('before_round')}
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="input-label">Non-Participants Convert To</label>
+                  <select
+                    value={payToPlayConversion}
+                    onChange={(e) => setPayToPlayConversion(e.target.value as PayToPlayConversion)}
+                    className="select"
+                  >
+                    {(Object.keys(PAY_TO_PLAY_CONVERSION_LABELS) as PayToPlayConversion[]).map(conversion => (
+                      <option key={conversion} value={conversion}>{PAY_TO_PLAY_CONVERSION_LABELS[conversion]}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="input-label">Required Take-Up</label>
+                  <div className="relative">
+                    <input
+                      type="number"
+                      value={payToPlayRequiredPercent}
+                      onChange={(e) => setPayToPlayRequiredPercent(e.target.value)}
+                      className="input pr-8"
+                      placeholder="100"
+                      step="5"
+                    />
+                    <span className="absolute right-3 top-1/2 -translate-y-1/2 text-charcoal-400">%</span>
+                  </div>
+                </div>
+              </div>
+              <div className="space-y-1 text-sm">
+                {payToPlayAllocations.map(allocation => {
+                  const required = Number(allocation.allocation) * (parseFloat(payToPlayRequiredPercent) || 100) / 100;
+                  const invested = [...investors, ...tranches]
+                    .filter(inv => inv.personId === allocation.holderId)
+                    .reduce((sum, inv) => sum + (parseFloat(inv.amount) || 0), 0);
+                  return (
+                    <div key={allocation.holderId} className="flex justify-between items-center">
+                      <span>
+                        {allocation.holderName}{' '}
+                        <span className={invested >= required ? 'text-emerald-600' : 'text-rose-600'}>
+                          ({invested >= required ? 'participates' : 'converts'})
+                        </span>
+                      </span>
+                      <span className="font-mono">
+                        {formatMoney(invested)} / {formatMoney(required)}
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
+              <p className="input-help mt-0">
+                Prior preferred holders investing less than this share of their pro-rata allocation lose their 
+                liquidation preference, dividends and anti-dilution protection
+              </p>
+            </>
+          )}
+        </div>
+      )}
+
+      {/* Milestone Tranches */}
+      <div>
+        <label className="input-label">Milestone Tranches (Optional)</label>
+        {tranches.length > 0 && (
+          <div className="space-y-2">
+            {tranches.map((tranche, index) => (
+              <div key={tranche.id} className="flex gap-2">
+                <select
+                  value={tranche.personId}
+                  onChange={(e) => updateTranche(index, 'personId', e.target.value)}
+                  className="select w-40"
+                >
+                  {investors.map(investor => (
+                    <option key={investor.personId} value={investor.personId}>
+                      {investor.name || 'Unnamed investor'}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  value={tranche.milestone}
+                  onChange={(e) => updateTranche(index, 'milestone', e.target.value)}
+                  className="input flex-1"
+                  placeholder="Milestone, e.g. FDA approval"
+                />
+                <div className="relative w-40">
+                  <span className="absolute left-3 top-1/2 -translate-y-1/2 text-charcoal-400 text-sm">{currencySymbol}</span>
+                  <input
+                    type="number"
+                    value={tranche.amount}
+                    onChange={(e) => updateTranche(index, 'amount', e.target.value)}
+                    className="input pl-7"
+                    placeholder="500,000"
+                  />
+                </div>
+                <button
+                  type="button"
+                  onClick={() => setTranches(tranches.filter((_, i) => i !== index))}
+                  className="btn-ghost p-2 text-charcoal-400 hover:text-red-600"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="flex items-center justify-between mt-2">
+          <button
+            type="button"
+            onClick={addTranche}
+            className="text-sm text-charcoal-600 hover:text-charcoal-900 flex items-center gap-1"
+          >
+            <Plus className="w-4 h-4" />
+            Add Tranche
+          </button>
+          {tranches.length > 0 && (
+            <span className="text-sm font-mono text-charcoal-600">
+              Committed: {formatMoney(totalCommitted)}
+            </span>
+          )}
+        </div>
+        <p className="input-help">Committed at this round's price and issued by a Tranche Release once the milestone is met</p>
+      </div>
+
+      {/* Share Class */}
+      <div className="grid grid-cols-3 gap-4">
+        <div>
+          <label className="input-label">Share Class Name</label>
+          <input
+            type="text"
+            value={shareClassName}
+            onChange={(e) => setShareClassName(e.target.value)}
+            className="input"
+            placeholder="Series Seed"
+          />
+        </div>
+        <div>
+          <label className="input-label">Liquidation Preference</label>
+          <div className="relative">
+            <input
+              type="number"
+              value={liquidationPref}
+              onChange={(e) => setLiquidationPref(e.target.value)}
+              className="input pr-8"
+              placeholder="1.0"
+              step="0.1"
+            />
+            <span className="absolute right-3 top-1/2 -translate-y-1/2 text-charcoal-400">x</span>
+          </div>
+        </div>
+        <div>
+          <label className="input-label">Participation</label>
+          <select
+            value={participation}
+            onChange={(e) => setParticipation(e.target.value)}
+            className="select"
+          >
+            <option value="non_participating">Non-Participating</option>
+            <option value="participating">Participating</option>
+            <option value="capped_participating">Capped Participating</option>
+          </select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="input-label">Anti-Dilution Protection</label>
+          <select
+            value={antiDilution}
+            onChange={(e) => setAntiDilution(e.target.value as AntiDilutionType)}
+            className="select"
+          >
+            {(Object.keys(ANTI_DILUTION_LABELS) as AntiDilutionType[]).map(type => (
+              <option key={type} value={type}>{ANTI_DILUTION_LABELS[type]}</option>
+            ))}
+          </select>
+          <p className="input-help">Lowers this class's conversion price if a later round is priced below it</p>
+        </div>
+        <div>
+          <label className="input-label">Authorized Shares</label>
+          <input
+            type="number"
+            value={classAuthorized}
+            onChange={(e) => setClassAuthorized(e.target.value)}
+            className="input"
+            placeholder="Unlimited"
+          />
+          <p className="input-help">Shares of this class the charter authorizes</p>
+        </div>
+      </div>
+
+      {/* Dividend Terms */}
+      <div className="grid grid-cols-4 gap-4">
+        <div>
+          <label className="input-label">Dividend Rate</label>
+          <div className="relative">
+            <input
+              type="number"
+              value={dividendRate}
+              onChange={(e) => setDividendRate(e.target.value)}
+              className="input pr-8"
+              placeholder="0"
+              step="0.5"
+            />
+            <span className="absolute right-3 top-1/2 -translate-y-1/2 text-charcoal-400">%</span>
+          </div>
+        </div>
+        <div>
+          <label className="input-label">Accrual</label>
+          <select
+            value={dividendCumulative ? 'cumulative' : 'non_cumulative'}
+            onChange={(e) => setDividendCumulative(e.target.value === 'cumulative')}
+            className="select"
+            disabled={!(parseFloat(dividendRate) > 0)}
+          >
+            <option value="non_cumulative">Non-Cumulative</option>
+            <option value="cumulative">Cumulative</option>
+          </select>
+        </div>
+        <div>
+          <label className="input-label">Compounding</label>
+          <select
+            value={dividendCompounding}
+            onChange={(e) => setDividendCompounding(e.target.value as InterestType)}
+            className="select"
+            disabled={!(parseFloat(dividendRate) > 0)}
+          >
+            <option value="simple">Simple</option>
+            <option value="compound">Compound (annual)</option>
+          </select>
+        </div>
+        <div>
+          <label className="input-label">Paid In</label>
+          <select
+            value={dividendPaymentForm}
+            onChange={(e) => setDividendPaymentForm(e.target.value as DividendPaymentForm)}
+            className="select"
+            disabled={!(parseFloat(dividendRate) > 0)}
+          >
+            <option value="cash">Cash</option>
+            <option value="pik">Shares (PIK)</option>
+          </select>
+        </div>
+      </div>
+      {parseFloat(dividendRate) > 0 && (
+        <p className="input-help -mt-4">
+          {dividendCumulative
+            ? 'Unpaid dividends accrue on the issue price and are added to the liquidation preference at exit'
+            : 'Dividends are only owed when declared; nothing carries over to the liquidation preference'}
+        </p>
+      )}
+
+      {/* ESOP Top-up */}
+      <div className="space-y-3">
+        <label className="input-label">ESOP Pool Target (Optional)</label>
+        <div className="flex items-start gap-4">
+          <div className="relative w-28">
+            <input
+              type="number"
+              value={esopTargetPercent}
+              onChange={(e) => setEsopTargetPercent(e.target.value)}
+              className="input pr-8"
+              placeholder="10"
+              step="0.1"
+            />
+            <span className="absolute right-3 top-1/2 -translate-y-1/2 text-charcoal-400">%</span>
+          </div>
+          {esopTargetPercent && (
+            <>
+              <div className="flex flex-col gap-1">
+                <span className="text-xs text-charcoal-500">Timing</span>
+                <div className="flex gap-1">
+                  <button
+                    type="button"
+                    onClick={() => setEsopTiming('before_round')}
                     className={`text-xs px-2 py-1 rounded-sm ${
                       esopTiming === 'before_round' 
                         ? 'bg-charcoal-900 text-white' 
@@ -952,6 +1660,70 @@ function PricedRoundForm({ data, onChange, people, safes, currencySymbol, curren
           </div>
         </div>
       )}
+
+      {/* Convertible Note Conversion */}
+      {notes.length > 0 && (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <label className="input-label mb-0">Convertible Notes Converting in This Round</label>
+            <span className="text-xs text-charcoal-500">
+              {selectedNotes.length} of {notes.length} selected
+            </span>
+          </div>
+          <p className="input-help mt-0">
+            Notes convert at principal plus interest accrued up to the round date, at the lower of 
+            the cap price or discount price.
+          </p>
+
+          <div className="border border-charcoal-200 rounded-sm overflow-hidden">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="bg-charcoal-50 text-xs text-charcoal-500 uppercase">
+                  <th className="px-3 py-2 text-left font-medium">Convert</th>
+                  <th className="px-3 py-2 text-left font-medium">Noteholder</th>
+                  <th className="px-3 py-2 text-right font-medium">Principal</th>
+                  <th className="px-3 py-2 text-right font-medium">Interest</th>
+                  <th className="px-3 py-2 text-right font-medium">Cap</th>
+                  <th className="px-3 py-2 text-right font-medium">Discount</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-charcoal-100">
+                {notes.map((note) => (
+                  <tr key={note.id} className={selectedNotes.includes(note.id) ? 'bg-emerald-50/50' : ''}>
+                    <td className="px-3 py-2">
+                      <input
+                        type="checkbox"
+                        checked={selectedNotes.includes(note.id)}
+                        onChange={(e) => {
+                          if (e.target.checked) {
+                            setSelectedNotes([...selectedNotes, note.id]);
+                          } else {
+                            setSelectedNotes(selectedNotes.filter(id => id !== note.id));
+                          }
+                        }}
+                        className="rounded border-charcoal-300"
+                      />
+                    </td>
+                    <td className="px-3 py-2 font-medium">{note.investorName}</td>
+                    <td className="px-3 py-2 text-right font-mono">
+                      {formatMoney(Number(note.principalAmount))}
+                    </td>
+                    <td className="px-3 py-2 text-right font-mono">
+                      {note.interestRatePercent}% {note.interestType}
+                    </td>
+                    <td className="px-3 py-2 text-right font-mono">
+                      {note.valuationCap ? formatMoney(Number(note.valuationCap)) : '—'}
+                    </td>
+                    <td className="px-3 py-2 text-right font-mono">
+                      {note.discountPercent ? `${note.discountPercent}%` : '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -1133,6 +1905,9 @@ function SAFEIssuanceForm({ data, onChange, currencySymbol }: FormProps) {
             />
             <span className="text-sm text-charcoal-700">Most Favored Nation (MFN) clause</span>
           </label>
+          {safe.mostFavoredNation && (
+            <p className="input-help">Adopts a lower cap or higher discount from any SAFE issued later, until conversion</p>
+          )}
         </div>
       ))}
 
@@ -1148,55 +1923,236 @@ function SAFEIssuanceForm({ data, onChange, currencySymbol }: FormProps) {
   );
 }
 
-function ESOPPoolCreationForm({ data, onChange }: FormProps) {
-  const [mode, setMode] = useState<'percentage' | 'shares'>(
-    (data.inputMode as 'percentage' | 'shares') || 'percentage'
+type NoteFormItem = {
+  id: string;
+  investorId: string;
+  investorName: string;
+  principalAmount: string;
+  interestRatePercent: string;
+  interestType: 'simple' | 'compound';
+  valuationCap: string;
+  discountPercent: string;
+  maturityDate: string;
+  notes: string;
+};
+
+const emptyNoteFormItem = (): NoteFormItem => ({
+  id: uuidv4(),
+  investorId: uuidv4(),
+  investorName: '',
+  principalAmount: '',
+  interestRatePercent: '8',
+  interestType: 'simple',
+  valuationCap: '',
+  discountPercent: '20',
+  maturityDate: '',
+  notes: ''
+});
+
+function ConvertibleNoteIssuanceForm({ data, onChange, currencySymbol }: FormProps) {
+  const [notes, setNotes] = useState<NoteFormItem[]>(
+    (data.notes as NoteFormItem[]) || [emptyNoteFormItem()]
   );
-  const [value, setValue] = useState((data.percentage || data.shares || '10').toString());
 
   useEffect(() => {
-    onChange({
-      inputMode: mode,
-      ...(mode === 'percentage' 
-        ? { percentage: parseFloat(value) || 0 }
-        : { shares: parseInt(value, 10) || 0 })
-    });
-  }, [mode, value]);
+    onChange({ notes });
+  }, [notes]);
+
+  const updateNote = (index: number, field: string, value: string) => {
+    const updated = [...notes];
+    updated[index] = { ...updated[index], [field]: value };
+    setNotes(updated);
+  };
+
+  const removeNote = (index: number) => {
+    if (notes.length > 1) {
+      setNotes(notes.filter((_: NoteFormItem, i: number) => i !== index));
+    }
+  };
 
   return (
     <div className="space-y-6">
-      <div className="p-4 bg-blue-50 rounded-sm border border-blue-100 flex gap-3">
-        <Info className="w-5 h-5 text-blue-600 flex-shrink-0 mt-0.5" />
-        <div className="text-sm text-blue-800">
-          <p className="font-medium mb-1">ESOP Pool Creation</p>
-          <p>Creates an option pool for employee equity grants. The pool dilutes all existing 
-          shareholders proportionally.</p>
+      {/* Info Box */}
+      <div className="p-4 bg-amber-50 rounded-sm border border-amber-100 flex gap-3">
+        <Info className="w-5 h-5 text-amber-600 flex-shrink-0 mt-0.5" />
+        <div className="text-sm text-amber-800">
+          <p className="font-medium mb-1">Convertible Note Issuance</p>
+          <p>A loan that accrues interest until maturity. At the next priced round the principal 
+          plus accrued interest converts into shares at the lower of the cap or discount price.</p>
         </div>
       </div>
 
-      <div>
-        <label className="input-label">Pool Size Method</label>
-        <div className="flex gap-2 mb-3">
-          <button
-            type="button"
-            onClick={() => setMode('percentage')}
-            className={`text-xs px-3 py-1.5 rounded-sm ${
-              mode === 'percentage' 
-                ? 'bg-charcoal-900 text-white' 
-                : 'bg-charcoal-100 text-charcoal-600'
-            }`}
-          >
-            % of Fully Diluted
-          </button>
-          <button
-            type="button"
-            onClick={() => setMode('shares')}
-            className={`text-xs px-3 py-1.5 rounded-sm ${
-              mode === 'shares' 
-                ? 'bg-charcoal-900 text-white' 
-                : 'bg-charcoal-100 text-charcoal-600'
-            }`}
-          >
+      {notes.map((note: NoteFormItem, index: number) => (
+        <div key={note.id} className="p-4 border border-charcoal-200 rounded-sm space-y-4">
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-medium text-charcoal-900">Note #{index + 1}</h4>
+            {notes.length > 1 && (
+              <button
+                type="button"
+                onClick={() => removeNote(index)}
+                className="btn-ghost p-1 text-charcoal-400 hover:text-red-600"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="input-label">Noteholder Name</label>
+              <input
+                type="text"
+                value={note.investorName}
+                onChange={(e) => updateNote(index, 'investorName', e.target.value)}
+                className="input"
+                placeholder="Investor name"
+              />
+            </div>
+            <div>
+              <label className="input-label">Principal</label>
+              <div className="relative">
+                <span className="absolute left-3 top-1/2 -translate-y-1/2 text-charcoal-400 text-sm">{currencySymbol}</span>
+                <input
+                  type="number"
+                  value={note.principalAmount}
+                  onChange={(e) => updateNote(index, 'principalAmount', e.target.value)}
+                  className="input pl-7"
+                  placeholder="250,000"
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="input-label">Interest Rate</label>
+              <div className="relative">
+                <input
+                  type="number"
+                  value={note.interestRatePercent}
+                  onChange={(e) => updateNote(index, 'interestRatePercent', e.target.value)}
+                  className="input pr-8"
+                  placeholder="8"
+                  step="0.1"
+                />
+                <span className="absolute right-3 top-1/2 -translate-y-1/2 text-charcoal-400">%</span>
+              </div>
+            </div>
+            <div>
+              <label className="input-label">Interest Type</label>
+              <select
+                value={note.interestType}
+                onChange={(e) => updateNote(index, 'interestType', e.target.value)}
+                className="select"
+              >
+                <option value="simple">Simple</option>
+                <option value="compound">Compound (annual)</option>
+              </select>
+            </div>
+            <div>
+              <label className="input-label">Maturity Date</label>
+              <input
+                type="date"
+                value={note.maturityDate}
+                onChange={(e) => updateNote(index, 'maturityDate', e.target.value)}
+                className="input"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="input-label">Valuation Cap (Optional)</label>
+              <div className="relative">
+                <span className="absolute left-3 top-1/2 -translate-y-1/2 text-charcoal-400 text-sm">{currencySymbol}</span>
+                <input
+                  type="number"
+                  value={note.valuationCap}
+                  onChange={(e) => updateNote(index, 'valuationCap', e.target.value)}
+                  className="input pl-7"
+                  placeholder="10,000,000"
+                />
+              </div>
+            </div>
+            <div>
+              <label className="input-label">Discount (Optional)</label>
+              <div className="relative">
+                <input
+                  type="number"
+                  value={note.discountPercent}
+                  onChange={(e) => updateNote(index, 'discountPercent', e.target.value)}
+                  className="input pr-8"
+                  placeholder="20"
+                  step="1"
+                />
+                <span className="absolute right-3 top-1/2 -translate-y-1/2 text-charcoal-400">%</span>
+              </div>
+            </div>
+          </div>
+        </div>
+      ))}
+
+      <button
+        type="button"
+        onClick={() => setNotes([...notes, emptyNoteFormItem()])}
+        className="text-sm text-charcoal-600 hover:text-charcoal-900 flex items-center gap-1"
+      >
+        <Plus className="w-4 h-4" />
+        Add Another Note
+      </button>
+    </div>
+  );
+}
+
+function ESOPPoolCreationForm({ data, onChange }: FormProps) {
+  const [mode, setMode] = useState<'percentage' | 'shares'>(
+    (data.inputMode as 'percentage' | 'shares') || 'percentage'
+  );
+  const [value, setValue] = useState((data.percentage || data.shares || '10').toString());
+
+  useEffect(() => {
+    onChange({
+      inputMode: mode,
+      ...(mode === 'percentage' 
+        ? { percentage: parseFloat(value) || 0 }
+        : { shares: parseInt(value, 10) || 0 })
+    });
+  }, [mode, value]);
+
+  return (
+    <div className="space-y-6">
+      <div className="p-4 bg-blue-50 rounded-sm border border-blue-100 flex gap-3">
+        <Info className="w-5 h-5 text-blue-600 flex-shrink-0 mt-0.5" />
+        <div className="text-sm text-blue-800">
+          <p className="font-medium mb-1">ESOP Pool Creation</p>
+          <p>Creates an option pool for employee equity grants. The pool dilutes all existing 
+          shareholders proportionally.</p>
+        </div>
+      </div>
+
+      <div>
+        <label className="input-label">Pool Size Method</label>
+        <div className="flex gap-2 mb-3">
+          <button
+            type="button"
+            onClick={() => setMode('percentage')}
+            className={`text-xs px-3 py-1.5 rounded-sm ${
+              mode === 'percentage' 
+                ? 'bg-charcoal-900 text-white' 
+                : 'bg-charcoal-100 text-charcoal-600'
+            }`}
+          >
+            % of Fully Diluted
+          </button>
+          <button
+            type="button"
+            onClick={() => setMode('shares')}
+            className={`text-xs px-3 py-1.5 rounded-sm ${
+              mode === 'shares' 
+                ? 'bg-charcoal-900 text-white' 
+                : 'bg-charcoal-100 text-charcoal-600'
+            }`}
+          >
             Fixed Shares
           </button>
         </div>
@@ -1273,9 +2229,10 @@ function ESOPGrantForm({ data, onChange, people, currencySymbol }: FormProps & {
   const [strikePrice, setStrikePrice] = useState((data.strikePrice || '').toString());
   const [vestingStartDate, setVestingStartDate] = useState((data.vestingStartDate as string) || '');
   const [hasVesting, setHasVesting] = useState(true);
-  const [cliffMonths, setCliffMonths] = useState('12');
-  const [totalMonths, setTotalMonths] = useState('48');
-  const [cliffPercent, setCliffPercent] = useState('25');
+  const [allowEarlyExercise, setAllowEarlyExercise] = useState(!!data.allowEarlyExercise);
+  const [vesting, setVesting] = useState(() =>
+    vestingFieldsFromSchedule(data.vestingSchedule as Omit<VestingSchedule, 'id'> | undefined)
+  );
 
   const employees = people.filter(p => p.type === 'employee' || p.type === 'advisor');
 
@@ -1290,17 +2247,10 @@ function ESOPGrantForm({ data, onChange, people, currencySymbol }: FormProps & {
       ),
       strikePrice,
       vestingStartDate: vestingStartDate || undefined,
-      ...(hasVesting && {
-        vestingSchedule: {
-          description: `${totalMonths} months, ${cliffMonths} month cliff`,
-          cliffMonths: parseInt(cliffMonths, 10) || 12,
-          totalMonths: parseInt(totalMonths, 10) || 48,
-          vestingFrequency: 'monthly',
-          initialCliffPercent: parseFloat(cliffPercent) || 25
-        }
-      })
+      ...(hasVesting && { vestingSchedule: buildVestingSchedule(vesting) }),
+      ...(hasVesting && allowEarlyExercise && { allowEarlyExercise: true })
     });
-  }, [employeeId, employeeName, grantMode, shares, percentage, strikePrice, vestingStartDate, hasVesting, cliffMonths, totalMonths, cliffPercent]);
+  }, [employeeId, employeeName, grantMode, shares, percentage, strikePrice, vestingStartDate, hasVesting, vesting, allowEarlyExercise]);
 
   return (
     <div className="space-y-6">
@@ -1426,45 +2376,264 @@ function ESOPGrantForm({ data, onChange, people, currencySymbol }: FormProps & {
         </label>
 
         {hasVesting && (
-          <div className="p-4 bg-charcoal-50 rounded-sm grid grid-cols-3 gap-4">
-            <div>
-              <label className="input-label">Total Vesting Period</label>
-              <div className="relative">
-                <input
-                  type="number"
-                  value={totalMonths}
-                  onChange={(e) => setTotalMonths(e.target.value)}
-                  className="input pr-16"
-                  placeholder="48"
-                />
-                <span className="absolute right-3 top-1/2 -translate-y-1/2 text-charcoal-400 text-xs">months</span>
-              </div>
+          <VestingScheduleFields value={vesting} onChange={setVesting} />
+        )}
+
+        {hasVesting && (
+          <label className="flex items-center gap-2 cursor-pointer mt-3">
+            <input
+              type="checkbox"
+              checked={allowEarlyExercise}
+              onChange={(e) => setAllowEarlyExercise(e.target.checked)}
+              className="rounded border-charcoal-300"
+            />
+            <span className="text-sm text-charcoal-700">
+              Allow early exercise (unvested shares stay subject to repurchase)
+            </span>
+          </label>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface VestingFieldValues {
+  scheduleType: 'cliff' | 'tranches';
+  cliffMonths: string;
+  totalMonths: string;
+  cliffPercent: string;
+  vestingFrequency: VestingFrequency;
+  tranches: Array<{ monthOffset: string; percent: string }>;
+  accelerationTrigger: AccelerationTrigger | '';
+  accelerationPercent: string;
+}
+
+function vestingFieldsFromSchedule(schedule?: Omit<VestingSchedule, 'id'>): VestingFieldValues {
+  return {
+    scheduleType: schedule?.tranches?.length ? 'tranches' : 'cliff',
+    cliffMonths: (schedule?.cliffMonths ?? 12).toString(),
+    totalMonths: (schedule?.totalMonths ?? 48).toString(),
+    cliffPercent: (schedule?.initialCliffPercent ?? 25).toString(),
+    vestingFrequency: schedule?.vestingFrequency || 'monthly',
+    tranches: schedule?.tranches?.length
+      ? schedule.tranches.map(t => ({ monthOffset: t.monthOffset.toString(), percent: t.percent.toString() }))
+      : [
+          { monthOffset: '12', percent: '10' },
+          { monthOffset: '24', percent: '20' },
+          { monthOffset: '36', percent: '30' },
+          { monthOffset: '48', percent: '40' }
+        ],
+    accelerationTrigger: schedule?.acceleration?.trigger || '',
+    accelerationPercent: (schedule?.acceleration?.percent ?? 100).toString()
+  };
+}
+
+function buildVestingSchedule(fields: VestingFieldValues): Omit<VestingSchedule, 'id'> {
+  const acceleration = fields.accelerationTrigger
+    ? { acceleration: { trigger: fields.accelerationTrigger, percent: parseFloat(fields.accelerationPercent) || 0 } }
+    : {};
+
+  if (fields.scheduleType === 'tranches') {
+    const tranches = fields.tranches.map(t => ({
+      monthOffset: parseInt(t.monthOffset, 10) || 0,
+      percent: parseFloat(t.percent) || 0
+    }));
+    const offsets = tranches.map(t => t.monthOffset);
+    return {
+      description: `${tranches.map(t => `${t.percent}%`).join('/')} over ${Math.max(0, ...offsets)} months`,
+      cliffMonths: Math.min(...offsets),
+      totalMonths: Math.max(0, ...offsets),
+      vestingFrequency: fields.vestingFrequency,
+      initialCliffPercent: 0,
+      tranches,
+      ...acceleration
+    };
+  }
+
+  return {
+    description: `${fields.totalMonths} months, ${fields.cliffMonths} month cliff`,
+    cliffMonths: parseInt(fields.cliffMonths, 10) || 0,
+    totalMonths: parseInt(fields.totalMonths, 10) || 48,
+    vestingFrequency: fields.vestingFrequency,
+    initialCliffPercent: parseFloat(fields.cliffPercent) || 0,
+    ...acceleration
+  };
+}
+
+function VestingScheduleFields({
+  value,
+  onChange,
+}: {
+  value: VestingFieldValues;
+  onChange: (value: VestingFieldValues) => void;
+}) {
+  const update = (changes: Partial<VestingFieldValues>) => onChange({ ...value, ...changes });
+  const updateTranche = (index: number, field: 'monthOffset' | 'percent', fieldValue: string) => {
+    const tranches = [...value.tranches];
+    tranches[index] = { ...tranches[index], [field]: fieldValue };
+    update({ tranches });
+  };
+  const trancheTotal = value.tranches.reduce((sum, t) => sum + (parseFloat(t.percent) || 0), 0);
+
+  return (
+    <div className="p-4 bg-charcoal-50 rounded-sm space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="input-label">Schedule</label>
+          <select
+            value={value.scheduleType}
+            onChange={(e) => update({ scheduleType: e.target.value as VestingFieldValues['scheduleType'] })}
+            className="select"
+          >
+            <option value="cliff">Cliff, then even instalments</option>
+            <option value="tranches">Custom tranches</option>
+          </select>
+        </div>
+        {value.scheduleType === 'cliff' && (
+          <div>
+            <label className="input-label">Frequency</label>
+            <select
+              value={value.vestingFrequency}
+              onChange={(e) => update({ vestingFrequency: e.target.value as VestingFrequency })}
+              className="select"
+            >
+              {(Object.keys(VESTING_FREQUENCY_LABELS) as VestingFrequency[]).map(frequency => (
+                <option key={frequency} value={frequency}>{VESTING_FREQUENCY_LABELS[frequency]}</option>
+              ))}
+            </select>
+          </div>
+        )}
+      </div>
+
+      {value.scheduleType === 'cliff' ? (
+        <div className="grid grid-cols-3 gap-4">
+          <div>
+            <label className="input-label">Total Vesting Period</label>
+            <div className="relative">
+              <input
+                type="number"
+                value={value.totalMonths}
+                onChange={(e) => update({ totalMonths: e.target.value })}
+                className="input pr-16"
+                placeholder="48"
+              />
+              <span className="absolute right-3 top-1/2 -translate-y-1/2 text-charcoal-400 text-xs">months</span>
             </div>
-            <div>
-              <label className="input-label">Cliff Period</label>
-              <div className="relative">
-                <input
-                  type="number"
-                  value={cliffMonths}
-                  onChange={(e) => setCliffMonths(e.target.value)}
-                  className="input pr-16"
-                  placeholder="12"
-                />
-                <span className="absolute right-3 top-1/2 -translate-y-1/2 text-charcoal-400 text-xs">months</span>
-              </div>
+          </div>
+          <div>
+            <label className="input-label">Cliff Period</label>
+            <div className="relative">
+              <input
+                type="number"
+                value={value.cliffMonths}
+                onChange={(e) => update({ cliffMonths: e.target.value })}
+                className="input pr-16"
+                placeholder="12"
+              />
+              <span className="absolute right-3 top-1/2 -translate-y-1/2 text-charcoal-400 text-xs">months</span>
             </div>
-            <div>
-              <label className="input-label">Cliff Vesting %</label>
-              <div className="relative">
-                <input
-                  type="number"
-                  value={cliffPercent}
-                  onChange={(e) => setCliffPercent(e.target.value)}
-                  className="input pr-8"
-                  placeholder="25"
-                />
-                <span className="absolute right-3 top-1/2 -translate-y-1/2 text-charcoal-400">%</span>
+          </div>
+          <div>
+            <label className="input-label">Cliff Vesting %</label>
+            <div className="relative">
+              <input
+                type="number"
+                value={value.cliffPercent}
+                onChange={(e) => update({ cliffPercent: e.target.value })}
+                className="input pr-8"
+                placeholder="25"
+              />
+              <span className="absolute right-3 top-1/2 -translate-y-1/2 text-charcoal-400">%</span>
+            </div>
+          </div>
+        </div>
+      ) : (
+        <div>
+          <div className="space-y-2">
+            {value.tranches.map((tranche, index) => (
+              <div key={index} className="flex gap-2">
+                <div className="relative flex-1">
+                  <input
+                    type="number"
+                    value={tranche.monthOffset}
+                    onChange={(e) => updateTranche(index, 'monthOffset', e.target.value)}
+                    className="input pr-16"
+                    placeholder="12"
+                  />
+                  <span className="absolute right-3 top-1/2 -translate-y-1/2 text-charcoal-400 text-xs">months</span>
+                </div>
+                <div className="relative w-32">
+                  <input
+                    type="number"
+                    value={tranche.percent}
+                    onChange={(e) => updateTranche(index, 'percent', e.target.value)}
+                    className="input pr-8"
+                    placeholder="25"
+                    step="0.01"
+                  />
+                  <span className="absolute right-3 top-1/2 -translate-y-1/2 text-charcoal-400">%</span>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => update({ tranches: value.tranches.filter((_, i) => i !== index) })}
+                  className="btn-ghost p-2 text-charcoal-400 hover:text-red-600"
+                  disabled={value.tranches.length === 1}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
               </div>
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={() => update({ tranches: [...value.tranches, { monthOffset: '', percent: '' }] })}
+            className="mt-2 text-sm text-charcoal-600 hover:text-charcoal-900 flex items-center gap-1"
+          >
+            <Plus className="w-4 h-4" />
+            Add Tranche
+          </button>
+          {trancheTotal !== 100 && (
+            <p className={`mt-2 text-sm ${trancheTotal > 100 ? 'text-red-600' : 'text-amber-600'}`}>
+              Total: {trancheTotal.toFixed(2)}% (must equal 100%)
+            </p>
+          )}
+          <p className="input-help">Each tranche vests that many months after the vesting start, on the same day of the month</p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="input-label">Acceleration</label>
+          <select
+            value={value.accelerationTrigger}
+            onChange={(e) => update({ accelerationTrigger: e.target.value as AccelerationTrigger | '' })}
+            className="select"
+          >
+            <option value="">None</option>
+            {(Object.keys(ACCELERATION_TRIGGER_LABELS) as AccelerationTrigger[]).map(trigger => (
+              <option key={trigger} value={trigger}>{ACCELERATION_TRIGGER_LABELS[trigger]}</option>
+            ))}
+          </select>
+          <p className="input-help">
+            {value.accelerationTrigger === 'double'
+              ? 'On a change of control followed by termination'
+              : 'On a change of control'}
+          </p>
+        </div>
+        {value.accelerationTrigger && (
+          <div>
+            <label className="input-label">Unvested Portion Accelerated</label>
+            <div className="relative">
+              <input
+                type="number"
+                value={value.accelerationPercent}
+                onChange={(e) => update({ accelerationPercent: e.target.value })}
+                className="input pr-8"
+                placeholder="100"
+                min="0"
+                max="100"
+              />
+              <span className="absolute right-3 top-1/2 -translate-y-1/2 text-charcoal-400">%</span>
             </div>
           </div>
         )}
@@ -1473,18 +2642,29 @@ function ESOPGrantForm({ data, onChange, people, currencySymbol }: FormProps & {
   );
 }
 
-function OptionExerciseForm({ data, onChange, people }: FormProps & { people: Person[] }) {
+function OptionExerciseForm({ data, onChange, people, currencySymbol }: FormProps & { people: Person[] }) {
   const [employeeId, setEmployeeId] = useState((data.employeeId as string) || '');
   const [shares, setShares] = useState((data.shares || '').toString());
+  const [method, setMethod] = useState<OptionExerciseMethod>((data.method as OptionExerciseMethod) || 'cash');
+  const [fairMarketValue, setFairMarketValue] = useState((data.fairMarketValue as string) || '');
+  const [taxWithholdingPercent, setTaxWithholdingPercent] = useState((data.taxWithholdingPercent || '').toString());
+  const [buyerId, setBuyerId] = useState((data.buyerId as string) || uuidv4());
+  const [buyerName, setBuyerName] = useState((data.buyerName as string) || '');
 
   const employees = people.filter(p => p.type === 'employee' || p.type === 'advisor');
 
   useEffect(() => {
     onChange({
       employeeId,
-      shares: parseInt(shares, 10) || 0
+      shares: parseInt(shares, 10) || 0,
+      ...(method !== 'cash' && {
+        method,
+        fairMarketValue,
+        ...(taxWithholdingPercent && { taxWithholdingPercent: parseFloat(taxWithholdingPercent) || 0 })
+      }),
+      ...(method === 'cashless' && { buyerId, buyerName })
     });
-  }, [employeeId, shares]);
+  }, [employeeId, shares, method, fairMarketValue, taxWithholdingPercent, buyerId, buyerName]);
 
   return (
     <div className="space-y-6">
@@ -1494,6 +2674,9 @@ function OptionExerciseForm({ data, onChange, people }: FormProps & { people: Pe
           <p className="font-medium mb-1">Option Exercise</p>
           <p>Employee exercises vested options by paying the strike price to convert options 
           into common shares.</p>
+          <p className="mt-1">Grants that allow early exercise can go beyond the vested amount. The 
+          unvested shares stay subject to repurchase until they vest, and an 83(b) election is due 
+          within 30 days.</p>
         </div>
       </div>
 
@@ -1522,7 +2705,1861 @@ function OptionExerciseForm({ data, onChange, people }: FormProps & { people: Pe
           />
         </div>
       </div>
-    </div>
-  );
-}
 
+      <div className="grid grid-cols-3 gap-4">
+        <div>
+          <label className="input-label">Payment</label>
+          <select
+            value={method}
+            onChange={(e) => setMethod(e.target.value as OptionExerciseMethod)}
+            className="select"
+          >
+            {(Object.keys(OPTION_EXERCISE_METHOD_LABELS) as OptionExerciseMethod[]).map(m => (
+              <option key={m} value={m}>{OPTION_EXERCISE_METHOD_LABELS[m]}</option>
+            ))}
+          </select>
+        </div>
+        {method !== 'cash' && (
+          <>
+            <div>
+              <label className="input-label">Fair Market Value</label>
+              <div className="relative">
+                <span className="absolute left-3 top-1/2 -translate-y-1/2 text-charcoal-400 text-sm">{currencySymbol}</span>
+                <input
+                  type="number"
+                  value={fairMarketValue}
+                  onChange={(e) => setFairMarketValue(e.target.value)}
+                  className="input pl-7"
+                  placeholder="2.50"
+                  step="0.0001"
+                />
+              </div>
+              <p className="input-help">Per share, at the exercise date</p>
+            </div>
+            <div>
+              <label className="input-label">Tax Withholding</label>
+              <div className="relative">
+                <input
+                  type="number"
+                  value={taxWithholdingPercent}
+                  onChange={(e) => setTaxWithholdingPercent(e.target.value)}
+                  className="input pr-8"
+                  placeholder="0"
+                />
+                <span className="absolute right-3 top-1/2 -translate-y-1/2 text-charcoal-400">%</span>
+              </div>
+              <p className="input-help">Of the spread over the strike price</p>
+            </div>
+          </>
+        )}
+      </div>
+      {method === 'cashless' && (
+        <div>
+          <label className="input-label">Buyer</label>
+          <input
+            type="text"
+            value={buyerName}
+            onChange={(e) => {
+              const name = e.target.value;
+              const existing = people.find(p => p.name === name && p.id !== employeeId);
+              setBuyerName(name);
+              setBuyerId(existing ? existing.id : uuidv4());
+            }}
+            className="input"
+            placeholder="Buyer name"
+            list="exercise-buyers"
+          />
+          <datalist id="exercise-buyers">
+            {people.filter(p => p.id !== employeeId && p.type !== 'esop_pool').map(p => (
+              <option key={p.id} value={p.name} />
+            ))}
+          </datalist>
+          <p className="input-help">Buys the shares sold to cover; pick an existing stakeholder or enter a new name</p>
+        </div>
+      )}
+      {method !== 'cash' && (
+        <p className="input-help">
+          {method === 'net'
+            ? 'Shares worth the strike and tax are withheld, rounded down; the holder pays any remainder in cash. Withheld shares follow the plan rule in company settings.'
+            : 'Whole shares are sold to cover the strike and tax; the excess proceeds go to the holder. The sold shares stay outstanding with the buyer.'}
+        </p>
+      )}
+    </div>
+  );
+}
+
+function SecondaryTransferForm({ data, onChange, people, capTableState, currencySymbol, currency }: FormProps & { people: Person[]; capTableState: CapTableState | null }) {
+  const [sellerId, setSellerId] = useState((data.sellerId as string) || '');
+  const [buyerId, setBuyerId] = useState((data.buyerId as string) || uuidv4());
+  const [buyerName, setBuyerName] = useState((data.buyerName as string) || '');
+  const [shareClassId, setShareClassId] = useState((data.shareClassId as string) || '');
+  const [shares, setShares] = useState((data.shares || '').toString());
+  const [pricePerShare, setPricePerShare] = useState((data.pricePerShare || '').toString());
+
+  const issuedClasses = (capTableState?.shareClasses || []).filter(sc => sc.type !== 'option');
+  const holdings = (capTableState?.holdings || []).filter(h => !h.isOption);
+  const sellers = people.filter(p =>
+    p.id !== TREASURY_HOLDER_ID && holdings.some(h => h.holderId === p.id && parseInt(h.quantity, 10) > 0)
+  );
+  const sellerClasses = issuedClasses.filter(sc =>
+    holdings.some(h => h.holderId === sellerId && h.shareClassId === sc.id)
+  );
+  const sellerShares = holdings
+    .filter(h => h.holderId === sellerId && h.shareClassId === shareClassId)
+    .reduce((sum, h) => sum + parseInt(h.quantity, 10), 0);
+
+  useEffect(() => {
+    onChange({
+      sellerId,
+      buyerId,
+      buyerName,
+      shareClassId,
+      shares: parseInt(shares, 10) || 0,
+      pricePerShare
+    });
+  }, [sellerId, buyerId, buyerName, shareClassId, shares, pricePerShare]);
+
+  const consideration = (parseInt(shares, 10) || 0) * (parseFloat(pricePerShare) || 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="p-4 bg-indigo-50 rounded-sm border border-indigo-100 flex gap-3">
+        <Info className="w-5 h-5 text-indigo-600 flex-shrink-0 mt-0.5" />
+        <div className="text-sm text-indigo-800">
+          <p className="font-medium mb-1">Secondary Transfer</p>
+          <p>An existing shareholder sells shares directly to a buyer. No new shares are issued, 
+          so the total share count is unchanged.</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="input-label">Seller</label>
+          <select
+            value={sellerId}
+            onChange={(e) => {
+              setSellerId(e.target.value);
+              setShareClassId('');
+            }}
+            className="select"
+          >
+            <option value="">Select seller...</option>
+            {sellers.map(p => (
+              <option key={p.id} value={p.id}>{p.name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="input-label">Share Class</label>
+          <select
+            value={shareClassId}
+            onChange={(e) => setShareClassId(e.target.value)}
+            className="select"
+            disabled={!sellerId}
+          >
+            <option value="">Select class...</option>
+            {sellerClasses.map(sc => (
+              <option key={sc.id} value={sc.id}>{sc.name}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div>
+        <label className="input-label">Buyer</label>
+        <input
+          type="text"
+          value={buyerName}
+          onChange={(e) => {
+            const name = e.target.value;
+            const existing = people.find(p => p.name === name && p.id !== sellerId && p.id !== TREASURY_HOLDER_ID);
+            setBuyerName(name);
+            setBuyerId(existing ? existing.id : uuidv4());
+          }}
+          className="input"
+          placeholder="Buyer name"
+          list="transfer-buyers"
+        />
+        <datalist id="transfer-buyers">
+          {people.filter(p => p.id !== sellerId && p.id !== TREASURY_HOLDER_ID && p.type !== 'esop_pool').map(p => (
+            <option key={p.id} value={p.name} />
+          ))}
+        </datalist>
+        <p className="input-help">Pick an existing stakeholder or enter a new name</p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="input-label">Shares</label>
+          <input
+            type="number"
+            value={shares}
+            onChange={(e) => setShares(e.target.value)}
+            className="input"
+            placeholder="10,000"
+          />
+          {shareClassId && (
+            <p className={`input-help ${(parseInt(shares, 10) || 0) > sellerShares ? 'text-red-600' : ''}`}>
+              Seller holds {sellerShares.toLocaleString()} shares of this class
+            </p>
+          )}
+        </div>
+        <div>
+          <label className="input-label">Price per Share</label>
+          <div className="relative">
+            <span className="absolute left-3 top-1/2 -translate-y-1/2 text-charcoal-400 text-sm">{currencySymbol}</span>
+            <input
+              type="number"
+              value={pricePerShare}
+              onChange={(e) => setPricePerShare(e.target.value)}
+              className="input pl-7"
+              placeholder="1.00"
+              step="0.0001"
+            />
+          </div>
+          <p className="input-help">
+            Total consideration: {new Intl.NumberFormat('en-US', {
+              style: 'currency',
+              currency: currency,
+              minimumFractionDigits: 0,
+              maximumFractionDigits: 0,
+            }).format(consideration)}
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function ShareRepurchaseForm({ data, onChange, people, capTableState, currencySymbol, currency }: FormProps & { people: Person[]; capTableState: CapTableState | null }) {
+  const [holderId, setHolderId] = useState((data.holderId as string) || '');
+  const [shareClassId, setShareClassId] = useState((data.shareClassId as string) || '');
+  const [shares, setShares] = useState((data.shares || '').toString());
+  const [pricePerShare, setPricePerShare] = useState((data.pricePerShare || '').toString());
+  const [disposition, setDisposition] = useState<'cancel' | 'treasury'>(
+    (data.disposition as 'cancel' | 'treasury') || 'cancel'
+  );
+
+  const issuedClasses = (capTableState?.shareClasses || []).filter(sc => sc.type !== 'option');
+  const holdings = (capTableState?.holdings || []).filter(h => !h.isOption);
+  const holders = people.filter(p =>
+    p.type !== 'treasury' && holdings.some(h => h.holderId === p.id && parseInt(h.quantity, 10) > 0)
+  );
+  const holderClasses = issuedClasses.filter(sc =>
+    holdings.some(h => h.holderId === holderId && h.shareClassId === sc.id)
+  );
+  const heldShares = holdings
+    .filter(h => h.holderId === holderId && h.shareClassId === shareClassId)
+    .reduce((sum, h) => sum + parseInt(h.quantity, 10), 0);
+
+  useEffect(() => {
+    onChange({
+      holderId,
+      shareClassId,
+      shares: parseInt(shares, 10) || 0,
+      pricePerShare,
+      disposition
+    });
+  }, [holderId, shareClassId, shares, pricePerShare, disposition]);
+
+  const repurchaseAmount = (parseInt(shares, 10) || 0) * (parseFloat(pricePerShare) || 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="p-4 bg-rose-50 rounded-sm border border-rose-100 flex gap-3">
+        <Info className="w-5 h-5 text-rose-600 flex-shrink-0 mt-0.5" />
+        <div className="text-sm text-rose-800">
+          <p className="font-medium mb-1">Share Repurchase</p>
+          <p>The company buys back shares from a holder, typically a leaver. Repurchased shares 
+          are either cancelled or held in treasury, where they carry no ownership or exit proceeds.</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="input-label">Holder</label>
+          <select
+            value={holderId}
+            onChange={(e) => {
+              setHolderId(e.target.value);
+              setShareClassId('');
+            }}
+            className="select"
+          >
+            <option value="">Select holder...</option>
+            {holders.map(p => (
+              <option key={p.id} value={p.id}>{p.name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="input-label">Share Class</label>
+          <select
+            value={shareClassId}
+            onChange={(e) => setShareClassId(e.target.value)}
+            className="select"
+            disabled={!holderId}
+          >
+            <option value="">Select class...</option>
+            {holderClasses.map(sc => (
+              <option key={sc.id} value={sc.id}>{sc.name}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="input-label">Shares</label>
+          <input
+            type="number"
+            value={shares}
+            onChange={(e) => setShares(e.target.value)}
+            className="input"
+            placeholder="10,000"
+          />
+          {shareClassId && (
+            <p className={`input-help ${(parseInt(shares, 10) || 0) > heldShares ? 'text-red-600' : ''}`}>
+              Holder has {heldShares.toLocaleString()} shares of this class
+            </p>
+          )}
+        </div>
+        <div>
+          <label className="input-label">Repurchase Price per Share</label>
+          <div className="relative">
+            <span className="absolute left-3 top-1/2 -translate-y-1/2 text-charcoal-400 text-sm">{currencySymbol}</span>
+            <input
+              type="number"
+              value={pricePerShare}
+              onChange={(e) => setPricePerShare(e.target.value)}
+              className="input pl-7"
+              placeholder="0.0001"
+              step="0.0001"
+            />
+          </div>
+          <p className="input-help">
+            Total paid: {new Intl.NumberFormat('en-US', {
+              style: 'currency',
+              currency: currency,
+              minimumFractionDigits: 0,
+              maximumFractionDigits: 0,
+            }).format(repurchaseAmount)}
+          </p>
+        </div>
+      </div>
+
+      <div>
+        <label className="input-label">Repurchased Shares</label>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => setDisposition('cancel')}
+            className={`text-xs px-3 py-1.5 rounded-sm ${
+              disposition === 'cancel' 
+                ? 'bg-charcoal-900 text-white' 
+                : 'bg-charcoal-100 text-charcoal-600'
+            }`}
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => setDisposition('treasury')}
+            className={`text-xs px-3 py-1.5 rounded-sm ${
+              disposition === 'treasury' 
+                ? 'bg-charcoal-900 text-white' 
+                : 'bg-charcoal-100 text-charcoal-600'
+            }`}
+          >
+            Hold in Treasury
+          </button>
+        </div>
+        <p className="input-help">
+          {disposition === 'cancel'
+            ? 'Shares are retired and the issued share count goes down'
+            : 'Shares stay issued but are held by the company and excluded from ownership'}
+        </p>
+      </div>
+    </div>
+  );
+}
+
+function EmployeeTerminationForm({ data, onChange, people, capTableState }: FormProps & { people: Person[]; capTableState: CapTableState | null }) {
+  const [employeeId, setEmployeeId] = useState((data.employeeId as string) || '');
+  const [exerciseWindowDays, setExerciseWindowDays] = useState((data.exerciseWindowDays || '90').toString());
+
+  const activeGrants = (capTableState?.holdings || []).filter(
+    h => h.isOption && !h.isWarrant && h.holderId !== ESOP_POOL_HOLDER_ID && !h.terminationDate
+  );
+  const grantees = people.filter(p => activeGrants.some(h => h.holderId === p.id));
+  const outstandingOptions = activeGrants
+    .filter(h => h.holderId === employeeId)
+    .reduce((sum, h) => sum + parseInt(h.quantity, 10), 0);
+
+  useEffect(() => {
+    onChange({
+      employeeId,
+      exerciseWindowDays: parseInt(exerciseWindowDays, 10) || 0
+    });
+  }, [employeeId, exerciseWindowDays]);
+
+  return (
+    <div className="space-y-6">
+      <div className="p-4 bg-orange-50 rounded-sm border border-orange-100 flex gap-3">
+        <Info className="w-5 h-5 text-orange-600 flex-shrink-0 mt-0.5" />
+        <div className="text-sm text-orange-800">
+          <p className="font-medium mb-1">Employee Termination</p>
+          <p>Unvested options are cancelled and returned to the ESOP pool on the termination date. 
+          Vested options can be exercised during the post-termination window, after which they 
+          expire and also return to the pool.</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="input-label">Employee</label>
+          <select
+            value={employeeId}
+            onChange={(e) => setEmployeeId(e.target.value)}
+            className="select"
+          >
+            <option value="">Select employee...</option>
+            {grantees.map(p => (
+              <option key={p.id} value={p.id}>{p.name}</option>
+            ))}
+          </select>
+          {employeeId && (
+            <p className="input-help">
+              {outstandingOptions.toLocaleString()} options outstanding
+            </p>
+          )}
+        </div>
+        <div>
+          <label className="input-label">Post-Termination Exercise Window</label>
+          <div className="relative">
+            <input
+              type="number"
+              value={exerciseWindowDays}
+              onChange={(e) => setExerciseWindowDays(e.target.value)}
+              className="input pr-12"
+              placeholder="90"
+            />
+            <span className="absolute right-3 top-1/2 -translate-y-1/2 text-charcoal-400 text-xs">days</span>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function StockSplitForm({ data, onChange, currencySymbol }: FormProps) {
+  const [ratioTo, setRatioTo] = useState((data.ratioTo || '10').toString());
+  const [ratioFrom, setRatioFrom] = useState((data.ratioFrom || '1').toString());
+  const [roundingPolicy, setRoundingPolicy] = useState(
+    (data.roundingPolicy as string) || 'round_down'
+  );
+  const [cashInLieuPrice, setCashInLieuPrice] = useState((data.cashInLieuPrice || '').toString());
+
+  useEffect(() => {
+    onChange({
+      ratioTo: parseFloat(ratioTo) || 0,
+      ratioFrom: parseFloat(ratioFrom) || 0,
+      roundingPolicy,
+      ...(roundingPolicy === 'cash_out' && cashInLieuPrice && { cashInLieuPrice })
+    });
+  }, [ratioTo, ratioFrom, roundingPolicy, cashInLieuPrice]);
+
+  const isReverse = (parseFloat(ratioTo) || 0) < (parseFloat(ratioFrom) || 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="p-4 bg-cyan-50 rounded-sm border border-cyan-100 flex gap-3">
+        <Info className="w-5 h-5 text-cyan-600 flex-shrink-0 mt-0.5" />
+        <div className="text-sm text-cyan-800">
+          <p className="font-medium mb-1">Stock Split</p>
+          <p>Multiplies every holding in every class, including options and the ESOP pool. 
+          Share prices and option strike prices are adjusted so that values are unchanged.</p>
+        </div>
+      </div>
+
+      <div>
+        <label className="input-label">Split Ratio</label>
+        <div className="flex items-center gap-2">
+          <input
+            type="number"
+            value={ratioTo}
+            onChange={(e) => setRatioTo(e.target.value)}
+            className="input w-28"
+            placeholder="10"
+          />
+          <span className="text-sm text-charcoal-600">new shares for every</span>
+          <input
+            type="number"
+            value={ratioFrom}
+            onChange={(e) => setRatioFrom(e.target.value)}
+            className="input w-28"
+            placeholder="1"
+          />
+          <span className="text-sm text-charcoal-600">old shares</span>
+        </div>
+        <p className="input-help">
+          {isReverse ? 'Reverse split — share count goes down' : 'Forward split — share count goes up'}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="input-label">Fractional Shares</label>
+          <select
+            value={roundingPolicy}
+            onChange={(e) => setRoundingPolicy(e.target.value)}
+            className="select"
+          >
+            <option value="round_down">Round down</option>
+            <option value="round_up">Round up</option>
+            <option value="round_nearest">Round to nearest</option>
+            <option value="cash_out">Cash out fractions</option>
+          </select>
+          <p className="input-help">Applied per holding; options always round down</p>
+        </div>
+        {roundingPolicy === 'cash_out' && (
+          <div>
+            <label className="input-label">Cash-out Price per Share</label>
+            <div className="relative">
+              <span className="absolute left-3 top-1/2 -translate-y-1/2 text-charcoal-400 text-sm">{currencySymbol}</span>
+              <input
+                type="number"
+                value={cashInLieuPrice}
+                onChange={(e) => setCashInLieuPrice(e.target.value)}
+                className="input pl-7"
+                placeholder="1.00"
+                step="0.0001"
+              />
+            </div>
+            <p className="input-help">Post-split price; defaults to each class's share price</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function WarrantIssuanceForm({ data, onChange, people, capTableState, currencySymbol }: FormProps & { people: Person[]; capTableState: CapTableState | null }) {
+  const [holderId, setHolderId] = useState((data.holderId as string) || uuidv4());
+  const [holderName, setHolderName] = useState((data.holderName as string) || '');
+  const [shareClassId, setShareClassId] = useState((data.shareClassId as string) || '');
+  const [shares, setShares] = useState((data.shares || '').toString());
+  const [strikePrice, setStrikePrice] = useState((data.strikePrice || '').toString());
+  const [expiryDate, setExpiryDate] = useState((data.expiryDate as string) || '');
+
+  const issuedClasses = (capTableState?.shareClasses || []).filter(sc => sc.type !== 'option');
+
+  useEffect(() => {
+    onChange({
+      holderId,
+      holderName,
+      shareClassId,
+      shares: parseInt(shares, 10) || 0,
+      strikePrice,
+      expiryDate
+    });
+  }, [holderId, holderName, shareClassId, shares, strikePrice, expiryDate]);
+
+  return (
+    <div className="space-y-6">
+      <div className="p-4 bg-lime-50 rounded-sm border border-lime-100 flex gap-3">
+        <Info className="w-5 h-5 text-lime-600 flex-shrink-0 mt-0.5" />
+        <div className="text-sm text-lime-800">
+          <p className="font-medium mb-1">Warrant Issuance</p>
+          <p>A warrant gives the holder the right to buy shares of a class at a fixed strike price 
+          until it expires. Warrants count in the fully diluted cap table but are not issued shares.</p>
+        </div>
+      </div>
+
+      <div>
+        <label className="input-label">Holder</label>
+        <input
+          type="text"
+          value={holderName}
+          onChange={(e) => {
+            const name = e.target.value;
+            const existing = people.find(p => p.name === name);
+            setHolderName(name);
+            setHolderId(existing ? existing.id : uuidv4());
+          }}
+          className="input"
+          placeholder="Lender or investor name"
+          list="warrant-holders"
+        />
+        <datalist id="warrant-holders">
+          {people.filter(p => p.type !== 'esop_pool' && p.type !== 'treasury').map(p => (
+            <option key={p.id} value={p.name} />
+          ))}
+        </datalist>
+        <p className="input-help">Pick an existing stakeholder or enter a new name</p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="input-label">Share Class</label>
+          <select
+            value={shareClassId}
+            onChange={(e) => setShareClassId(e.target.value)}
+            className="select"
+          >
+            <option value="">Select class...</option>
+            {issuedClasses.map(sc => (
+              <option key={sc.id} value={sc.id}>{sc.name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="input-label">Number of Warrants</label>
+          <input
+            type="number"
+            value={shares}
+            onChange={(e) => setShares(e.target.value)}
+            className="input"
+            placeholder="10,000"
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="input-label">Strike Price</label>
+          <div className="relative">
+            <span className="absolute left-3 top-1/2 -translate-y-1/2 text-charcoal-400 text-sm">{currencySymbol}</span>
+            <input
+              type="number"
+              value={strikePrice}
+              onChange={(e) => setStrikePrice(e.target.value)}
+              className="input pl-7"
+              placeholder="1.00"
+              step="0.0001"
+            />
+          </div>
+        </div>
+        <div>
+          <label className="input-label">Expiry Date</label>
+          <input
+            type="date"
+            value={expiryDate}
+            onChange={(e) => setExpiryDate(e.target.value)}
+            className="input"
+          />
+          <p className="input-help">Unexercised warrants lapse after this date</p>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function WarrantExerciseForm({ data, onChange, people, capTableState, currency }: FormProps & { people: Person[]; capTableState: CapTableState | null }) {
+  const [holderId, setHolderId] = useState((data.holderId as string) || '');
+  const [shareClassId, setShareClassId] = useState((data.shareClassId as string) || '');
+  const [shares, setShares] = useState((data.shares || '').toString());
+
+  const warrants = (capTableState?.holdings || []).filter(h => h.isWarrant && parseInt(h.quantity, 10) > 0);
+  const holders = people.filter(p => warrants.some(w => w.holderId === p.id));
+  const holderClasses = (capTableState?.shareClasses || []).filter(sc =>
+    warrants.some(w => w.holderId === holderId && w.shareClassId === sc.id)
+  );
+  const selectedWarrants = warrants.filter(w => w.holderId === holderId && w.shareClassId === shareClassId);
+  const outstanding = selectedWarrants.reduce((sum, w) => sum + parseInt(w.quantity, 10), 0);
+  const strikePrice = selectedWarrants.length > 0 ? parseFloat(selectedWarrants[0].strikePrice || '0') : 0;
+
+  useEffect(() => {
+    onChange({
+      holderId,
+      shareClassId,
+      shares: parseInt(shares, 10) || 0
+    });
+  }, [holderId, shareClassId, shares]);
+
+  return (
+    <div className="space-y-6">
+      <div className="p-4 bg-lime-50 rounded-sm border border-lime-100 flex gap-3">
+        <Info className="w-5 h-5 text-lime-600 flex-shrink-0 mt-0.5" />
+        <div className="text-sm text-lime-800">
+          <p className="font-medium mb-1">Warrant Exercise</p>
+          <p>The holder pays the strike price and receives issued shares of the warrant's share class. 
+          Expired warrants cannot be exercised.</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="input-label">Holder</label>
+          <select
+            value={holderId}
+            onChange={(e) => {
+              setHolderId(e.target.value);
+              setShareClassId('');
+            }}
+            className="select"
+          >
+            <option value="">Select holder...</option>
+            {holders.map(p => (
+              <option key={p.id} value={p.id}>{p.name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="input-label">Share Class</label>
+          <select
+            value={shareClassId}
+            onChange={(e) => setShareClassId(e.target.value)}
+            className="select"
+            disabled={!holderId}
+          >
+            <option value="">Select class...</option>
+            {holderClasses.map(sc => (
+              <option key={sc.id} value={sc.id}>{sc.name}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div>
+        <label className="input-label">Warrants to Exercise</label>
+        <input
+          type="number"
+          value={shares}
+          onChange={(e) => setShares(e.target.value)}
+          className="input"
+          placeholder="10,000"
+        />
+        {shareClassId && (
+          <p className={`input-help ${(parseInt(shares, 10) || 0) > outstanding ? 'text-red-600' : ''}`}>
+            {outstanding.toLocaleString()} warrants outstanding. Exercise cost: {new Intl.NumberFormat('en-US', {
+              style: 'currency',
+              currency: currency,
+              minimumFractionDigits: 0,
+              maximumFractionDigits: 0,
+            }).format((parseInt(shares, 10) || 0) * strikePrice)}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function RestrictedStockAwardForm({ data, onChange, people, currencySymbol }: FormProps & { people: Person[] }) {
+  const schedule = data.vestingSchedule as Omit<VestingSchedule, 'id'> | undefined;
+  const [holderId, setHolderId] = useState((data.holderId as string) || uuidv4());
+  const [holderName, setHolderName] = useState((data.holderName as string) || '');
+  const [holderType, setHolderType] = useState<PersonType>((data.holderType as PersonType) || 'founder');
+  const [shares, setShares] = useState((data.shares || '').toString());
+  const [purchasePrice, setPurchasePrice] = useState((data.purchasePrice || '').toString());
+  const [vestingStartDate, setVestingStartDate] = useState((data.vestingStartDate as string) || '');
+  const [vesting, setVesting] = useState(() => vestingFieldsFromSchedule(schedule));
+
+  useEffect(() => {
+    onChange({
+      holderId,
+      holderName,
+      holderType,
+      shares: parseInt(shares, 10) || 0,
+      purchasePrice,
+      vestingStartDate: vestingStartDate || undefined,
+      vestingSchedule: buildVestingSchedule(vesting)
+    });
+  }, [holderId, holderName, holderType, shares, purchasePrice, vestingStartDate, vesting]);
+
+  return (
+    <div className="space-y-6">
+      <div className="p-4 bg-violet-50 rounded-sm border border-violet-100 flex gap-3">
+        <Info className="w-5 h-5 text-violet-600 flex-shrink-0 mt-0.5" />
+        <div className="text-sm text-violet-800">
+          <p className="font-medium mb-1">Restricted Stock Award</p>
+          <p>Issues common shares up front, subject to reverse vesting. If the holder leaves, 
+          the company can buy back the unvested shares at the original purchase price.</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="input-label">Recipient</label>
+          <input
+            type="text"
+            value={holderName}
+            onChange={(e) => {
+              const name = e.target.value;
+              const existing = people.find(p => p.name === name);
+              setHolderName(name);
+              setHolderId(existing ? existing.id : uuidv4());
+              if (existing) setHolderType(existing.type);
+            }}
+            className="input"
+            placeholder="Recipient name"
+            list="restricted-stock-holders"
+          />
+          <datalist id="restricted-stock-holders">
+            {people.filter(p => p.type !== 'esop_pool' && p.type !== 'treasury').map(p => (
+              <option key={p.id} value={p.name} />
+            ))}
+          </datalist>
+        </div>
+        <div>
+          <label className="input-label">Recipient Type</label>
+          <select
+            value={holderType}
+            onChange={(e) => setHolderType(e.target.value as PersonType)}
+            className="select"
+          >
+            <option value="founder">Founder</option>
+            <option value="employee">Employee</option>
+            <option value="advisor">Advisor</option>
+          </select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        <div>
+          <label className="input-label">Shares</label>
+          <input
+            type="number"
+            value={shares}
+            onChange={(e) => setShares(e.target.value)}
+            className="input"
+            placeholder="1,000,000"
+          />
+        </div>
+        <div>
+          <label className="input-label">Purchase Price</label>
+          <div className="relative">
+            <span className="absolute left-3 top-1/2 -translate-y-1/2 text-charcoal-400 text-sm">{currencySymbol}</span>
+            <input
+              type="number"
+              value={purchasePrice}
+              onChange={(e) => setPurchasePrice(e.target.value)}
+              className="input pl-7"
+              placeholder="0.0001"
+              step="0.0001"
+            />
+          </div>
+        </div>
+        <div>
+          <label className="input-label">Vesting Start Date</label>
+          <input
+            type="date"
+            value={vestingStartDate}
+            onChange={(e) => setVestingStartDate(e.target.value)}
+            className="input"
+          />
+        </div>
+      </div>
+
+      <VestingScheduleFields value={vesting} onChange={setVesting} />
+    </div>
+  );
+}
+
+function FounderDepartureForm({ data, onChange, people, capTableState }: FormProps & { people: Person[]; capTableState: CapTableState | null }) {
+  const [founderId, setFounderId] = useState((data.founderId as string) || '');
+  const [repurchaseUnvested, setRepurchaseUnvested] = useState(data.repurchaseUnvested !== false);
+
+  const restrictedHoldings = (capTableState?.holdings || []).filter(
+    h => !h.isOption && h.vestingScheduleId && !h.terminationDate
+  );
+  const holders = people.filter(p => restrictedHoldings.some(h => h.holderId === p.id));
+  const restrictedShares = restrictedHoldings
+    .filter(h => h.holderId === founderId)
+    .reduce((sum, h) => sum + parseInt(h.quantity, 10), 0);
+
+  useEffect(() => {
+    onChange({
+      founderId,
+      repurchaseUnvested
+    });
+  }, [founderId, repurchaseUnvested]);
+
+  return (
+    <div className="space-y-6">
+      <div className="p-4 bg-violet-50 rounded-sm border border-violet-100 flex gap-3">
+        <Info className="w-5 h-5 text-violet-600 flex-shrink-0 mt-0.5" />
+        <div className="text-sm text-violet-800">
+          <p className="font-medium mb-1">Founder Departure</p>
+          <p>Vesting stops on the departure date. The company can repurchase the unvested shares 
+          at the original purchase price and cancel them, or waive its right and let the holder keep them.</p>
+        </div>
+      </div>
+
+      <div>
+        <label className="input-label">Departing Holder</label>
+        <select
+          value={founderId}
+          onChange={(e) => setFounderId(e.target.value)}
+          className="select"
+        >
+          <option value="">Select holder...</option>
+          {holders.map(p => (
+            <option key={p.id} value={p.id}>{p.name}</option>
+          ))}
+        </select>
+        {founderId && (
+          <p className="input-help">
+            {restrictedShares.toLocaleString()} shares subject to vesting
+          </p>
+        )}
+      </div>
+
+      <div>
+        <label className="input-label">Unvested Shares</label>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => setRepurchaseUnvested(true)}
+            className={`text-xs px-3 py-1.5 rounded-sm ${
+              repurchaseUnvested
+                ? 'bg-charcoal-900 text-white'
+                : 'bg-charcoal-100 text-charcoal-600'
+            }`}
+          >
+            Repurchase at Original Price
+          </button>
+          <button
+            type="button"
+            onClick={() => setRepurchaseUnvested(false)}
+            className={`text-xs px-3 py-1.5 rounded-sm ${
+              !repurchaseUnvested
+                ? 'bg-charcoal-900 text-white'
+                : 'bg-charcoal-100 text-charcoal-600'
+            }`}
+          >
+            Waive Repurchase Right
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function RSUGrantForm({ data, onChange, people }: FormProps & { people: Person[] }) {
+  const schedule = data.vestingSchedule as Omit<VestingSchedule, 'id'> | undefined;
+  const [employeeId, setEmployeeId] = useState((data.employeeId as string) || uuidv4());
+  const [employeeName, setEmployeeName] = useState((data.employeeName as string) || '');
+  const [shares, setShares] = useState((data.shares || '').toString());
+  const [vestingStartDate, setVestingStartDate] = useState((data.vestingStartDate as string) || '');
+  const [requiresLiquidityEvent, setRequiresLiquidityEvent] = useState(!!data.requiresLiquidityEvent);
+  const [vesting, setVesting] = useState(() => vestingFieldsFromSchedule(schedule));
+
+  const employees = people.filter(p => p.type === 'employee' || p.type === 'advisor');
+
+  useEffect(() => {
+    onChange({
+      employeeId,
+      employeeName,
+      shares: parseInt(shares, 10) || 0,
+      vestingStartDate: vestingStartDate || undefined,
+      requiresLiquidityEvent,
+      vestingSchedule: buildVestingSchedule(vesting)
+    });
+  }, [employeeId, employeeName, shares, vestingStartDate, requiresLiquidityEvent, vesting]);
+
+  return (
+    <div className="space-y-6">
+      <div className="p-4 bg-fuchsia-50 rounded-sm border border-fuchsia-100 flex gap-3">
+        <Info className="w-5 h-5 text-fuchsia-600 flex-shrink-0 mt-0.5" />
+        <div className="text-sm text-fuchsia-800">
+          <p className="font-medium mb-1">RSU Grant</p>
+          <p>Restricted stock units come out of the equity pool and convert into common shares at 
+          settlement, with no strike price to pay. Double-trigger RSUs also need a liquidity event 
+          before they can settle.</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="input-label">Employee/Grantee</label>
+          <input
+            type="text"
+            value={employeeName}
+            onChange={(e) => {
+              const name = e.target.value;
+              const existing = employees.find(p => p.name === name);
+              setEmployeeName(name);
+              setEmployeeId(existing ? existing.id : uuidv4());
+            }}
+            className="input"
+            placeholder="Employee name"
+            list="rsu-employees"
+          />
+          <datalist id="rsu-employees">
+            {employees.map(p => (
+              <option key={p.id} value={p.name} />
+            ))}
+          </datalist>
+        </div>
+        <div>
+          <label className="input-label">Number of RSUs</label>
+          <input
+            type="number"
+            value={shares}
+            onChange={(e) => setShares(e.target.value)}
+            className="input"
+            placeholder="10,000"
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className="input-label">Vesting Start Date</label>
+        <input
+          type="date"
+          value={vestingStartDate}
+          onChange={(e) => setVestingStartDate(e.target.value)}
+          className="input"
+        />
+      </div>
+
+      <VestingScheduleFields value={vesting} onChange={setVesting} />
+
+      <label className="flex items-center gap-2 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={requiresLiquidityEvent}
+          onChange={(e) => setRequiresLiquidityEvent(e.target.checked)}
+          className="rounded border-charcoal-300"
+        />
+        <span className="text-sm text-charcoal-700">Settlement requires a liquidity event (double trigger)</span>
+      </label>
+    </div>
+  );
+}
+
+function RSUSettlementForm({ data, onChange, people, capTableState }: FormProps & { people: Person[]; capTableState: CapTableState | null }) {
+  const [employeeId, setEmployeeId] = useState((data.employeeId as string) || '');
+  const [shares, setShares] = useState((data.shares || '').toString());
+  const [liquidityEvent, setLiquidityEvent] = useState(!!data.liquidityEvent);
+
+  const rsuHoldings = (capTableState?.holdings || []).filter(h => h.isRSU && parseInt(h.quantity, 10) > 0);
+  const holders = people.filter(p => rsuHoldings.some(h => h.holderId === p.id));
+  const outstanding = rsuHoldings
+    .filter(h => h.holderId === employeeId)
+    .reduce((sum, h) => sum + parseInt(h.quantity, 10), 0);
+
+  useEffect(() => {
+    onChange({
+      employeeId,
+      shares: parseInt(shares, 10) || 0,
+      liquidityEvent
+    });
+  }, [employeeId, shares, liquidityEvent]);
+
+  return (
+    <div className="space-y-6">
+      <div className="p-4 bg-fuchsia-50 rounded-sm border border-fuchsia-100 flex gap-3">
+        <Info className="w-5 h-5 text-fuchsia-600 flex-shrink-0 mt-0.5" />
+        <div className="text-sm text-fuchsia-800">
+          <p className="font-medium mb-1">RSU Settlement</p>
+          <p>Vested RSUs are delivered as common shares. Only units vested by the settlement date 
+          can settle.</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="input-label">Employee</label>
+          <select
+            value={employeeId}
+            onChange={(e) => setEmployeeId(e.target.value)}
+            className="select"
+          >
+            <option value="">Select employee...</option>
+            {holders.map(p => (
+              <option key={p.id} value={p.id}>{p.name}</option>
+            ))}
+          </select>
+          {employeeId && (
+            <p className="input-help">{outstanding.toLocaleString()} RSUs outstanding</p>
+          )}
+        </div>
+        <div>
+          <label className="input-label">RSUs to Settle</label>
+          <input
+            type="number"
+            value={shares}
+            onChange={(e) => setShares(e.target.value)}
+            className="input"
+            placeholder="10,000"
+          />
+        </div>
+      </div>
+
+      <label className="flex items-center gap-2 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={liquidityEvent}
+          onChange={(e) => setLiquidityEvent(e.target.checked)}
+          className="rounded border-charcoal-300"
+        />
+        <span className="text-sm text-charcoal-700">Settlement follows a liquidity event (IPO or acquisition)</span>
+      </label>
+    </div>
+  );
+}
+
+function ShareClassConversionForm({ data, onChange, people, capTableState }: FormProps & { people: Person[]; capTableState: CapTableState | null }) {
+  const [scope, setScope] = useState<ConversionScope>((data.scope as ConversionScope) || 'holder');
+  const [shareClassId, setShareClassId] = useState((data.shareClassId as string) || '');
+  const [holderId, setHolderId] = useState((data.holderId as string) || '');
+  const [shares, setShares] = useState((data.shares || '').toString());
+
+  const preferredClasses = (capTableState?.shareClasses || []).filter(sc => sc.type === 'preferred');
+  const classHoldings = (capTableState?.holdings || []).filter(h => h.shareClassId === shareClassId && !h.isOption);
+  const holders = people.filter(p => classHoldings.some(h => h.holderId === p.id));
+  const heldShares = classHoldings
+    .filter(h => h.holderId === holderId)
+    .reduce((sum, h) => sum + parseInt(h.quantity, 10), 0);
+
+  const selectedClass = preferredClasses.find(sc => sc.id === shareClassId);
+  const conversionRatio = selectedClass?.conversionPrice && selectedClass.pricePerShare
+    ? parseFloat(selectedClass.pricePerShare) / parseFloat(selectedClass.conversionPrice)
+    : 1;
+
+  useEffect(() => {
+    onChange({
+      scope,
+      ...(scope !== 'all_preferred' && { shareClassId }),
+      ...(scope === 'holder' && {
+        holderId,
+        ...(shares && { shares: parseInt(shares, 10) || 0 })
+      })
+    });
+  }, [scope, shareClassId, holderId, shares]);
+
+  const scopes: { value: ConversionScope; label: string }[] = [
+    { value: 'holder', label: 'Single Holder' },
+    { value: 'class', label: 'Entire Class' },
+    { value: 'all_preferred', label: 'All Preferred (Mandatory)' },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="p-4 bg-sky-50 rounded-sm border border-sky-100 flex gap-3">
+        <Info className="w-5 h-5 text-sky-600 flex-shrink-0 mt-0.5" />
+        <div className="text-sm text-sky-800">
+          <p className="font-medium mb-1">Preferred Conversion</p>
+          <p>Converts preferred shares into common at the class conversion ratio. Converted holders 
+          give up their liquidation preference; the original investment amount is kept for reporting. 
+          Use a mandatory conversion for events such as an IPO.</p>
+        </div>
+      </div>
+
+      <div>
+        <label className="input-label">Conversion Scope</label>
+        <div className="flex gap-2">
+          {scopes.map(option => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => setScope(option.value)}
+              className={`text-xs px-3 py-1.5 rounded-sm ${
+                scope === option.value
+                  ? 'bg-charcoal-900 text-white'
+                  : 'bg-charcoal-100 text-charcoal-600'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {scope !== 'all_preferred' && (
+        <div>
+          <label className="input-label">Share Class</label>
+          <select
+            value={shareClassId}
+            onChange={(e) => {
+              setShareClassId(e.target.value);
+              setHolderId('');
+            }}
+            className="select"
+          >
+            <option value="">Select class...</option>
+            {preferredClasses.map(sc => (
+              <option key={sc.id} value={sc.id}>{sc.name}</option>
+            ))}
+          </select>
+          {selectedClass && (
+            <p className="input-help">
+              Each share converts into {conversionRatio.toFixed(4)} common shares
+            </p>
+          )}
+        </div>
+      )}
+
+      {scope === 'holder' && (
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="input-label">Holder</label>
+            <select
+              value={holderId}
+              onChange={(e) => setHolderId(e.target.value)}
+              className="select"
+              disabled={!shareClassId}
+            >
+              <option value="">Select holder...</option>
+              {holders.map(p => (
+                <option key={p.id} value={p.id}>{p.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="input-label">Shares to Convert</label>
+            <input
+              type="number"
+              value={shares}
+              onChange={(e) => setShares(e.target.value)}
+              className="input"
+              placeholder={heldShares ? heldShares.toLocaleString() : 'All'}
+            />
+            {holderId && (
+              <p className={`input-help ${(parseInt(shares, 10) || 0) > heldShares ? 'text-red-600' : ''}`}>
+                Holds {heldShares.toLocaleString()} shares. Leave blank to convert all.
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function RoundClosingForm({ data, onChange, rounds, capTableState, currencySymbol, currency }: FormProps & { rounds: EventBase[]; capTableState: CapTableState | null }) {
+  const [roundEventId, setRoundEventId] = useState((data.roundEventId as string) || rounds[rounds.length - 1]?.id || '');
+  const [investors, setInvestors] = useState<Array<{ personId: string; name: string; amount: string }>>(
+    (data.investors as Array<{ personId: string; name: string; amount: string }>) || [
+      { personId: uuidv4(), name: '', amount: '' }
+    ]
+  );
+
+  const round = capTableState?.derivedOutputs[roundEventId]?.pricedRound;
+  const shareClass = capTableState?.shareClasses.find(sc => sc.id === round?.shareClassId);
+  const totalInvestment = investors.reduce((sum, i) => sum + (parseFloat(i.amount) || 0), 0);
+
+  useEffect(() => {
+    onChange({
+      roundEventId,
+      investors
+    });
+  }, [roundEventId, investors]);
+
+  const updateInvestor = (index: number, field: string, value: string) => {
+    const updated = [...investors];
+    updated[index] = { ...updated[index], [field]: value };
+    setInvestors(updated);
+  };
+
+  const formatMoney = (amount: number, decimals = 0) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: currency,
+      minimumFractionDigits: decimals,
+      maximumFractionDigits: decimals,
+    }).format(amount);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="p-4 bg-emerald-50 rounded-sm border border-emerald-100 flex gap-3">
+        <Info className="w-5 h-5 text-emerald-600 flex-shrink-0 mt-0.5" />
+        <div className="text-sm text-emerald-800">
+          <p className="font-medium mb-1">Round Closing</p>
+          <p>Adds investors to an earlier priced round at the same price and share class. SAFE 
+          conversions and the ESOP top-up were handled at the first closing and are not repeated.</p>
+        </div>
+      </div>
+
+      <div>
+        <label className="input-label">Priced Round</label>
+        <select
+          value={roundEventId}
+          onChange={(e) => setRoundEventId(e.target.value)}
+          className="select"
+        >
+          <option value="">Select round...</option>
+          {rounds.map(r => (
+            <option key={r.id} value={r.id}>{r.label} ({new Date(r.date).toLocaleDateString()})</option>
+          ))}
+        </select>
+        {round && (
+          <p className="input-help">
+            {shareClass?.name || 'Preferred'} at {formatMoney(parseFloat(shareClass?.pricePerShare || round.pricePerShare), 4)} per share
+          </p>
+        )}
+      </div>
+
+      <div>
+        <label className="input-label">Investors</label>
+        <div className="space-y-2">
+          {investors.map((investor, index) => (
+            <div key={investor.personId} className="flex gap-2">
+              <input
+                type="text"
+                value={investor.name}
+                onChange={(e) => updateInvestor(index, 'name', e.target.value)}
+                className="input flex-1"
+                placeholder="Investor name"
+              />
+              <div className="relative w-40">
+                <span className="absolute left-3 top-1/2 -translate-y-1/2 text-charcoal-400 text-sm">{currencySymbol}</span>
+                <input
+                  type="number"
+                  value={investor.amount}
+                  onChange={(e) => updateInvestor(index, 'amount', e.target.value)}
+                  className="input pl-7"
+                  placeholder="1,000,000"
+                />
+              </div>
+              <button
+                type="button"
+                onClick={() => investors.length > 1 && setInvestors(investors.filter((_, i) => i !== index))}
+                className="btn-ghost p-2 text-charcoal-400 hover:text-red-600"
+                disabled={investors.length === 1}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+        <div className="flex items-center justify-between mt-2">
+          <button
+            type="button"
+            onClick={() => setInvestors([...investors, { personId: uuidv4(), name: '', amount: '' }])}
+            className="text-sm text-charcoal-600 hover:text-charcoal-900 flex items-center gap-1"
+          >
+            <Plus className="w-4 h-4" />
+            Add Investor
+          </button>
+          <span className="text-sm font-mono text-charcoal-600">
+            Total: {formatMoney(totalInvestment)}
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function TrancheReleaseForm({ data, onChange, capTableState, currency }: FormProps & { capTableState: CapTableState | null }) {
+  const [trancheIds, setTrancheIds] = useState<string[]>((data.trancheIds as string[]) || []);
+  const [notes, setNotes] = useState((data.notes as string) || '');
+
+  // Tranches already released by this event stay selectable when editing it
+  const tranches = (capTableState?.tranches || []).filter(
+    t => !t.releasedInEventId || trancheIds.includes(t.id)
+  );
+
+  useEffect(() => {
+    onChange({
+      trancheIds,
+      ...(notes && { notes })
+    });
+  }, [trancheIds, notes]);
+
+  const toggleTranche = (id: string) => {
+    setTrancheIds(trancheIds.includes(id) ? trancheIds.filter(t => t !== id) : [...trancheIds, id]);
+  };
+
+  const formatMoney = (amount: number, decimals = 0) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: currency,
+      minimumFractionDigits: decimals,
+      maximumFractionDigits: decimals,
+    }).format(amount);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="p-4 bg-emerald-50 rounded-sm border border-emerald-100 flex gap-3">
+        <Info className="w-5 h-5 text-emerald-600 flex-shrink-0 mt-0.5" />
+        <div className="text-sm text-emerald-800">
+          <p className="font-medium mb-1">Tranche Release</p>
+          <p>Marks milestones as met. The committed investment is paid in and shares are issued 
+          at the price fixed in the original round.</p>
+        </div>
+      </div>
+
+      <div>
+        <label className="input-label">Committed Tranches</label>
+        {tranches.length === 0 ? (
+          <p className="text-sm text-charcoal-500">No committed tranches are waiting to be released.</p>
+        ) : (
+          <div className="space-y-2">
+            {tranches.map(tranche => (
+              <label
+                key={tranche.id}
+                className="flex items-center gap-3 p-3 border border-charcoal-200 rounded-sm cursor-pointer hover:bg-charcoal-50"
+              >
+                <input
+                  type="checkbox"
+                  checked={trancheIds.includes(tranche.id)}
+                  onChange={() => toggleTranche(tranche.id)}
+                  className="rounded border-charcoal-300"
+                />
+                <div className="flex-1 text-sm">
+                  <div className="font-medium text-charcoal-900">{tranche.milestone || 'Unnamed milestone'}</div>
+                  <div className="text-charcoal-500">{tranche.investorName || 'Unknown'}</div>
+                </div>
+                <div className="text-right text-sm font-mono">
+                  <div>{formatMoney(parseFloat(tranche.amount))}</div>
+                  <div className="text-xs text-charcoal-500">
+                    {Math.round(parseFloat(tranche.amount) / parseFloat(tranche.pricePerShare)).toLocaleString()} shares at {formatMoney(parseFloat(tranche.pricePerShare), 4)}
+                  </div>
+                </div>
+              </label>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div>
+        <label className="input-label">Notes</label>
+        <input
+          type="text"
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          className="input"
+          placeholder="Milestone evidence, board approval, etc."
+        />
+      </div>
+    </div>
+  );
+}
+
+function SAFECancellationForm({ data, onChange, safes, capTableState, currencySymbol, currency }: FormProps & { safes: SAFE[]; capTableState: CapTableState | null }) {
+  const [safeIds, setSafeIds] = useState<string[]>((data.safeIds as string[]) || []);
+  const [refund, setRefund] = useState(data.refundAmount !== undefined ? Number(data.refundAmount) > 0 : true);
+  const [refundAmount, setRefundAmount] = useState((data.refundAmount as string) || '');
+  const [notes, setNotes] = useState((data.notes as string) || '');
+
+  // SAFEs this event already cancelled are no longer outstanding, so recover them for editing
+  const previouslyCancelled = (capTableState?.safes || [])
+    .filter(safe => safe.cancelledInEventId && safeIds.includes(safe.id));
+  const selectableSafes = [...safes, ...previouslyCancelled];
+  const selectedPrincipal = selectableSafes
+    .filter(safe => safeIds.includes(safe.id))
+    .reduce((sum, safe) => sum + Number(safe.principalAmount), 0);
+
+  useEffect(() => {
+    onChange({
+      safeIds,
+      ...(refund && { refundAmount: refundAmount || String(selectedPrincipal) }),
+      ...(notes && { notes })
+    });
+  }, [safeIds, refund, refundAmount, notes, selectedPrincipal]);
+
+  const toggleSafe = (id: string) => {
+    setSafeIds(safeIds.includes(id) ? safeIds.filter(s => s !== id) : [...safeIds, id]);
+  };
+
+  const formatMoney = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: currency,
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    }).format(amount);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="p-4 bg-amber-50 rounded-sm border border-amber-100 flex gap-3">
+        <Info className="w-5 h-5 text-amber-600 flex-shrink-0 mt-0.5" />
+        <div className="text-sm text-amber-800">
+          <p className="font-medium mb-1">SAFE Cancellation</p>
+          <p>Removes SAFEs that were refunded or cancelled before converting. They no longer 
+          convert in later rounds or take proceeds in an exit.</p>
+        </div>
+      </div>
+
+      <div>
+        <label className="input-label">Outstanding SAFEs</label>
+        {selectableSafes.length === 0 ? (
+          <p className="text-sm text-charcoal-500">There are no unconverted SAFEs to cancel.</p>
+        ) : (
+          <div className="space-y-2">
+            {selectableSafes.map(safe => (
+              <label
+                key={safe.id}
+                className="flex items-center gap-3 p-3 border border-charcoal-200 rounded-sm cursor-pointer hover:bg-charcoal-50"
+              >
+                <input
+                  type="checkbox"
+                  checked={safeIds.includes(safe.id)}
+                  onChange={() => toggleSafe(safe.id)}
+                  className="rounded border-charcoal-300"
+                />
+                <div className="flex-1 text-sm">
+                  <div className="font-medium text-charcoal-900">{safe.investorName || 'Unknown'}</div>
+                  <div className="text-charcoal-500">
+                    {safe.valuationType === 'post_money' ? 'Post-Money' : 'Pre-Money'}
+                    {safe.valuationCap ? ` • ${formatMoney(Number(safe.valuationCap))} cap` : ' • Uncapped'}
+                    {safe.discountPercent ? ` • ${safe.discountPercent}% discount` : ''}
+                  </div>
+                </div>
+                <span className="text-sm font-mono">{formatMoney(Number(safe.principalAmount))}</span>
+              </label>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div>
+        <label className="flex items-center gap-2 cursor-pointer mb-3">
+          <input
+            type="checkbox"
+            checked={refund}
+            onChange={(e) => setRefund(e.target.checked)}
+            className="rounded border-charcoal-300"
+          />
+          <span className="text-sm text-charcoal-700">Principal refunded to the holders</span>
+        </label>
+        {refund && (
+          <div>
+            <label className="input-label">Refund Amount</label>
+            <div className="relative">
+              <span className="absolute left-3 top-1/2 -translate-y-1/2 text-charcoal-400 text-sm">{currencySymbol}</span>
+              <input
+                type="number"
+                value={refundAmount}
+                onChange={(e) => setRefundAmount(e.target.value)}
+                className="input pl-7"
+                placeholder={String(selectedPrincipal)}
+              />
+            </div>
+            <p className="input-help">Defaults to the principal of the selected SAFEs</p>
+          </div>
+        )}
+      </div>
+
+      <div>
+        <label className="input-label">Notes</label>
+        <input
+          type="text"
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          className="input"
+          placeholder="Reason for cancellation"
+        />
+      </div>
+    </div>
+  );
+}
+
+function DividendDeclarationForm({ data, onChange, capTableState, eventDate, currencySymbol, currency }: FormProps & { capTableState: CapTableState | null; eventDate: string }) {
+  const shareClasses = (capTableState?.shareClasses || []).filter(sc => sc.dividends);
+  const [shareClassId, setShareClassId] = useState((data.shareClassId as string) || shareClasses[0]?.id || '');
+  const [amountPerShare, setAmountPerShare] = useState((data.amountPerShare as string) || '');
+  const [paymentForm, setPaymentForm] = useState<DividendPaymentForm | ''>((data.paymentForm as DividendPaymentForm) || '');
+
+  const shareClass = shareClasses.find(sc => sc.id === shareClassId);
+  const classHoldings = (capTableState?.holdings || [])
+    .filter(h => h.shareClassId === shareClassId && !h.isOption && h.holderId !== TREASURY_HOLDER_ID);
+  const outstandingShares = classHoldings.reduce((sum, h) => sum + (parseInt(h.quantity, 10) || 0), 0);
+  // Holdings accrue from their own issue dates, so the default is an average across the class
+  const accruedTotal = shareClass && eventDate
+    ? classHoldings.reduce((sum, h) => sum + calculateAccruedDividends(shareClass, h, eventDate).toNumber(), 0)
+    : 0;
+  const accruedPerShare = outstandingShares > 0 ? accruedTotal / outstandingShares : 0;
+  const effectivePerShare = parseFloat(amountPerShare) || accruedPerShare;
+
+  useEffect(() => {
+    onChange({
+      shareClassId,
+      ...(amountPerShare && { amountPerShare }),
+      ...(paymentForm && { paymentForm })
+    });
+  }, [shareClassId, amountPerShare, paymentForm]);
+
+  const formatMoney = (amount: number, decimals = 0) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: currency,
+      minimumFractionDigits: decimals,
+      maximumFractionDigits: decimals,
+    }).format(amount);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="p-4 bg-green-50 rounded-sm border border-green-100 flex gap-3">
+        <Info className="w-5 h-5 text-green-600 flex-shrink-0 mt-0.5" />
+        <div className="text-sm text-green-800">
+          <p className="font-medium mb-1">Dividend Declaration</p>
+          <p>Pays a dividend on a preferred class, in cash or as new shares (PIK) at the original issue price. 
+          Accrual restarts from this date; for cumulative classes any amount left unpaid keeps counting 
+          toward the liquidation preference.</p>
+        </div>
+      </div>
+
+      <div>
+        <label className="input-label">Share Class</label>
+        {shareClasses.length === 0 ? (
+          <p className="text-sm text-charcoal-500">No share class carries dividend terms.</p>
+        ) : (
+          <select
+            value={shareClassId}
+            onChange={(e) => setShareClassId(e.target.value)}
+            className="select"
+          >
+            {shareClasses.map(sc => (
+              <option key={sc.id} value={sc.id}>
+                {sc.name} ({sc.dividends!.ratePercent}% {sc.dividends!.cumulative ? 'cumulative' : 'non-cumulative'})
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="input-label">Amount per Share</label>
+          <div className="relative">
+            <span className="absolute left-3 top-1/2 -translate-y-1/2 text-charcoal-400">{currencySymbol}</span>
+            <input
+              type="number"
+              value={amountPerShare}
+              onChange={(e) => setAmountPerShare(e.target.value)}
+              className="input pl-7"
+              placeholder={accruedPerShare > 0 ? accruedPerShare.toFixed(4) : '0.00'}
+              step="0.0001"
+            />
+          </div>
+          <p className="input-help">Leave blank to pay each holder what has accrued on their shares ({formatMoney(accruedPerShare, 4)} per share on average)</p>
+        </div>
+        <div>
+          <label className="input-label">Paid In</label>
+          <select
+            value={paymentForm}
+            onChange={(e) => setPaymentForm(e.target.value as DividendPaymentForm | '')}
+            className="select"
+          >
+            <option value="">Class default ({shareClass?.dividends?.paymentForm === 'pik' ? 'Shares (PIK)' : 'Cash'})</option>
+            <option value="cash">Cash</option>
+            <option value="pik">Shares (PIK)</option>
+          </select>
+        </div>
+      </div>
+
+      {shareClass && outstandingShares > 0 && effectivePerShare > 0 && (
+        <div className="p-3 bg-charcoal-50 rounded-sm text-sm flex justify-between">
+          <span className="text-charcoal-600">
+            {outstandingShares.toLocaleString()} shares × {formatMoney(effectivePerShare, 4)}
+          </span>
+          <span className="font-mono font-medium">{formatMoney(outstandingShares * effectivePerShare)}</span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ShareRedemptionForm({ data, onChange, people, capTableState, eventDate, currencySymbol, currency }: FormProps & { people: Person[]; capTableState: CapTableState | null; eventDate: string }) {
+  const shareClasses = (capTableState?.shareClasses || []).filter(sc => sc.redemption);
+  const [shareClassId, setShareClassId] = useState((data.shareClassId as string) || shareClasses[0]?.id || '');
+  const [shares, setShares] = useState((data.shares as string) || '');
+  const [pricePerShare, setPricePerShare] = useState((data.pricePerShare as string) || '');
+  const [holderId, setHolderId] = useState((data.holderId as string) || '');
+
+  const shareClass = shareClasses.find(sc => sc.id === shareClassId);
+  const obligation = capTableState && eventDate
+    ? calculateRedemptionObligations(capTableState, eventDate).find(o => o.shareClassId === shareClassId)
+    : undefined;
+  const classHoldings = (capTableState?.holdings || [])
+    .filter(h => h.shareClassId === shareClassId && !h.isOption && h.holderId !== TREASURY_HOLDER_ID);
+  const holderIds = [...new Set(classHoldings.map(h => h.holderId))];
+  // A named holder is due their pro-rata part of the shares due across the class
+  const holderShares = classHoldings
+    .filter(h => h.holderId === holderId)
+    .reduce((sum, h) => sum + parseInt(h.quantity, 10), 0);
+  const dueShares = obligation && holderId
+    ? Math.round(obligation.dueShares * holderShares / (obligation.outstandingShares || 1))
+    : obligation?.dueShares || 0;
+  const redeemShares = parseInt(shares, 10) || dueShares;
+  const price = parseFloat(pricePerShare) || parseFloat(shareClass?.redemption?.pricePerShare || '0');
+
+  useEffect(() => {
+    onChange({
+      shareClassId,
+      ...(shares && { shares }),
+      ...(pricePerShare && { pricePerShare }),
+      ...(holderId && { holderId })
+    });
+  }, [shareClassId, shares, pricePerShare, holderId]);
+
+  const formatMoney = (amount: number, decimals = 0) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: currency,
+      minimumFractionDigits: decimals,
+      maximumFractionDigits: decimals,
+    }).format(amount);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="p-4 bg-rose-50 rounded-sm border border-rose-100 flex gap-3">
+        <Info className="w-5 h-5 text-rose-600 flex-shrink-0 mt-0.5" />
+        <div className="text-sm text-rose-800">
+          <p className="font-medium mb-1">Share Redemption</p>
+          <p>Buys back preferred shares under the class's redemption rights and retires them. 
+          By default the shares due under the instalment schedule are redeemed pro rata across holders.</p>
+        </div>
+      </div>
+
+      <div>
+        <label className="input-label">Share Class</label>
+        {shareClasses.length === 0 ? (
+          <p className="text-sm text-charcoal-500">No share class carries redemption rights.</p>
+        ) : (
+          <select
+            value={shareClassId}
+            onChange={(e) => { setShareClassId(e.target.value); setHolderId(''); }}
+            className="select"
+          >
+            {shareClasses.map(sc => (
+              <option key={sc.id} value={sc.id}>
+                {sc.name} (redeemable from {new Date(sc.redemption!.earliestDate).toLocaleDateString()})
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {obligation && (
+        <div className="grid grid-cols-3 gap-4 p-3 bg-charcoal-50 rounded-sm text-sm">
+          <div>
+            <p className="text-xs text-charcoal-500">Outstanding</p>
+            <p className="font-mono">{obligation.outstandingShares.toLocaleString()}</p>
+          </div>
+          <div>
+            <p className="text-xs text-charcoal-500">Due on this date</p>
+            <p className="font-mono">{obligation.dueShares.toLocaleString()}</p>
+          </div>
+          <div>
+            <p className="text-xs text-charcoal-500">Redeemed to date</p>
+            <p className="font-mono">{obligation.redeemedShares.toLocaleString()}</p>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-3 gap-4">
+        <div>
+          <label className="input-label">Shares</label>
+          <input
+            type="number"
+            value={shares}
+            onChange={(e) => setShares(e.target.value)}
+            className="input"
+            placeholder={dueShares.toString()}
+          />
+        </div>
+        <div>
+          <label className="input-label">Price per Share</label>
+          <div className="relative">
+            <span className="absolute left-3 top-1/2 -translate-y-1/2 text-charcoal-400">{currencySymbol}</span>
+            <input
+              type="number"
+              value={pricePerShare}
+              onChange={(e) => setPricePerShare(e.target.value)}
+              className="input pl-7"
+              placeholder={shareClass?.redemption?.pricePerShare || '0.00'}
+              step="0.0001"
+            />
+          </div>
+        </div>
+        <div>
+          <label className="input-label">Holder</label>
+          <select
+            value={holderId}
+            onChange={(e) => setHolderId(e.target.value)}
+            className="select"
+          >
+            <option value="">All holders (pro rata)</option>
+            {holderIds.map(id => (
+              <option key={id} value={id}>{people.find(p => p.id === id)?.name || 'Unknown'}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {redeemShares > 0 && price > 0 && (
+        <div className="p-3 bg-charcoal-50 rounded-sm text-sm flex justify-between">
+          <span className="text-charcoal-600">
+            {redeemShares.toLocaleString()} shares × {formatMoney(price, 4)}
+          </span>
+          <span className="font-mono font-medium">{formatMoney(redeemShares * price)}</span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function AuthorizedShareIncreaseForm({ data, onChange, capTableState }: FormProps & { capTableState: CapTableState | null }) {
+  const usage = capTableState ? calculateAuthorizedShareUsage(capTableState) : [];
+  const [companyAuthorized, setCompanyAuthorized] = useState((data.companyAuthorizedShares as string) || '');
+  const [classLimits, setClassLimits] = useState<Record<string, string>>(
+    Object.fromEntries(
+      ((data.classes as Array<{ shareClassId: string; authorizedShares: string }>) || [])
+        .map(c => [c.shareClassId, c.authorizedShares])
+    )
+  );
+
+  useEffect(() => {
+    const classes = Object.entries(classLimits)
+      .filter(([, authorizedShares]) => authorizedShares)
+      .map(([shareClassId, authorizedShares]) => ({ shareClassId, authorizedShares }));
+    onChange({
+      ...(companyAuthorized && { companyAuthorizedShares: companyAuthorized }),
+      ...(classes.length > 0 && { classes })
+    });
+  }, [companyAuthorized, classLimits]);
+
+  return (
+    <div className="space-y-6">
+      <div className="p-4 bg-slate-50 rounded-sm border border-slate-100 flex gap-3">
+        <Info className="w-5 h-5 text-slate-600 flex-shrink-0 mt-0.5" />
+        <div className="text-sm text-slate-800">
+          <p className="font-medium mb-1">Authorized Share Increase</p>
+          <p>Records a charter amendment. Enter the new authorized totals; limits left blank are unchanged. 
+          A limit cannot be set below the shares already issued or reserved for options, RSUs and warrants.</p>
+        </div>
+      </div>
+
+      <table className="table">
+        <thead>
+          <tr>
+            <th></th>
+            <th className="text-right">Authorized</th>
+            <th className="text-right">Issued + Reserved</th>
+            <th className="text-right w-44">New Authorized</th>
+          </tr>
+        </thead>
+        <tbody>
+          {usage.map(u => (
+            <tr key={u.shareClassId || 'company'}>
+              <td className="font-medium">{u.name}</td>
+              <td className="text-right font-mono">{u.authorized !== null ? u.authorized.toLocaleString() : '—'}</td>
+              <td className="text-right font-mono">{(u.issued + u.reserved).toLocaleString()}</td>
+              <td className="text-right">
+                <input
+                  type="number"
+                  value={u.shareClassId ? classLimits[u.shareClassId] || '' : companyAuthorized}
+                  onChange={(e) => u.shareClassId
+                    ? setClassLimits({ ...classLimits, [u.shareClassId]: e.target.value })
+                    : setCompanyAuthorized(e.target.value)}
+                  className="input text-right"
+                  placeholder="Unchanged"
+                />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -11,13 +11,14 @@ import {
   Cell,
 } from 'recharts';
 import { Calculator, TrendingUp, DollarSign } from 'lucide-react';
-import type { EventBase, ExitWaterfall } from '../types';
-import { PERSON_TYPE_LABELS } from '../types';
+import type { EventBase, ExitWaterfall, ExitEventType, CapTableSettings, UnvestedAwardTreatment } from '../types';
+import { PERSON_TYPE_LABELS, UNVESTED_AWARD_TREATMENT_LABELS } from '../types';
 import { replayAllEvents, calculateExitWaterfall } from '../lib/capTableEngine';
 
 interface ExitPlannerProps {
   companyId: string;
   events: EventBase[];
+  settings?: CapTableSettings;
   currency: string;
 }
 
@@ -43,9 +44,13 @@ const CURRENCY_SYMBOLS: Record<string, string> = {
   AUD: 'A$',
 };
 
-export function ExitPlanner({ companyId, events, currency }: ExitPlannerProps) {
+export function ExitPlanner({ companyId, events, settings, currency }: ExitPlannerProps) {
   const currencySymbol = CURRENCY_SYMBOLS[currency] || currency + ' ';
   const [exitValuation, setExitValuation] = useState<string>('10000000');
+  const [exitEventType, setExitEventType] = useState<ExitEventType>('liquidity');
+  const [exitDate, setExitDate] = useState<string>(new Date().toISOString().split('T')[0]);
+  const [unvestedAwards, setUnvestedAwards] = useState<UnvestedAwardTreatment>('cancelled');
+  const [doubleTriggerTermination, setDoubleTriggerTermination] = useState(false);
   const [selectedEventId, setSelectedEventId] = useState<string>('');
   const [waterfall, setWaterfall] = useState<ExitWaterfall | null>(null);
   const [isCalculating, setIsCalculating] = useState(false);
@@ -71,9 +76,9 @@ export function ExitPlanner({ companyId, events, currency }: ExitPlannerProps) {
         })
       : events;
     
-    const { finalState } = replayAllEvents(companyId, eventsToUse);
+    const { finalState } = replayAllEvents(companyId, eventsToUse, settings);
     return finalState;
-  }, [companyId, events, selectedEventId]);
+  }, [companyId, events, settings, selectedEventId]);
 
   const handleCalculate = () => {
     if (!exitValuation || Number(exitValuation) <= 0) {
@@ -90,7 +95,12 @@ export function ExitPlanner({ companyId, events, currency }: ExitPlannerProps) {
     setError(null);
 
     try {
-      const result = calculateExitWaterfall(capTableState, Number(exitValuation));
+      const result = calculateExitWaterfall(capTableState, Number(exitValuation), {
+        eventType: exitEventType,
+        exitDate: exitDate || undefined,
+        unvestedAwards,
+        doubleTriggerTermination,
+      });
       setWaterfall(result);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to calculate exit scenario');
@@ -117,7 +127,7 @@ export function ExitPlanner({ companyId, events, currency }: ExitPlannerProps) {
           </h3>
         </div>
         <div className="card-body">
-          <div className="grid grid-cols-3 gap-6">
+          <div className="grid grid-cols-5 gap-6">
             <div>
               <label className="input-label">Exit Valuation</label>
               <div className="relative">
@@ -135,6 +145,34 @@ export function ExitPlanner({ companyId, events, currency }: ExitPlannerProps) {
               <p className="input-help">Total company sale price</p>
             </div>
 
+            <div>
+              <label className="input-label">Event Type</label>
+              <select
+                value={exitEventType}
+                onChange={(e) => setExitEventType(e.target.value as ExitEventType)}
+                className="select"
+              >
+                <option value="liquidity">Liquidity Event (Sale)</option>
+                <option value="dissolution">Dissolution</option>
+              </select>
+              <p className="input-help">
+                {exitEventType === 'liquidity'
+                  ? 'SAFEs take cash-out or conversion'
+                  : 'SAFEs are repaid their principal'}
+              </p>
+            </div>
+
+            <div>
+              <label className="input-label">Exit Date</label>
+              <input
+                type="date"
+                value={exitDate}
+                onChange={(e) => setExitDate(e.target.value)}
+                className="input"
+              />
+              <p className="input-help">Dividends, note interest and vesting run to this date</p>
+            </div>
+
             <div>
               <label className="input-label">As Of Event</label>
               <select
@@ -163,6 +201,36 @@ export function ExitPlanner({ companyId, events, currency }: ExitPlannerProps) {
             </div>
           </div>
 
+          <div className="grid grid-cols-5 gap-6 mt-4">
+            <div>
+              <label className="input-label">Unvested Awards</label>
+              <select
+                value={unvestedAwards}
+                onChange={(e) => setUnvestedAwards(e.target.value as UnvestedAwardTreatment)}
+                className="select"
+              >
+                {(Object.keys(UNVESTED_AWARD_TREATMENT_LABELS) as UnvestedAwardTreatment[]).map(treatment => (
+                  <option key={treatment} value={treatment}>{UNVESTED_AWARD_TREATMENT_LABELS[treatment]}</option>
+                ))}
+              </select>
+              <p className="input-help">Unvested options and RSUs not accelerated by the sale</p>
+            </div>
+
+            <div className="col-span-2 flex items-center">
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={doubleTriggerTermination}
+                  onChange={(e) => setDoubleTriggerTermination(e.target.checked)}
+                  className="rounded border-charcoal-300"
+                />
+                <span className="text-sm text-charcoal-700">
+                  Holders are terminated on the sale (releases double-trigger acceleration)
+                </span>
+              </label>
+            </div>
+          </div>
+
           {error && (
             <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-sm text-sm text-red-700">
               {error}
@@ -178,7 +246,12 @@ export function ExitPlanner({ companyId, events, currency }: ExitPlannerProps) {
           proceeds from a company sale would be distributed among shareholders. The calculation 
           considers liquidation preferences, participation rights, and conversion options for 
           each share class. Preferred shareholders may choose to take their liquidation preference 
-          or convert to common stock, whichever yields higher returns.
+          or convert to common stock, whichever yields higher returns. Unconverted SAFEs rank 
+          alongside preferred stock ahead of common: they receive their purchase amount back or, 
+          in a liquidity event, their as-converted amount if that is greater. Cumulative preferred 
+          dividends accrued but not yet paid by the exit date are added to the preference. 
+          Options vested by the exit date, including any accelerated by the sale, are net 
+          exercised at the exit price; RSUs settle into common.
         </p>
       </div>
 
@@ -304,7 +377,7 @@ export function ExitPlanner({ companyId, events, currency }: ExitPlannerProps) {
                     </td>
                     <td>
                       <span className={`badge ${
-                        dist.method.includes('preference') 
+                        dist.method.includes('preference') || dist.method.includes('cash-out')
                           ? 'badge-warning' 
                           : dist.method.includes('participating')
                           ? 'badge-primary'
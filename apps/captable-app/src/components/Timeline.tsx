@@ -10,9 +10,28 @@ import {
   Trash2,
   Edit,
   ChevronRight,
+  ArrowRightLeft,
+  RotateCcw,
+  UserMinus,
+  Split,
+  FileClock,
+  Ticket,
+  TicketCheck,
+  Lock,
+  UserX,
+  Gift,
+  BadgeCheck,
+  Repeat,
+  CalendarCheck,
+  Flag,
+  FileX,
+  Banknote,
+  Landmark,
+  Scale,
+  AlertTriangle,
 } from 'lucide-react';
-import type { EventBase, CapTableState, EventType } from '../types';
-import { EVENT_TYPE_LABELS } from '../types';
+import type { EventBase, CapTableState, EventType, PayToPlayTerms, VestingSchedule } from '../types';
+import { EVENT_TYPE_LABELS, ANTI_DILUTION_LABELS, CONVERSION_METHOD_LABELS, PRO_RATA_STATUS_LABELS, PAY_TO_PLAY_CONVERSION_LABELS, VESTING_FREQUENCY_LABELS, ACCELERATION_TRIGGER_LABELS, OPTION_EXERCISE_METHOD_LABELS, WITHHELD_SHARE_POLICY_LABELS } from '../types';
 
 interface TimelineProps {
   events: EventBase[];
@@ -32,6 +51,24 @@ const eventIcons: Record<EventType, typeof Building> = {
   esop_pool_extension: TrendingUp,
   esop_grant: Award,
   option_exercise: Play,
+  secondary_transfer: ArrowRightLeft,
+  share_repurchase: RotateCcw,
+  employee_termination: UserMinus,
+  stock_split: Split,
+  convertible_note_issuance: FileClock,
+  warrant_issuance: Ticket,
+  warrant_exercise: TicketCheck,
+  restricted_stock_award: Lock,
+  founder_departure: UserX,
+  rsu_grant: Gift,
+  rsu_settlement: BadgeCheck,
+  share_class_conversion: Repeat,
+  round_closing: CalendarCheck,
+  tranche_release: Flag,
+  safe_cancellation: FileX,
+  dividend_declaration: Banknote,
+  share_redemption: Landmark,
+  authorized_share_increase: Scale,
 };
 
 const eventColors: Record<EventType, string> = {
@@ -42,6 +79,24 @@ const eventColors: Record<EventType, string> = {
   esop_pool_extension: 'bg-blue-400 text-white',
   esop_grant: 'bg-purple-500 text-white',
   option_exercise: 'bg-teal-500 text-white',
+  secondary_transfer: 'bg-indigo-500 text-white',
+  share_repurchase: 'bg-rose-500 text-white',
+  employee_termination: 'bg-orange-500 text-white',
+  stock_split: 'bg-cyan-500 text-white',
+  convertible_note_issuance: 'bg-amber-600 text-white',
+  warrant_issuance: 'bg-lime-600 text-white',
+  warrant_exercise: 'bg-lime-500 text-white',
+  restricted_stock_award: 'bg-violet-500 text-white',
+  founder_departure: 'bg-violet-700 text-white',
+  rsu_grant: 'bg-fuchsia-500 text-white',
+  rsu_settlement: 'bg-fuchsia-600 text-white',
+  share_class_conversion: 'bg-sky-600 text-white',
+  round_closing: 'bg-emerald-400 text-white',
+  tranche_release: 'bg-emerald-700 text-white',
+  safe_cancellation: 'bg-amber-700 text-white',
+  dividend_declaration: 'bg-green-600 text-white',
+  share_redemption: 'bg-rose-700 text-white',
+  authorized_share_increase: 'bg-slate-600 text-white',
 };
 
 export function Timeline({
@@ -50,6 +105,7 @@ export function Timeline({
   onSelectEvent,
   onEditEvent,
   onDeleteEvent,
+  capTableState,
   currency = 'USD',
 }: TimelineProps) {
   const formatDate = (dateStr: string) => {
@@ -83,6 +139,11 @@ export function Timeline({
         const total = safes.reduce((sum, s) => sum + Number(s.principalAmount || 0), 0);
         return `${formatCurrency(total)} in SAFEs`;
       }
+      case 'convertible_note_issuance': {
+        const notes = (data.notes as Array<{principalAmount: string}>) || [];
+        const total = notes.reduce((sum, n) => sum + Number(n.principalAmount || 0), 0);
+        return `${formatCurrency(total)} in notes`;
+      }
       case 'esop_pool_creation':
         return data.inputMode === 'percentage' 
           ? `${data.percentage}% pool created`
@@ -92,7 +153,68 @@ export function Timeline({
       case 'esop_grant':
         return `${Number(data.shares || 0).toLocaleString()} options to ${data.employeeName}`;
       case 'option_exercise':
-        return `${Number(data.shares || 0).toLocaleString()} options exercised`;
+        return `${Number(data.shares || 0).toLocaleString()} options exercised${data.method === 'net' ? ' (net)' : data.method === 'cashless' ? ' (cashless)' : ''}`;
+      case 'secondary_transfer':
+        return `${Number(data.shares || 0).toLocaleString()} shares to ${data.buyerName}`;
+      case 'share_repurchase': {
+        const repurchase = capTableState?.derivedOutputs[event.id]?.shareRepurchase;
+        const summary = `${Number(data.shares || 0).toLocaleString()} shares ${data.disposition === 'treasury' ? 'to treasury' : 'cancelled'}`;
+        return repurchase ? `${summary} for ${formatCurrency(repurchase.totalPaid)}` : summary;
+      }
+      case 'employee_termination':
+        return `${data.exerciseWindowDays} day exercise window`;
+      case 'stock_split':
+        return `${data.ratioTo}:${data.ratioFrom} split`;
+      case 'warrant_issuance':
+        return `${Number(data.shares || 0).toLocaleString()} warrants to ${data.holderName}`;
+      case 'warrant_exercise':
+        return `${Number(data.shares || 0).toLocaleString()} warrants exercised`;
+      case 'restricted_stock_award':
+        return `${Number(data.shares || 0).toLocaleString()} restricted shares to ${data.holderName}`;
+      case 'founder_departure':
+        return data.repurchaseUnvested === false ? 'Repurchase right waived' : 'Unvested shares repurchased';
+      case 'rsu_grant':
+        return `${Number(data.shares || 0).toLocaleString()} RSUs to ${data.employeeName}`;
+      case 'rsu_settlement':
+        return `${Number(data.shares || 0).toLocaleString()} RSUs settled`;
+      case 'round_closing': {
+        const investors = (data.investors as Array<{amount: string}>) || [];
+        const total = investors.reduce((sum, i) => sum + Number(i.amount || 0), 0);
+        return `${formatCurrency(total)} raised`;
+      }
+      case 'tranche_release': {
+        const count = ((data.trancheIds as string[]) || []).length;
+        return `${count} milestone tranche${count !== 1 ? 's' : ''} released`;
+      }
+      case 'safe_cancellation': {
+        const count = ((data.safeIds as string[]) || []).length;
+        return Number(data.refundAmount) > 0
+          ? `${count} SAFE${count !== 1 ? 's' : ''} refunded (${formatCurrency(data.refundAmount as string)})`
+          : `${count} SAFE${count !== 1 ? 's' : ''} cancelled`;
+      }
+      case 'dividend_declaration': {
+        const declared = capTableState?.derivedOutputs[event.id]?.dividendDeclaration;
+        if (!declared) return 'Dividend declared';
+        return declared.paymentForm === 'pik'
+          ? `${declared.pikShares.toLocaleString()} PIK shares issued`
+          : `${formatCurrency(declared.totalAmount)} paid`;
+      }
+      case 'share_redemption': {
+        const redeemed = capTableState?.derivedOutputs[event.id]?.shareRedemption;
+        return redeemed
+          ? `${redeemed.shares.toLocaleString()} shares redeemed for ${formatCurrency(redeemed.totalPaid)}`
+          : 'Preferred shares redeemed';
+      }
+      case 'authorized_share_increase': {
+        const changes = capTableState?.derivedOutputs[event.id]?.authorizedShareIncrease?.changes || [];
+        return changes.length === 1
+          ? `${changes[0].name} authorized to ${changes[0].authorized.toLocaleString()}`
+          : `${changes.length} authorized share limits changed`;
+      }
+      case 'share_class_conversion':
+        return data.scope === 'all_preferred'
+          ? 'All preferred converted to common'
+          : data.scope === 'class' ? 'Class converted to common' : 'Holder converted to common';
       default:
         return '';
     }
@@ -143,10 +265,28 @@ export function Timeline({
     );
   }
 
+  // Later closings are listed under their parent round rather than by date
+  const closingsByRound = new Map<string, EventBase[]>();
+  for (const event of events) {
+    if (event.type !== 'round_closing') continue;
+    const roundEventId = (event.data as { roundEventId?: string }).roundEventId;
+    if (!roundEventId || !events.some(e => e.id === roundEventId)) continue;
+    closingsByRound.set(roundEventId, [...(closingsByRound.get(roundEventId) || []), event]);
+  }
+
+  const displayEvents: { event: EventBase; isClosing: boolean }[] = [];
+  for (const event of events) {
+    if (event.type === 'round_closing' && [...closingsByRound.values()].some(c => c.includes(event))) continue;
+    displayEvents.push({ event, isClosing: event.type === 'round_closing' });
+    for (const closing of closingsByRound.get(event.id) || []) {
+      displayEvents.push({ event: closing, isClosing: true });
+    }
+  }
+
   return (
     <div className="max-w-4xl mx-auto">
       <div className="space-y-0">
-        {events.map((event, index) => {
+        {displayEvents.map(({ event, isClosing }, index) => {
           const Icon = eventIcons[event.type] || Building;
           const isSelected = selectedEvent?.id === event.id;
           
@@ -156,7 +296,7 @@ export function Timeline({
               initial={{ opacity: 0, x: -20 }}
               animate={{ opacity: 1, x: 0 }}
               transition={{ delay: index * 0.05 }}
-              className="timeline-item"
+              className={`timeline-item ${isClosing ? 'timeline-item-nested' : ''}`}
             >
               {/* Timeline dot */}
               <div className={`timeline-dot ${isSelected ? 'active' : ''}`}>
@@ -201,6 +341,13 @@ export function Timeline({
                     </div>
                   </div>
 
+                  {capTableState?.derivedOutputs[event.id]?.authorizationWarnings?.map(warning => (
+                    <p key={warning} className="flex items-center gap-1.5 mt-3 text-xs text-amber-700">
+                      <AlertTriangle className="w-3.5 h-3.5 flex-shrink-0" />
+                      {warning}
+                    </p>
+                  ))}
+
                   {/* Expanded details */}
                   {isSelected && (
                     <motion.div
@@ -215,7 +362,7 @@ export function Timeline({
                         </p>
                       )}
                       
-                      <EventDetails event={event} currency={currency} />
+                      <EventDetails event={event} capTableState={capTableState} currency={currency} />
 
                       <div className="flex items-center gap-2 mt-4 pt-4 border-t border-charcoal-100">
                         <button
@@ -253,8 +400,17 @@ export function Timeline({
   );
 }
 
-function EventDetails({ event, currency = 'USD' }: { event: EventBase; currency?: string }) {
+function EventDetails({
+  event,
+  capTableState,
+  currency = 'USD',
+}: {
+  event: EventBase;
+  capTableState: CapTableState | null;
+  currency?: string;
+}) {
   const data = event.data as Record<string, unknown>;
+  const derived = capTableState?.derivedOutputs[event.id];
   
   const formatMoney = (amount: string | number, decimals = 0) => {
     return new Intl.NumberFormat('en-US', {
@@ -265,6 +421,16 @@ function EventDetails({ event, currency = 'USD' }: { event: EventBase; currency?
     }).format(Number(amount));
   };
 
+  const describeVesting = (schedule: Omit<VestingSchedule, 'id'>) => {
+    const frequency = VESTING_FREQUENCY_LABELS[schedule.vestingFrequency] || VESTING_FREQUENCY_LABELS.monthly;
+    const terms = schedule.tranches?.length
+      ? schedule.tranches.map(t => `${t.percent}% at ${t.monthOffset} months`).join(', ')
+      : `${schedule.totalMonths} months, ${schedule.cliffMonths} month cliff, ${frequency.toLowerCase()}`;
+    return schedule.acceleration
+      ? `${terms}; ${schedule.acceleration.percent}% ${ACCELERATION_TRIGGER_LABELS[schedule.acceleration.trigger].toLowerCase()} acceleration`
+      : terms;
+  };
+
   switch (event.type) {
     case 'incorporation':
       return (
@@ -290,7 +456,12 @@ function EventDetails({ event, currency = 'USD' }: { event: EventBase; currency?
         </div>
       );
 
-    case 'priced_round':
+    case 'priced_round': {
+      const conversions = (capTableState?.holdings || []).flatMap(holding =>
+        holding.sourceEventId === event.id && holding.conversionBreakdown
+          ? [{ holding, breakdown: holding.conversionBreakdown }]
+          : []
+      );
       return (
         <div className="space-y-4 text-sm">
           <div className="grid grid-cols-3 gap-4">
@@ -325,8 +496,116 @@ function EventDetails({ event, currency = 'USD' }: { event: EventBase; currency?
               </div>
             </div>
           ) : null}
+
+          {derived?.proRata && (
+            <div>
+              <p className="text-charcoal-500 text-xs uppercase tracking-wider mb-2">Pro-Rata Rights</p>
+              <div className="space-y-1">
+                {derived.proRata.map(outcome => (
+                  <div key={outcome.holderId} className="flex justify-between items-center">
+                    <span>
+                      {outcome.holderName}{' '}
+                      <span className={
+                        outcome.status === 'exercised'
+                          ? 'text-emerald-600'
+                          : outcome.status === 'under_exercised' ? 'text-amber-600' : 'text-charcoal-500'
+                      }>
+                        ({PRO_RATA_STATUS_LABELS[outcome.status]})
+                      </span>
+                    </span>
+                    <span className="font-mono">
+                      {formatMoney(outcome.invested)} of {formatMoney(outcome.allocation)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {derived?.payToPlay && (
+            <div>
+              <p className="text-charcoal-500 text-xs uppercase tracking-wider mb-2">
+                Pay-to-Play ({PAY_TO_PLAY_CONVERSION_LABELS[(data.payToPlay as PayToPlayTerms).conversion]})
+              </p>
+              <div className="space-y-1">
+                {derived.payToPlay.map(outcome => (
+                  <div key={outcome.holderId} className="flex justify-between items-center">
+                    <span>
+                      {outcome.holderName}{' '}
+                      <span className={outcome.participated ? 'text-emerald-600' : 'text-rose-600'}>
+                        ({outcome.participated
+                          ? 'Participated'
+                          : `${outcome.conversions.reduce((sum, c) => sum + c.shares, 0).toLocaleString()} preferred converted`})
+                      </span>
+                    </span>
+                    <span className="font-mono">
+                      {formatMoney(outcome.invested)} of {formatMoney(outcome.required)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {conversions.length > 0 && (
+            <div>
+              <p className="text-charcoal-500 text-xs uppercase tracking-wider mb-2">SAFE & Note Conversions</p>
+              <div className="space-y-1">
+                {conversions.map(({ holding, breakdown }) => (
+                  <div key={holding.id} className="flex justify-between items-center">
+                    <span>
+                      {capTableState?.people.find(p => p.id === holding.holderId)?.name || 'Unknown'}{' '}
+                      <span className="text-charcoal-500">
+                        ({CONVERSION_METHOD_LABELS[breakdown.method]}, {breakdown.valuationType === 'post_money' ? 'post-money' : 'pre-money'} capitalization {Math.round(Number(breakdown.capitalization)).toLocaleString()})
+                      </span>
+                    </span>
+                    <span className="font-mono">
+                      {breakdown.shares.toLocaleString()} @ {formatMoney(breakdown.conversionPrice, 4)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {data.tranches && (data.tranches as unknown[]).length > 0 ? (
+            <div>
+              <p className="text-charcoal-500 text-xs uppercase tracking-wider mb-2">Milestone Tranches</p>
+              <div className="space-y-1">
+                {(data.tranches as Array<{id: string; name: string; amount: string; milestone: string}>).map(tranche => (
+                  <div key={tranche.id} className="flex justify-between items-center">
+                    <span>
+                      {tranche.name} <span className="text-charcoal-500">({tranche.milestone || 'No milestone'})</span>
+                    </span>
+                    <span className="font-mono">{formatMoney(tranche.amount)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ) : null}
+
+          {derived?.antiDilution && (
+            <div>
+              <p className="text-charcoal-500 text-xs uppercase tracking-wider mb-2">Anti-Dilution Adjustments</p>
+              <div className="space-y-1">
+                {derived.antiDilution.map(adj => (
+                  <div key={adj.shareClassId} className="flex justify-between items-center">
+                    <span>
+                      {adj.shareClassName}{' '}
+                      <span className="text-charcoal-500">({ANTI_DILUTION_LABELS[adj.antiDilution]})</span>
+                    </span>
+                    <span className="font-mono">
+                      {formatMoney(adj.previousConversionPrice, 4)} → {formatMoney(adj.adjustedConversionPrice, 4)}
+                      {' '}(+{adj.additionalShares.toLocaleString()} shares)
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
       );
+    }
 
     case 'safe_issuance':
       return (
@@ -339,7 +618,7 @@ function EventDetails({ event, currency = 'USD' }: { event: EventBase; currency?
                   <p className="font-medium">{safe.investorName}</p>
                   <p className="text-xs text-charcoal-500 mt-0.5">
                     {safe.valuationType === 'post_money' ? 'Post-Money' : 'Pre-Money'} SAFE
-                    {safe.valuationCap && ` • ${formatMoney(safe.valuationCap)} cap`}
+                    {safe.valuationCap ? ` • ${formatMoney(safe.valuationCap)} cap` : ' • Uncapped'}
                     {safe.discountPercent && ` • ${safe.discountPercent}% discount`}
                   </p>
                 </div>
@@ -350,6 +629,143 @@ function EventDetails({ event, currency = 'USD' }: { event: EventBase; currency?
         </div>
       );
 
+    case 'safe_cancellation': {
+      const cancellation = derived?.safeCancellation;
+      return (
+        <div className="space-y-2 text-sm">
+          <p className="text-charcoal-500 text-xs uppercase tracking-wider">SAFEs Cancelled</p>
+          {cancellation?.safes.map(safe => (
+            <div key={safe.id} className="flex justify-between items-center">
+              <span>{safe.investorName || 'Unknown'}</span>
+              <span className="font-mono">{formatMoney(safe.principalAmount)}</span>
+            </div>
+          ))}
+          <div className="flex justify-between items-center pt-2 border-t border-charcoal-100">
+            <span className="text-charcoal-500">Refunded</span>
+            <span className="font-mono">{formatMoney(cancellation?.refundAmount || 0)}</span>
+          </div>
+        </div>
+      );
+    }
+
+    case 'dividend_declaration': {
+      const declared = derived?.dividendDeclaration;
+      if (!declared) return null;
+      const shareClass = capTableState?.shareClasses.find(sc => sc.id === declared.shareClassId);
+      return (
+        <div className="space-y-4 text-sm">
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <p className="text-charcoal-500 text-xs uppercase tracking-wider mb-1">Share Class</p>
+              <p className="font-mono">{shareClass?.name || 'Unknown'}</p>
+            </div>
+            <div>
+              <p className="text-charcoal-500 text-xs uppercase tracking-wider mb-1">Per Share</p>
+              <p className="font-mono">{formatMoney(declared.amountPerShare, 4)}</p>
+            </div>
+            <div>
+              <p className="text-charcoal-500 text-xs uppercase tracking-wider mb-1">Paid In</p>
+              <p className="font-mono">{declared.paymentForm === 'pik' ? 'Shares (PIK)' : 'Cash'}</p>
+            </div>
+          </div>
+          <div className="space-y-1">
+            {declared.payments.map(payment => (
+              <div key={payment.holderId} className="flex justify-between items-center">
+                <span>{capTableState?.people.find(p => p.id === payment.holderId)?.name || 'Unknown'}</span>
+                <span className="font-mono">
+                  {declared.paymentForm === 'pik'
+                    ? `${payment.pikShares.toLocaleString()} shares`
+                    : formatMoney(payment.amount)}
+                </span>
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-between items-center pt-2 border-t border-charcoal-100">
+            <span className="text-charcoal-500">Total</span>
+            <span className="font-mono">{formatMoney(declared.totalAmount)}</span>
+          </div>
+        </div>
+      );
+    }
+
+    case 'share_redemption': {
+      const redeemed = derived?.shareRedemption;
+      if (!redeemed) return null;
+      const shareClass = capTableState?.shareClasses.find(sc => sc.id === redeemed.shareClassId);
+      return (
+        <div className="space-y-4 text-sm">
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <p className="text-charcoal-500 text-xs uppercase tracking-wider mb-1">Share Class</p>
+              <p className="font-mono">{shareClass?.name || 'Unknown'}</p>
+            </div>
+            <div>
+              <p className="text-charcoal-500 text-xs uppercase tracking-wider mb-1">Shares Retired</p>
+              <p className="font-mono">{redeemed.shares.toLocaleString()}</p>
+            </div>
+            <div>
+              <p className="text-charcoal-500 text-xs uppercase tracking-wider mb-1">Price</p>
+              <p className="font-mono">{formatMoney(redeemed.pricePerShare, 4)}</p>
+            </div>
+          </div>
+          <div className="space-y-1">
+            {redeemed.redemptions.map(redemption => (
+              <div key={redemption.holderId} className="flex justify-between items-center">
+                <span>
+                  {capTableState?.people.find(p => p.id === redemption.holderId)?.name || 'Unknown'}{' '}
+                  <span className="text-charcoal-500">({redemption.shares.toLocaleString()} shares)</span>
+                </span>
+                <span className="font-mono">{formatMoney(redemption.amount)}</span>
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-between items-center pt-2 border-t border-charcoal-100">
+            <span className="text-charcoal-500">Cash Paid</span>
+            <span className="font-mono">{formatMoney(redeemed.totalPaid)}</span>
+          </div>
+        </div>
+      );
+    }
+
+    case 'authorized_share_increase':
+      return (
+        <div className="space-y-2 text-sm">
+          <p className="text-charcoal-500 text-xs uppercase tracking-wider">Authorized Shares</p>
+          {derived?.authorizedShareIncrease?.changes.map(change => (
+            <div key={change.shareClassId || 'company'} className="flex justify-between items-center">
+              <span>{change.name}</span>
+              <span className="font-mono">
+                {change.previous !== null ? `${change.previous.toLocaleString()} → ` : ''}
+                {change.authorized.toLocaleString()}
+              </span>
+            </div>
+          ))}
+        </div>
+      );
+
+    case 'convertible_note_issuance':
+      return (
+        <div className="space-y-2 text-sm">
+          <p className="text-charcoal-500 text-xs uppercase tracking-wider">Notes Issued</p>
+          {(data.notes as Array<{investorName: string; principalAmount: string; interestRatePercent: string; interestType: string; valuationCap?: string; discountPercent?: string; maturityDate?: string}>)?.map((note, i) => (
+            <div key={i} className="p-3 bg-charcoal-50 rounded-sm">
+              <div className="flex justify-between items-start">
+                <div>
+                  <p className="font-medium">{note.investorName}</p>
+                  <p className="text-xs text-charcoal-500 mt-0.5">
+                    {note.interestRatePercent}% {note.interestType} interest
+                    {note.valuationCap && ` • ${formatMoney(note.valuationCap)} cap`}
+                    {note.discountPercent && ` • ${note.discountPercent}% discount`}
+                    {note.maturityDate && ` • matures ${note.maturityDate}`}
+                  </p>
+                </div>
+                <p className="font-mono">{formatMoney(note.principalAmount)}</p>
+              </div>
+            </div>
+          ))}
+        </div>
+      );
+
     case 'esop_grant':
       return (
         <div className="grid grid-cols-2 gap-4 text-sm">
@@ -368,15 +784,282 @@ function EventDetails({ event, currency = 'USD' }: { event: EventBase; currency?
           {data.vestingSchedule ? (
             <div>
               <p className="text-charcoal-500 text-xs uppercase tracking-wider mb-1">Vesting</p>
-              <p>
-                {(data.vestingSchedule as {totalMonths: number}).totalMonths} months,{' '}
-                {(data.vestingSchedule as {cliffMonths: number}).cliffMonths} month cliff
-              </p>
+              <p>{describeVesting(data.vestingSchedule as Omit<VestingSchedule, 'id'>)}</p>
+            </div>
+          ) : null}
+          {data.allowEarlyExercise ? (
+            <div>
+              <p className="text-charcoal-500 text-xs uppercase tracking-wider mb-1">Early Exercise</p>
+              <p>Allowed</p>
             </div>
           ) : null}
         </div>
       );
 
+    case 'option_exercise': {
+      const exercise = derived?.optionExercise;
+      return (
+        <div className="grid grid-cols-3 gap-4 text-sm">
+          <div>
+            <p className="text-charcoal-500 text-xs uppercase tracking-wider mb-1">Vested Exercised</p>
+            <p className="font-mono">{exercise ? exercise.vestedShares.toLocaleString() : '—'}</p>
+          </div>
+          <div>
+            <p className="text-charcoal-500 text-xs uppercase tracking-wider mb-1">Early Exercised</p>
+            <p className="font-mono">{exercise ? exercise.unvestedShares.toLocaleString() : '—'}</p>
+          </div>
+          <div>
+            <p className="text-charcoal-500 text-xs uppercase tracking-wider mb-1">83(b) Deadline</p>
+            <p className="font-mono">
+              {exercise?.section83bDeadline ? new Date(exercise.section83bDeadline).toLocaleDateString() : '—'}
+            </p>
+          </div>
+          {exercise?.withholding && (
+            <>
+              <div>
+                <p className="text-charcoal-500 text-xs uppercase tracking-wider mb-1">
+                  {OPTION_EXERCISE_METHOD_LABELS[exercise.withholding.method]} at FMV
+                </p>
+                <p className="font-mono">{formatMoney(exercise.withholding.fairMarketValue, 4)}</p>
+              </div>
+              <div>
+                <p className="text-charcoal-500 text-xs uppercase tracking-wider mb-1">
+                  {exercise.withholding.disposition ? 'Withheld' : 'Sold'} (Strike / Tax)
+                </p>
+                <p className="font-mono">
+                  {exercise.withholding.sharesForStrike.toLocaleString()} / {exercise.withholding.sharesForTax.toLocaleString()}
+                </p>
+                <p className="text-xs text-charcoal-500">
+                  {exercise.withholding.disposition
+                    ? WITHHELD_SHARE_POLICY_LABELS[exercise.withholding.disposition]
+                    : `To ${capTableState?.people.find(p => p.id === exercise.withholding!.buyerId)?.name || 'Unknown'}`}
+                </p>
+              </div>
+              <div>
+                <p className="text-charcoal-500 text-xs uppercase tracking-wider mb-1">Net Shares Delivered</p>
+                <p className="font-mono">{exercise.withholding.netShares.toLocaleString()}</p>
+                <p className="text-xs text-charcoal-500">
+                  {Number(exercise.withholding.cashBalance) >= 0
+                    ? `${formatMoney(exercise.withholding.cashBalance, 2)} refunded`
+                    : `${formatMoney(-Number(exercise.withholding.cashBalance), 2)} paid in cash`}
+                </p>
+              </div>
+            </>
+          )}
+        </div>
+      );
+    }
+
+    case 'employee_termination': {
+      const repurchase = derived?.earlyExerciseRepurchase;
+      return (
+        <div className="grid grid-cols-3 gap-4 text-sm">
+          <div>
+            <p className="text-charcoal-500 text-xs uppercase tracking-wider mb-1">Exercise Window</p>
+            <p>{String(data.exerciseWindowDays)} days</p>
+          </div>
+          {repurchase && (
+            <>
+              <div>
+                <p className="text-charcoal-500 text-xs uppercase tracking-wider mb-1">Unvested Shares Repurchased</p>
+                <p className="font-mono">{repurchase.sharesRepurchased.toLocaleString()}</p>
+              </div>
+              <div>
+                <p className="text-charcoal-500 text-xs uppercase tracking-wider mb-1">Repurchase Cost</p>
+                <p className="font-mono">{formatMoney(repurchase.repurchaseAmount, 2)}</p>
+              </div>
+            </>
+          )}
+        </div>
+      );
+    }
+
+    case 'secondary_transfer':
+      return (
+        <div className="grid grid-cols-2 gap-4 text-sm">
+          <div>
+            <p className="text-charcoal-500 text-xs uppercase tracking-wider mb-1">Buyer</p>
+            <p>{String(data.buyerName)}</p>
+          </div>
+          <div>
+            <p className="text-charcoal-500 text-xs uppercase tracking-wider mb-1">Shares</p>
+            <p className="font-mono">{Number(data.shares || 0).toLocaleString()}</p>
+          </div>
+          <div>
+            <p className="text-charcoal-500 text-xs uppercase tracking-wider mb-1">Price per Share</p>
+            <p className="font-mono">{formatMoney(Number(data.pricePerShare) || 0, 4)}</p>
+          </div>
+          <div>
+            <p className="text-charcoal-500 text-xs uppercase tracking-wider mb-1">Consideration</p>
+            <p className="font-mono">
+              {formatMoney((Number(data.pricePerShare) || 0) * (Number(data.shares) || 0))}
+            </p>
+          </div>
+        </div>
+      );
+
+    case 'share_repurchase': {
+      const repurchase = derived?.shareRepurchase;
+      if (!repurchase) return null;
+      return (
+        <div className="grid grid-cols-2 gap-4 text-sm">
+          <div>
+            <p className="text-charcoal-500 text-xs uppercase tracking-wider mb-1">Holder</p>
+            <p>{capTableState?.people.find(p => p.id === data.holderId)?.name || 'Unknown'}</p>
+          </div>
+          <div>
+            <p className="text-charcoal-500 text-xs uppercase tracking-wider mb-1">Shares</p>
+            <p className="font-mono">
+              {repurchase.shares.toLocaleString()}{' '}
+              <span className="text-charcoal-500">({repurchase.disposition === 'treasury' ? 'held in treasury' : 'cancelled'})</span>
+            </p>
+          </div>
+          <div>
+            <p className="text-charcoal-500 text-xs uppercase tracking-wider mb-1">Price per Share</p>
+            <p className="font-mono">{formatMoney(repurchase.pricePerShare, 4)}</p>
+          </div>
+          <div>
+            <p className="text-charcoal-500 text-xs uppercase tracking-wider mb-1">Consideration</p>
+            <p className="font-mono">{formatMoney(repurchase.totalPaid, 2)}</p>
+          </div>
+        </div>
+      );
+    }
+
+    case 'warrant_issuance':
+      return (
+        <div className="grid grid-cols-2 gap-4 text-sm">
+          <div>
+            <p className="text-charcoal-500 text-xs uppercase tracking-wider mb-1">Holder</p>
+            <p>{String(data.holderName)}</p>
+          </div>
+          <div>
+            <p className="text-charcoal-500 text-xs uppercase tracking-wider mb-1">Warrants</p>
+            <p className="font-mono">{Number(data.shares || 0).toLocaleString()}</p>
+          </div>
+          <div>
+            <p className="text-charcoal-500 text-xs uppercase tracking-wider mb-1">Strike Price</p>
+            <p className="font-mono">{formatMoney(Number(data.strikePrice) || 0, 4)}</p>
+          </div>
+          <div>
+            <p className="text-charcoal-500 text-xs uppercase tracking-wider mb-1">Expires</p>
+            <p>{data.expiryDate ? new Date(String(data.expiryDate)).toLocaleDateString() : 'No expiry'}</p>
+          </div>
+        </div>
+      );
+
+    case 'rsu_grant':
+      return (
+        <div className="grid grid-cols-2 gap-4 text-sm">
+          <div>
+            <p className="text-charcoal-500 text-xs uppercase tracking-wider mb-1">Grantee</p>
+            <p>{String(data.employeeName)}</p>
+          </div>
+          <div>
+            <p className="text-charcoal-500 text-xs uppercase tracking-wider mb-1">RSUs</p>
+            <p className="font-mono">{Number(data.shares || 0).toLocaleString()}</p>
+          </div>
+          {data.vestingSchedule ? (
+            <div>
+              <p className="text-charcoal-500 text-xs uppercase tracking-wider mb-1">Vesting</p>
+              <p>{describeVesting(data.vestingSchedule as Omit<VestingSchedule, 'id'>)}</p>
+            </div>
+          ) : null}
+          <div>
+            <p className="text-charcoal-500 text-xs uppercase tracking-wider mb-1">Settlement</p>
+            <p>{data.requiresLiquidityEvent ? 'Requires liquidity event' : 'On vesting'}</p>
+          </div>
+        </div>
+      );
+
+    case 'restricted_stock_award':
+      return (
+        <div className="grid grid-cols-2 gap-4 text-sm">
+          <div>
+            <p className="text-charcoal-500 text-xs uppercase tracking-wider mb-1">Recipient</p>
+            <p>{String(data.holderName)}</p>
+          </div>
+          <div>
+            <p className="text-charcoal-500 text-xs uppercase tracking-wider mb-1">Shares</p>
+            <p className="font-mono">{Number(data.shares || 0).toLocaleString()}</p>
+          </div>
+          <div>
+            <p className="text-charcoal-500 text-xs uppercase tracking-wider mb-1">Purchase Price</p>
+            <p className="font-mono">{formatMoney(Number(data.purchasePrice) || 0, 4)}</p>
+          </div>
+          {data.vestingSchedule ? (
+            <div>
+              <p className="text-charcoal-500 text-xs uppercase tracking-wider mb-1">Vesting</p>
+              <p>{describeVesting(data.vestingSchedule as Omit<VestingSchedule, 'id'>)}</p>
+            </div>
+          ) : null}
+        </div>
+      );
+
+    case 'share_class_conversion': {
+      const conversion = derived?.shareClassConversion;
+      return (
+        <div className="grid grid-cols-2 gap-4 text-sm">
+          <div>
+            <p className="text-charcoal-500 text-xs uppercase tracking-wider mb-1">Preferred Converted</p>
+            <p className="font-mono">{conversion ? conversion.preferredShares.toLocaleString() : '—'}</p>
+          </div>
+          <div>
+            <p className="text-charcoal-500 text-xs uppercase tracking-wider mb-1">Common Issued</p>
+            <p className="font-mono">{conversion ? conversion.commonShares.toLocaleString() : '—'}</p>
+          </div>
+        </div>
+      );
+    }
+
+    case 'founder_departure': {
+      const departure = derived?.founderDeparture;
+      return (
+        <div className="grid grid-cols-3 gap-4 text-sm">
+          <div>
+            <p className="text-charcoal-500 text-xs uppercase tracking-wider mb-1">Vested Shares</p>
+            <p className="font-mono">{departure ? departure.vestedShares.toLocaleString() : '—'}</p>
+          </div>
+          <div>
+            <p className="text-charcoal-500 text-xs uppercase tracking-wider mb-1">Repurchased</p>
+            <p className="font-mono">{departure ? departure.sharesRepurchased.toLocaleString() : '—'}</p>
+          </div>
+          <div>
+            <p className="text-charcoal-500 text-xs uppercase tracking-wider mb-1">Repurchase Cost</p>
+            <p className="font-mono">{departure ? formatMoney(departure.repurchaseAmount, 2) : '—'}</p>
+          </div>
+        </div>
+      );
+    }
+
+    case 'stock_split': {
+      const split = derived?.stockSplit;
+      return (
+        <div className="space-y-4 text-sm">
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <p className="text-charcoal-500 text-xs uppercase tracking-wider mb-1">Ratio</p>
+              <p className="font-mono">{String(data.ratioTo)}:{String(data.ratioFrom)}</p>
+            </div>
+            <div>
+              <p className="text-charcoal-500 text-xs uppercase tracking-wider mb-1">Shares Before</p>
+              <p className="font-mono">{split ? split.sharesBefore.toLocaleString() : '—'}</p>
+            </div>
+            <div>
+              <p className="text-charcoal-500 text-xs uppercase tracking-wider mb-1">Shares After</p>
+              <p className="font-mono">{split ? split.sharesAfter.toLocaleString() : '—'}</p>
+            </div>
+          </div>
+          {split && split.roundingPolicy === 'cash_out' && (
+            <div>
+              <p className="text-charcoal-500 text-xs uppercase tracking-wider mb-1">Cash in Lieu of Fractions</p>
+              <p className="font-mono">{formatMoney(split.cashInLieu, 2)}</p>
+            </div>
+          )}
+        </div>
+      );
+    }
+
     default:
       return (
         <pre className="text-xs bg-charcoal-50 p-3 rounded-sm overflow-auto">
@@ -0,0 +1,303 @@
+import { describe, it, expect } from 'vitest';
+import type { CapTableSettings, CapTableState, EventBase, EventType, ExitWaterfall } from '../types';
+import {
+  replayAllEvents,
+  calculateAccruedDividends,
+  calculateExitWaterfall,
+  calculateVestedOptions
+} from './capTableEngine';
+
+const settings: CapTableSettings = { authorizedShares: 100000000 };
+
+const event = (id: string, type: EventType, date: string, data: Record<string, unknown>): EventBase => ({
+  id,
+  companyId: 'company',
+  type,
+  date,
+  label: id,
+  data
+});
+
+const incorporation = (shares: number, extra: Record<string, unknown> = {}) =>
+  event('inc', 'incorporation', '2020-01-01', {
+    totalIssuedShares: shares,
+    founderInputMode: 'percentage',
+    founders: [{ personId: 'founder', name: 'Founder', percentage: 100 }],
+    ...extra
+  });
+
+const replay = (events: EventBase[], overrides: CapTableSettings = {}) =>
+  replayAllEvents('company', events, { ...settings, ...overrides }).finalState;
+
+const sharesOf = (state: CapTableState, holderId: string, shareClassId?: string) =>
+  state.holdings
+    .filter(h => h.holderId === holderId && !h.isOption && (!shareClassId || h.shareClassId === shareClassId))
+    .reduce((sum, h) => sum + parseInt(h.quantity, 10), 0);
+
+const proceedsBy = (waterfall: ExitWaterfall) =>
+  Object.fromEntries(waterfall.distributions.map(d => [d.holderId, d.proceeds]));
+
+describe('convertible notes', () => {
+  it('converts principal plus simple interest at the cap price', () => {
+    const state = replay([
+      incorporation(1000000),
+      event('note', 'convertible_note_issuance', '2020-01-01', {
+        notes: [{
+          investorId: 'lender', investorName: 'Lender', principalAmount: '100000',
+          interestRatePercent: '10', interestType: 'simple', valuationCap: '1000000', discountPercent: '20'
+        }]
+      }),
+      event('seed', 'priced_round', '2021-01-01', {
+        valuationInputType: 'pre_money', preMoneyValuation: '2000000', totalNewMoney: '500000',
+        investors: [{ personId: 'lead', name: 'Lead', amount: '500000' }]
+      })
+    ]);
+
+    // 366 days of 10% simple interest on 100,000, converting at the 1.00 cap price
+    expect(sharesOf(state, 'lender')).toBe(110027);
+  });
+});
+
+describe('exit waterfall', () => {
+  const events = [
+    incorporation(1000000),
+    event('seriesA', 'priced_round', '2020-06-01', {
+      valuationInputType: 'price_per_share', pricePerShare: '1', totalNewMoney: '1000000',
+      investors: [{ personId: 'lead', name: 'Lead', amount: '1000000' }],
+      createNewShareClass: true
+    })
+  ];
+  const state = replay(events);
+
+  it('pays a non-participating preference ahead of common', () => {
+    const proceeds = proceedsBy(calculateExitWaterfall(state, 1500000));
+
+    expect(proceeds.lead).toBe('1000000.00');
+    expect(proceeds.founder).toBe('500000.00');
+  });
+
+  it('converts to common when that pays more than the preference', () => {
+    const proceeds = proceedsBy(calculateExitWaterfall(state, 10000000));
+
+    expect(proceeds.lead).toBe('5000000.00');
+    expect(proceeds.founder).toBe('5000000.00');
+  });
+
+  it('drops warrants that are out of the money at the exit price', () => {
+    const withWarrant = replay([
+      ...events,
+      event('warrant', 'warrant_issuance', '2020-07-01', {
+        holderId: 'lender', holderName: 'Lender', shareClassId: 'inc:common', shares: 100000, strikePrice: '20'
+      })
+    ]);
+    const proceeds = proceedsBy(calculateExitWaterfall(withWarrant, 10000000));
+
+    expect(proceeds.lender).toBeUndefined();
+    expect(proceeds.founder).toBe('5000000.00');
+  });
+});
+
+describe('anti-dilution', () => {
+  it('reprices a broad-based weighted average class in a down round', () => {
+    const state = replay([
+      incorporation(1000000),
+      event('seed', 'priced_round', '2020-06-01', {
+        valuationInputType: 'price_per_share', pricePerShare: '1', totalNewMoney: '500000',
+        investors: [{ personId: 'seed', name: 'Seed', amount: '500000' }],
+        createNewShareClass: true, antiDilution: 'broad_based_weighted_average'
+      }),
+      event('seriesA', 'priced_round', '2021-06-01', {
+        valuationInputType: 'price_per_share', pricePerShare: '0.5', totalNewMoney: '500000',
+        investors: [{ personId: 'lead', name: 'Lead', amount: '500000' }],
+        createNewShareClass: true
+      })
+    ]);
+
+    // 1.00 × (1,500,000 + 500,000) / (1,500,000 + 1,000,000)
+    const seedClass = state.shareClasses.find(sc => sc.id === 'seed:preferred')!;
+    expect(seedClass.conversionPrice).toBe('0.8');
+    expect(state.derivedOutputs.seriesA.antiDilution![0].additionalShares).toBe(125000);
+  });
+});
+
+describe('SAFE conversion', () => {
+  const safes = event('safes', 'safe_issuance', '2020-02-01', {
+    safes: [
+      { id: 'post-a', investorId: 'post-a', investorName: 'Post A', principalAmount: '1000000', valuationType: 'post_money', valuationCap: '10000000' },
+      { id: 'post-b', investorId: 'post-b', investorName: 'Post B', principalAmount: '500000', valuationType: 'post_money', valuationCap: '10000000' },
+      { id: 'pre', investorId: 'pre', investorName: 'Pre', principalAmount: '1000000', valuationType: 'pre_money', valuationCap: '9000000' }
+    ]
+  });
+
+  it('converts pre-money and post-money SAFEs against each other', () => {
+    const state = replay([
+      incorporation(9000000),
+      safes,
+      event('seriesA', 'priced_round', '2020-06-01', {
+        valuationInputType: 'pre_money', preMoneyValuation: '27000000', totalNewMoney: '3000000',
+        investors: [{ personId: 'lead', name: 'Lead', amount: '3000000' }]
+      })
+    ]);
+
+    // Post-money SAFEs own 10% and 5% of a capitalization that includes every SAFE:
+    // 10,000,000 / 85% = 11,764,705.88 shares. The pre-money SAFE converts on the
+    // 9,000,000 shares outstanding before the round, at a 1.00 cap price.
+    const breakdown = state.holdings.find(h => h.holderId === 'post-a')!.conversionBreakdown!;
+    expect(parseFloat(breakdown.capitalization).toFixed(2)).toBe('11764705.88');
+    expect(breakdown.method).toBe('cap');
+    expect(sharesOf(state, 'post-a')).toBe(1176471);
+    expect(sharesOf(state, 'post-b')).toBe(588235);
+    expect(state.holdings.find(h => h.holderId === 'pre')!.conversionBreakdown!.capitalization).toBe('9000000');
+    expect(sharesOf(state, 'pre')).toBe(1000000);
+    expect(sharesOf(state, 'lead')).toBe(1000000);
+  });
+});
+
+describe('dividends', () => {
+  const events = [
+    incorporation(1000000),
+    event('seriesA', 'priced_round', '2020-01-01', {
+      valuationInputType: 'price_per_share', pricePerShare: '1', totalNewMoney: '1000000',
+      investors: [{ personId: 'early', name: 'Early', amount: '1000000' }],
+      dividends: { ratePercent: '10', cumulative: true, compounding: 'simple', paymentForm: 'cash' }
+    }),
+    event('secondClose', 'round_closing', '2020-12-31', {
+      roundEventId: 'seriesA',
+      investors: [{ personId: 'late', name: 'Late', amount: '1000000' }]
+    })
+  ];
+
+  it('keeps accrual with the shares issued before a second closing', () => {
+    const state = replay(events);
+    const seriesA = state.shareClasses.find(sc => sc.id === 'seriesA:preferred')!;
+    const accruedFor = (holderId: string) =>
+      calculateAccruedDividends(seriesA, state.holdings.find(h => h.holderId === holderId && h.shareClassId === seriesA.id)!, '2021-12-31');
+
+    // Two years of 10% on 1,000,000 against one year for the second closing
+    expect(accruedFor('early').toFixed(2)).toBe('200000.00');
+    expect(accruedFor('late').toFixed(2)).toBe('100000.00');
+  });
+
+  it('pays each holder their own accrual in PIK shares that carry no arrears', () => {
+    const state = replay([
+      ...events,
+      event('pik', 'dividend_declaration', '2021-12-31', { shareClassId: 'seriesA:preferred', paymentForm: 'pik' })
+    ]);
+
+    expect(state.derivedOutputs.pik.dividendDeclaration!.payments).toEqual([
+      { holderId: 'early', amount: '200000.00', pikShares: 200000 },
+      { holderId: 'late', amount: '100000.00', pikShares: 100000 }
+    ]);
+    expect(sharesOf(state, 'early')).toBe(1200000);
+    expect(state.holdings.every(h => !h.unpaidDividends)).toBe(true);
+  });
+
+  it('adds each holder\'s arrears to their liquidation preference', () => {
+    const state = replay(events);
+    const waterfall = calculateExitWaterfall(state, 2500000, { exitDate: '2021-12-31' });
+
+    // Each preference is 1,000,000 plus that holder's accrued dividends
+    const proceeds = proceedsBy(waterfall);
+    expect(proceeds.early).toBe('1200000.00');
+    expect(proceeds.late).toBe('1100000.00');
+    expect(proceeds.founder).toBe('200000.00');
+  });
+});
+
+describe('pay-to-play', () => {
+  it('converts a holder who skips the round to common', () => {
+    const state = replay([
+      incorporation(8000000),
+      event('seriesA', 'priced_round', '2020-06-01', {
+        valuationInputType: 'pre_money', preMoneyValuation: '8000000', totalNewMoney: '2000000',
+        investors: [
+          { personId: 'keeps', name: 'Keeps Up', amount: '1000000' },
+          { personId: 'skips', name: 'Skips', amount: '1000000' }
+        ],
+        createNewShareClass: true
+      }),
+      event('seriesB', 'priced_round', '2021-06-01', {
+        valuationInputType: 'pre_money', preMoneyValuation: '5000000', totalNewMoney: '2000000',
+        investors: [
+          { personId: 'keeps', name: 'Keeps Up', amount: '500000' },
+          { personId: 'newcomer', name: 'Newcomer', amount: '1500000' }
+        ],
+        createNewShareClass: true, payToPlay: { conversion: 'common' }
+      })
+    ]);
+
+    expect(sharesOf(state, 'keeps', 'seriesA:preferred')).toBe(1000000);
+    expect(sharesOf(state, 'skips', 'seriesA:preferred')).toBe(0);
+    expect(sharesOf(state, 'skips', 'inc:common')).toBe(1000000);
+  });
+});
+
+describe('vesting', () => {
+  const schedule = { cliffMonths: 12, totalMonths: 48, vestingFrequency: 'monthly', initialCliffPercent: 25 };
+  const grant = (extra: Record<string, unknown> = {}) => [
+    incorporation(1000000, { esopPool: { inputMode: 'shares', shares: 100000 } }),
+    event('grant', 'esop_grant', '2020-01-31', {
+      employeeId: 'employee', employeeName: 'Employee', shares: 48000, strikePrice: '0.01',
+      vestingSchedule: { ...schedule, ...extra }
+    })
+  ];
+
+  it('vests on calendar months, clamping to the last day of shorter months', () => {
+    const state = replay(grant());
+    const option = state.holdings.find(h => h.holderId === 'employee')!;
+
+    expect(calculateVestedOptions(option, '2021-01-30', state)).toBe(0);
+    expect(calculateVestedOptions(option, '2021-01-31', state)).toBe(12000);
+    expect(calculateVestedOptions(option, '2021-02-27', state)).toBe(12000);
+    expect(calculateVestedOptions(option, '2021-02-28', state)).toBe(13000);
+    expect(calculateVestedOptions(option, '2024-01-31', state)).toBe(48000);
+  });
+
+  it('accelerates part of the unvested award on a single-trigger exit', () => {
+    const state = replay(grant({ acceleration: { trigger: 'single', percent: 50 } }));
+    const waterfall = calculateExitWaterfall(state, 1048000, { exitDate: '2021-01-31' });
+
+    // 12,000 vested at the cliff and half of the other 36,000 accelerated, net exercised
+    const employee = waterfall.distributions.find(d => d.holderId === 'employee')!;
+    expect(employee.method).toBe('option exercise, accelerated');
+    expect(employee.proceeds).toBe('30232.78');
+  });
+
+  it('releases double-trigger acceleration only when the holder is terminated', () => {
+    const state = replay(grant({ acceleration: { trigger: 'double', percent: 100 } }));
+
+    const retained = calculateExitWaterfall(state, 1048000, { exitDate: '2021-01-31' });
+    const terminated = calculateExitWaterfall(state, 1048000, { exitDate: '2021-01-31', doubleTriggerTermination: true });
+    expect(proceedsBy(retained).employee).toBe('12308.16');
+    expect(proceedsBy(terminated).employee).toBe('47541.77');
+  });
+});
+
+describe('option exercise', () => {
+  const exercise = (data: Record<string, unknown>) => replay([
+    incorporation(1000000, { esopPool: { inputMode: 'shares', shares: 100000 } }),
+    event('grant', 'esop_grant', '2020-01-01', { employeeId: 'employee', employeeName: 'Employee', shares: 10000, strikePrice: '1' }),
+    event('exercise', 'option_exercise', '2021-01-01', {
+      employeeId: 'employee', shares: 10000, fairMarketValue: '4', taxWithholdingPercent: 0, ...data
+    })
+  ], { withheldSharePolicy: 'retire' });
+
+  it('withholds shares worth the strike on a net exercise', () => {
+    const state = exercise({ method: 'net' });
+
+    expect(sharesOf(state, 'employee')).toBe(7500);
+    expect(state.derivedOutputs.exercise.optionExercise!.withholding!.sharesForStrike).toBe(2500);
+  });
+
+  it('issues every share on a cashless exercise and sells enough to cover to the buyer', () => {
+    const state = exercise({ method: 'cashless', buyerId: 'broker', buyerName: 'Broker' });
+
+    expect(sharesOf(state, 'employee')).toBe(7500);
+    expect(sharesOf(state, 'broker')).toBe(2500);
+    expect(state.derivedOutputs.exercise.optionExercise!.withholding!.buyerId).toBe('broker');
+  });
+
+  it('requires a buyer for a cashless exercise', () => {
+    expect(() => exercise({ method: 'cashless' })).toThrow(/buyer/i);
+  });
+});
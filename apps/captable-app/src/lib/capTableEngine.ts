@@ -15,13 +15,39 @@ import type {
   CapTableState,
   SecurityHolding,
   SAFE,
+  ConvertibleNote,
+  OutstandingConvertibleNote,
+  CommittedTranche,
   LegalCapTable,
   LegalCapTableRow,
   FullyDilutedCapTable,
   FullyDilutedCapTableRow,
   ExitWaterfall,
+  ExitWaterfallOptions,
   ExitDistribution,
   OwnershipSnapshot,
+  SplitRoundingPolicy,
+  RepurchaseDisposition,
+  VestingSchedule,
+  VestingTranche,
+  VestingFrequency,
+  VestingProjection,
+  VestingProjectionTranche,
+  VestingProjectionPoint,
+  ShareClass,
+  AntiDilutionAdjustment,
+  ConversionBreakdown,
+  ConversionMethod,
+  ValuationType,
+  ProRataAllocation,
+  ProRataStatus,
+  PayToPlayOutcome,
+  RedemptionObligation,
+  Section83bElection,
+  ExerciseWithholding,
+  OptionExerciseEventData,
+  AuthorizedShareUsage,
+  CapTableSettings,
 } from '../types';
 
 // Configure Decimal.js for high precision
@@ -35,6 +61,7 @@ Decimal.set({
 // =============================================================================
 
 export const ESOP_POOL_HOLDER_ID = '__esop_pool__';
+export const TREASURY_HOLDER_ID = '__treasury__';
 
 const EVENT_TYPES: Record<string, EventType> = {
   INCORPORATION: 'incorporation',
@@ -43,7 +70,25 @@ const EVENT_TYPES: Record<string, EventType> = {
   ESOP_POOL_CREATION: 'esop_pool_creation',
   ESOP_POOL_EXTENSION: 'esop_pool_extension',
   ESOP_GRANT: 'esop_grant',
-  OPTION_EXERCISE: 'option_exercise'
+  OPTION_EXERCISE: 'option_exercise',
+  SECONDARY_TRANSFER: 'secondary_transfer',
+  SHARE_REPURCHASE: 'share_repurchase',
+  EMPLOYEE_TERMINATION: 'employee_termination',
+  STOCK_SPLIT: 'stock_split',
+  CONVERTIBLE_NOTE_ISSUANCE: 'convertible_note_issuance',
+  WARRANT_ISSUANCE: 'warrant_issuance',
+  WARRANT_EXERCISE: 'warrant_exercise',
+  RESTRICTED_STOCK_AWARD: 'restricted_stock_award',
+  FOUNDER_DEPARTURE: 'founder_departure',
+  RSU_GRANT: 'rsu_grant',
+  RSU_SETTLEMENT: 'rsu_settlement',
+  SHARE_CLASS_CONVERSION: 'share_class_conversion',
+  ROUND_CLOSING: 'round_closing',
+  TRANCHE_RELEASE: 'tranche_release',
+  SAFE_CANCELLATION: 'safe_cancellation',
+  DIVIDEND_DECLARATION: 'dividend_declaration',
+  SHARE_REDEMPTION: 'share_redemption',
+  AUTHORIZED_SHARE_INCREASE: 'authorized_share_increase'
 };
 
 const PERSON_TYPES: Record<string, PersonType> = {
@@ -52,9 +97,19 @@ const PERSON_TYPES: Record<string, PersonType> = {
   ADVISOR: 'advisor',
   INVESTOR: 'investor',
   OTHER: 'other',
-  ESOP_POOL: 'esop_pool'
+  ESOP_POOL: 'esop_pool',
+  TREASURY: 'treasury'
 };
 
+const VESTING_FREQUENCY_MONTHS: Record<VestingFrequency, number> = {
+  monthly: 1,
+  quarterly: 3,
+  yearly: 12
+};
+
+// An 83(b) election must be filed within 30 days of buying unvested shares
+const SECTION_83B_WINDOW_DAYS = 30;
+
 const SHARE_CLASS_TYPES: Record<string, ShareClassType> = {
   COMMON: 'common',
   PREFERRED: 'preferred',
@@ -117,6 +172,14 @@ function distributeSharesByLargestRemainder(
   }));
 }
 
+/**
+ * Share class ids are derived from the event that creates the class so they stay
+ * stable across replays and can be referenced from later event data.
+ */
+function shareClassIdForEvent(eventId: string, kind: string): string {
+  return `${eventId}:${kind}`;
+}
+
 function calculateESOPPoolFromPercent(existingShares: number | string | Decimal, targetPercent: number): number {
   const existing = toDecimal(existingShares);
   const p = toDecimal(targetPercent);
@@ -149,7 +212,7 @@ function calculateESOPExtension(
 // STATE MANAGEMENT
 // =============================================================================
 
-export function createInitialState(companyId: string): CapTableState {
+export function createInitialState(companyId: string, settings: CapTableSettings = {}): CapTableState {
   return {
     companyId,
     asOfEventId: null,
@@ -157,8 +220,14 @@ export function createInitialState(companyId: string): CapTableState {
     shareClasses: [],
     holdings: [],
     safes: [],
+    convertibleNotes: [],
+    tranches: [],
     people: [],
-    vestingSchedules: []
+    vestingSchedules: [],
+    authorizedShares: settings.authorizedShares || null,
+    authorizedShareEnforcement: settings.authorizedShareEnforcement || 'warning',
+    withheldSharePolicy: settings.withheldSharePolicy || 'return_to_pool',
+    derivedOutputs: {}
   };
 }
 
@@ -175,6 +244,15 @@ export function applyEvent(state: CapTableState, event: EventBase): CapTableStat
   newState.asOfEventId = event.id;
   newState.asOfDate = event.date;
 
+  expireLapsedOptions(newState, event.date);
+
+  const result = applyEventByType(newState, event);
+  startDividendAccrual(result, event.date);
+  checkAuthorizedShares(state, result, event);
+  return result;
+}
+
+function applyEventByType(newState: CapTableState, event: EventBase): CapTableState {
   switch (event.type) {
     case EVENT_TYPES.INCORPORATION:
       return applyIncorporation(newState, event);
@@ -190,12 +268,48 @@ export function applyEvent(state: CapTableState, event: EventBase): CapTableStat
       return applyESOPGrant(newState, event);
     case EVENT_TYPES.OPTION_EXERCISE:
       return applyOptionExercise(newState, event);
+    case EVENT_TYPES.SECONDARY_TRANSFER:
+      return applySecondaryTransfer(newState, event);
+    case EVENT_TYPES.SHARE_REPURCHASE:
+      return applyShareRepurchase(newState, event);
+    case EVENT_TYPES.EMPLOYEE_TERMINATION:
+      return applyEmployeeTermination(newState, event);
+    case EVENT_TYPES.STOCK_SPLIT:
+      return applyStockSplit(newState, event);
+    case EVENT_TYPES.CONVERTIBLE_NOTE_ISSUANCE:
+      return applyConvertibleNoteIssuance(newState, event);
+    case EVENT_TYPES.WARRANT_ISSUANCE:
+      return applyWarrantIssuance(newState, event);
+    case EVENT_TYPES.WARRANT_EXERCISE:
+      return applyWarrantExercise(newState, event);
+    case EVENT_TYPES.RESTRICTED_STOCK_AWARD:
+      return applyRestrictedStockAward(newState, event);
+    case EVENT_TYPES.FOUNDER_DEPARTURE:
+      return applyFounderDeparture(newState, event);
+    case EVENT_TYPES.RSU_GRANT:
+      return applyRSUGrant(newState, event);
+    case EVENT_TYPES.RSU_SETTLEMENT:
+      return applyRSUSettlement(newState, event);
+    case EVENT_TYPES.SHARE_CLASS_CONVERSION:
+      return applyShareClassConversion(newState, event);
+    case EVENT_TYPES.ROUND_CLOSING:
+      return applyRoundClosing(newState, event);
+    case EVENT_TYPES.TRANCHE_RELEASE:
+      return applyTrancheRelease(newState, event);
+    case EVENT_TYPES.SAFE_CANCELLATION:
+      return applySAFECancellation(newState, event);
+    case EVENT_TYPES.DIVIDEND_DECLARATION:
+      return applyDividendDeclaration(newState, event);
+    case EVENT_TYPES.SHARE_REDEMPTION:
+      return applyShareRedemption(newState, event);
+    case EVENT_TYPES.AUTHORIZED_SHARE_INCREASE:
+      return applyAuthorizedShareIncrease(newState, event);
     default:
       throw new Error(`Unknown event type: ${event.type}`);
   }
 }
 
-export function replayAllEvents(companyId: string, events: EventBase[]): {
+export function replayAllEvents(companyId: string, events: EventBase[], settings: CapTableSettings = {}): {
   finalState: CapTableState;
   snapshots: { eventId: string; date: string; label: string; state: CapTableState }[];
 } {
@@ -203,7 +317,7 @@ export function replayAllEvents(companyId: string, events: EventBase[]): {
     new Date(a.date).getTime() - new Date(b.date).getTime()
   );
 
-  let state = createInitialState(companyId);
+  let state = createInitialState(companyId, settings);
   const snapshots: { eventId: string; date: string; label: string; state: CapTableState }[] = [];
 
   for (const event of sortedEvents) {
@@ -226,7 +340,7 @@ export function replayAllEvents(companyId: string, events: EventBase[]): {
 function applyIncorporation(state: CapTableState, event: EventBase): CapTableState {
   const data = event.data as any;
   
-  const commonClassId = uuidv4();
+  const commonClassId = shareClassIdForEvent(event.id, SHARE_CLASS_TYPES.COMMON);
   state.shareClasses.push({
     id: commonClassId,
     name: 'Common',
@@ -235,7 +349,8 @@ function applyIncorporation(state: CapTableState, event: EventBase): CapTableSta
     liquidationPreferenceMultiple: 1.0,
     participation: 'non_participating',
     isConvertibleToCommon: false,
-    pricePerShare: data.pricePerShare || '0.0001'
+    pricePerShare: data.pricePerShare || '0.0001',
+    authorizedShares: parseInt(data.commonAuthorizedShares, 10) || undefined
   });
 
   if (data.esopPool) {
@@ -282,18 +397,26 @@ function applyIncorporation(state: CapTableState, event: EventBase): CapTableSta
     }
     
     const allocation = founderAllocations.find(a => a.personId === founder.personId);
+    const vestingScheduleId = addVestingSchedule(state, founder.vestingSchedule);
     state.holdings.push({
       id: uuidv4(),
       holderId: founder.personId,
       shareClassId: commonClassId,
       quantity: String(allocation?.shares || 0),
       sourceEventId: event.id,
-      isOption: false
+      isOption: false,
+      ...(vestingScheduleId && {
+        vestingScheduleId,
+        vestingStartDate: founder.vestingStartDate || event.date,
+        grantDate: event.date,
+        grantedShares: String(allocation?.shares || 0),
+        purchasePrice: data.pricePerShare || '0.0001'
+      })
     });
   }
 
   if (data.esopPool) {
-    const optionClassId = uuidv4();
+    const optionClassId = shareClassIdForEvent(event.id, SHARE_CLASS_TYPES.OPTION);
     state.shareClasses.push({
       id: optionClassId,
       name: 'Employee Options',
@@ -330,16 +453,61 @@ function applyPricedRound(state: CapTableState, event: EventBase): CapTableState
   
   const preRoundMetrics = calculatePreRoundMetrics(state);
   const preRoundFD = toDecimal(preRoundMetrics.fullyDilutedShares);
+  const proRataAllocations = calculateProRataAllocations(state, data.proRataRoundSize || data.totalNewMoney);
+  const priorPreferredClasses = state.shareClasses.filter(sc => sc.type === SHARE_CLASS_TYPES.PREFERRED);
+  // Pay-to-play measures every prior preferred holder against their pro-rata share,
+  // whether or not they hold contractual pro-rata rights
+  const payToPlayAllocations = data.payToPlay
+    ? calculateProRataAllocations(state, data.proRataRoundSize || data.totalNewMoney, [
+        ...new Set(
+          state.holdings
+            .filter(h => !h.isOption && h.holderId !== TREASURY_HOLDER_ID
+              && priorPreferredClasses.some(sc => sc.id === h.shareClassId))
+            .map(h => h.holderId)
+        )
+      ])
+    : [];
   
-  const safesToConvert = data.safesToConvert || state.safes.filter((s: SAFE) => !s.convertedInEventId).map((s: SAFE) => s.id);
+  const safesToConvert = data.safesToConvert || state.safes.filter(isOutstandingSAFE).map((s: SAFE) => s.id);
   const convertingSafes = safesToConvert
     .map((id: string) => state.safes.find((s: SAFE) => s.id === id))
-    .filter((s: SAFE | undefined): s is SAFE => !!s && !s.convertedInEventId);
+    .filter((s: SAFE | undefined): s is SAFE => !!s && isOutstandingSAFE(s));
+
+  const notesToConvert = data.notesToConvert || state.convertibleNotes.filter(n => !n.convertedInEventId).map(n => n.id);
+  const convertingNotes = notesToConvert
+    .map((id: string) => state.convertibleNotes.find(n => n.id === id))
+    .filter((n: ConvertibleNote | undefined): n is ConvertibleNote => !!n && !n.convertedInEventId);
   
   let pricePerShare: Decimal;
   let postMoneyValuation: Decimal;
   
   const totalCashInvestment = toDecimal(data.totalNewMoney);
+
+  // Notes convert at principal plus interest accrued up to the round date,
+  // priced against the pre-round capitalization like a pre-money SAFE
+  const convertingInstruments = [
+    ...convertingSafes,
+    ...convertingNotes.map((n: ConvertibleNote) => ({
+      id: n.id,
+      principalAmount: calculateNoteBalance(n, event.date).toString(),
+      valuationCap: n.valuationCap,
+      discountPercent: n.discountPercent
+    }))
+  ];
+  const tracksPoolTopUp = !!data.esopTargetPercent
+    && state.shareClasses.some(sc => sc.type === SHARE_CLASS_TYPES.OPTION);
+  const convertAt = (price: Decimal) => calculateSAFEConversions(
+    convertingInstruments,
+    price,
+    preRoundFD,
+    tracksPoolTopUp
+      ? {
+          targetPercent: data.esopTargetPercent / 100,
+          currentPool: getUnallocatedESOPPool(state),
+          newMoneyShares: totalCashInvestment.div(price)
+        }
+      : undefined
+  );
   
   if (data.valuationInputType === 'price_per_share') {
     pricePerShare = toDecimal(data.pricePerShare);
@@ -357,39 +525,9 @@ function applyPricedRound(state: CapTableState, event: EventBase): CapTableState
     
     // Iterate to converge on correct price with SAFE conversions
     for (let iter = 0; iter < 10; iter++) {
-      let totalNewShares = totalCashInvestment.div(pricePerShare);
-      let totalSafeSharesCalc = new Decimal(0);
-      
-      for (const safe of convertingSafes) {
-        const principal = toDecimal(safe.principalAmount);
-        
-        if (safe.valuationType === 'post_money' && safe.valuationCap) {
-          const cap = toDecimal(safe.valuationCap);
-          const ownershipPercent = principal.div(cap);
-          const totalSharesEstimate = preRoundFD.plus(totalNewShares).plus(totalSafeSharesCalc);
-          const safeShares = totalSharesEstimate.times(ownershipPercent).div(
-            new Decimal(1).minus(ownershipPercent)
-          );
-          totalSafeSharesCalc = totalSafeSharesCalc.plus(safeShares);
-        } else {
-          let effectivePrice = pricePerShare;
-          if (safe.valuationCap) {
-            const capPrice = toDecimal(safe.valuationCap).div(preRoundFD);
-            if (capPrice.lt(pricePerShare)) {
-              effectivePrice = capPrice;
-            }
-          }
-          if (safe.discountPercent && safe.discountPercent > 0) {
-            const discountPrice = pricePerShare.times(1 - safe.discountPercent / 100);
-            if (discountPrice.lt(effectivePrice)) {
-              effectivePrice = discountPrice;
-            }
-          }
-          const safeShares = principal.div(effectivePrice);
-          totalSafeSharesCalc = totalSafeSharesCalc.plus(safeShares);
-        }
-      }
-      
+      const totalNewShares = totalCashInvestment.div(pricePerShare);
+      const totalSafeSharesCalc = convertAt(pricePerShare).totalShares;
+
       const totalSharesAfter = preRoundFD.plus(totalNewShares).plus(totalSafeSharesCalc);
       const newPrice = postMoneyValuation.div(totalSharesAfter);
       
@@ -405,7 +543,7 @@ function applyPricedRound(state: CapTableState, event: EventBase): CapTableState
   // Create preferred share class
   let preferredClassId = data.shareClassId;
   if (!preferredClassId || data.createNewShareClass) {
-    preferredClassId = uuidv4();
+    preferredClassId = shareClassIdForEvent(event.id, SHARE_CLASS_TYPES.PREFERRED);
     const existingPreferred = state.shareClasses.filter(sc => sc.type === SHARE_CLASS_TYPES.PREFERRED);
     state.shareClasses.push({
       id: preferredClassId,
@@ -416,16 +554,33 @@ function applyPricedRound(state: CapTableState, event: EventBase): CapTableState
       participation: data.participation || 'non_participating',
       participationCapMultiple: data.participationCap,
       isConvertibleToCommon: true,
-      pricePerShare: pricePerShare.toString()
+      pricePerShare: pricePerShare.toString(),
+      antiDilution: data.antiDilution || 'none',
+      authorizedShares: parseInt(data.authorizedShares, 10) || undefined,
+      ...(data.dividends && parseFloat(data.dividends.ratePercent) > 0 && {
+        dividends: {
+          ratePercent: parseFloat(data.dividends.ratePercent),
+          cumulative: !!data.dividends.cumulative,
+          compounding: data.dividends.compounding || 'simple',
+          paymentForm: data.dividends.paymentForm || 'cash'
+        }
+      }),
+      ...(data.redemption?.earliestDate && {
+        redemption: {
+          earliestDate: data.redemption.earliestDate,
+          pricePerShare: data.redemption.pricePerShare || pricePerShare.toString(),
+          instalments: Math.max(parseInt(data.redemption.instalments, 10) || 1, 1),
+          instalmentIntervalMonths: parseInt(data.redemption.instalmentIntervalMonths, 10) || 12
+        }
+      })
     });
   }
 
-  // Convert SAFEs
-  for (const safeId of safesToConvert) {
-    const safe = state.safes.find((s: SAFE) => s.id === safeId);
-    if (!safe || safe.convertedInEventId) continue;
+  const conversions = convertAt(pricePerShare);
 
-    const conversionResult = calculateSAFEConversion(safe, pricePerShare, preRoundMetrics);
+  // Convert SAFEs
+  for (const safe of convertingSafes) {
+    const breakdown = conversions.breakdowns[safe.id];
     
     if (!state.people.find(p => p.id === safe.investorId)) {
       state.people.push({
@@ -439,85 +594,229 @@ function applyPricedRound(state: CapTableState, event: EventBase): CapTableState
       id: uuidv4(),
       holderId: safe.investorId,
       shareClassId: preferredClassId,
-      quantity: String(conversionResult.shares),
+      quantity: String(breakdown.shares),
       sourceEventId: event.id,
       isOption: false,
-      investmentAmount: safe.principalAmount
+      investmentAmount: safe.principalAmount,
+      conversionBreakdown: breakdown
     });
 
     safe.convertedInEventId = event.id;
   }
 
-  // Issue new shares to cash investors
-  const investors = (data.investors || []).filter((inv: any) => inv.amount && parseFloat(inv.amount) > 0);
-  const totalCashInvestmentActual = investors.reduce(
-    (sum: Decimal, inv: any) => sum.plus(toDecimal(inv.amount || 0)), 
-    new Decimal(0)
-  );
-  const totalNewShares = totalCashInvestmentActual.isZero() ? new Decimal(0) : totalCashInvestmentActual.div(pricePerShare);
-  
-  if (investors.length > 0 && !totalCashInvestmentActual.isZero()) {
-    const investorAllocations = investors.map((inv: any) => ({
-      id: inv.personId,
-      proportion: toDecimal(inv.amount || 0).div(totalCashInvestmentActual)
-    }));
-    
-    const distribution = distributeSharesByLargestRemainder(
-      roundShares(totalNewShares),
-      investorAllocations
-    );
-
-    for (const investor of investors) {
-      if (!state.people.find(p => p.id === investor.personId)) {
-        state.people.push({
-          id: investor.personId,
-          name: investor.name,
-          type: PERSON_TYPES.INVESTOR as PersonType
-        });
-      }
+  // Convert notes
+  for (const note of convertingNotes) {
+    const breakdown = conversions.breakdowns[note.id];
 
-      const allocation = distribution.find(d => d.id === investor.personId);
-      state.holdings.push({
-        id: uuidv4(),
-        holderId: investor.personId,
-        shareClassId: preferredClassId,
-        quantity: String(allocation?.shares || 0),
-        sourceEventId: event.id,
-        isOption: false,
-        investmentAmount: investor.amount
+    if (!state.people.find(p => p.id === note.investorId)) {
+      state.people.push({
+        id: note.investorId,
+        name: note.investorName || 'Noteholder',
+        type: PERSON_TYPES.INVESTOR as PersonType
       });
     }
+
+    state.holdings.push({
+      id: uuidv4(),
+      holderId: note.investorId,
+      shareClassId: preferredClassId,
+      quantity: String(breakdown.shares),
+      sourceEventId: event.id,
+      isOption: false,
+      investmentAmount: note.principalAmount,
+      conversionBreakdown: breakdown
+    });
+
+    note.convertedInEventId = event.id;
   }
 
-  // Handle ESOP pool target
-  if (data.esopTargetPercent) {
-    const postRoundMetrics = calculatePreRoundMetrics(state);
-    const optionClass = state.shareClasses.find(sc => sc.type === SHARE_CLASS_TYPES.OPTION);
-    
-    if (optionClass) {
-      const currentPool = getUnallocatedESOPPool(state);
-      const extension = calculateESOPExtension(
-        postRoundMetrics.fullyDilutedShares,
-        currentPool,
-        data.esopTargetPercent / 100
-      );
+  issueRoundShares(state, event, data.investors || [], pricePerShare, preferredClassId);
+
+  // Later closings of this round reuse its price and share class
+  state.derivedOutputs[event.id] = {
+    ...state.derivedOutputs[event.id],
+    eventId: event.id,
+    pricedRound: { shareClassId: preferredClassId, pricePerShare: pricePerShare.toString() },
+    ...(proRataAllocations.length > 0 && {
+      proRata: proRataAllocations.map(allocation => {
+        const invested = (data.investors || [])
+          .filter((inv: any) => inv.personId === allocation.holderId)
+          .reduce((sum: Decimal, inv: any) => sum.plus(toDecimal(inv.amount || 0)), new Decimal(0));
+        const status: ProRataStatus = invested.isZero()
+          ? 'waived'
+          : invested.gte(toDecimal(allocation.allocation)) ? 'exercised' : 'under_exercised';
+        return { ...allocation, invested: invested.toString(), status };
+      })
+    })
+  };
 
-      if (extension > 0) {
-        const poolHolding = state.holdings.find(
-          h => h.holderId === ESOP_POOL_HOLDER_ID && h.isOption
-        );
-        if (poolHolding) {
-          poolHolding.quantity = String(parseInt(poolHolding.quantity, 10) + extension);
-        }
-      }
+  // Milestone tranches are committed at the round price but issued only on release
+  for (const [index, tranche] of (data.tranches || []).entries()) {
+    if (!tranche.amount || parseFloat(tranche.amount) <= 0) continue;
+
+    state.tranches.push({
+      id: tranche.id || `${event.id}:tranche-${index + 1}`,
+      roundEventId: event.id,
+      investorId: tranche.personId,
+      investorName: tranche.name,
+      amount: tranche.amount,
+      milestone: tranche.milestone || '',
+      shareClassId: preferredClassId,
+      pricePerShare: pricePerShare.toString()
+    });
+  }
+
+  // Non-participants convert before anti-dilution runs, so they lose its protection too
+  if (data.payToPlay) {
+    const outcomes = applyPayToPlay(state, event, payToPlayAllocations, priorPreferredClasses);
+    state.derivedOutputs[event.id] = {
+      ...state.derivedOutputs[event.id],
+      eventId: event.id,
+      payToPlay: outcomes
+    };
+  }
+
+  applyAntiDilution(state, event, pricePerShare, preRoundMetrics, preferredClassId);
+
+  // Top up the ESOP pool by the increase the post-money SAFEs were priced against
+  if (tracksPoolTopUp && conversions.poolIncrease > 0) {
+    const poolHolding = state.holdings.find(
+      h => h.holderId === ESOP_POOL_HOLDER_ID && h.isOption
+    );
+    if (poolHolding) {
+      poolHolding.quantity = String(parseInt(poolHolding.quantity, 10) + conversions.poolIncrease);
+    }
+  }
+
+  return state;
+}
+
+function applyRoundClosing(state: CapTableState, event: EventBase): CapTableState {
+  const data = event.data as any;
+
+  const round = state.derivedOutputs[data.roundEventId]?.pricedRound;
+  const roundClass = state.shareClasses.find(sc => sc.id === round?.shareClassId);
+  if (!round || !roundClass) {
+    throw new Error('Round closings must reference an earlier priced round');
+  }
+
+  const investors = (data.investors || []).filter((inv: any) => inv.amount && parseFloat(inv.amount) > 0);
+  if (investors.length === 0) {
+    throw new Error('A closing needs at least one investor');
+  }
+
+  // SAFE conversion and the ESOP top-up already happened at the first closing
+  const preClosingMetrics = calculatePreRoundMetrics(state);
+  // The class carries the round price as adjusted by any splits since the first closing
+  const pricePerShare = toDecimal(roundClass.pricePerShare || round.pricePerShare);
+  issueRoundShares(state, event, investors, pricePerShare, round.shareClassId);
+  applyAntiDilution(state, event, pricePerShare, preClosingMetrics, round.shareClassId);
+
+  return state;
+}
+
+function applyTrancheRelease(state: CapTableState, event: EventBase): CapTableState {
+  const data = event.data as any;
+
+  const trancheIds: string[] = data.trancheIds || [];
+  if (trancheIds.length === 0) {
+    throw new Error('Select at least one tranche to release');
+  }
+
+  for (const trancheId of trancheIds) {
+    const tranche = state.tranches.find(t => t.id === trancheId);
+    if (!tranche) {
+      throw new Error('Tranche not found');
+    }
+    if (tranche.releasedInEventId) {
+      throw new Error(`Tranche "${tranche.milestone}" has already been released`);
+    }
+
+    // The investor joins the cap table only once the tranche is funded
+    if (!state.people.find(p => p.id === tranche.investorId)) {
+      state.people.push({
+        id: tranche.investorId,
+        name: tranche.investorName || 'Investor',
+        type: PERSON_TYPES.INVESTOR as PersonType
+      });
     }
+
+    const shares = roundShares(toDecimal(tranche.amount).div(toDecimal(tranche.pricePerShare)));
+    state.holdings.push({
+      id: uuidv4(),
+      holderId: tranche.investorId,
+      shareClassId: tranche.shareClassId,
+      quantity: String(shares),
+      sourceEventId: event.id,
+      isOption: false,
+      investmentAmount: tranche.amount
+    });
+
+    tranche.releasedInEventId = event.id;
   }
 
   return state;
 }
 
+/**
+ * Issues preferred shares to a round's cash investors at the round price,
+ * splitting the rounded share total by largest remainder.
+ */
+function issueRoundShares(
+  state: CapTableState,
+  event: EventBase,
+  roundInvestors: any[],
+  pricePerShare: Decimal,
+  shareClassId: string
+): void {
+  const investors = roundInvestors.filter((inv: any) => inv.amount && parseFloat(inv.amount) > 0);
+  const totalCashInvestment = investors.reduce(
+    (sum: Decimal, inv: any) => sum.plus(toDecimal(inv.amount || 0)), 
+    new Decimal(0)
+  );
+  if (investors.length === 0 || totalCashInvestment.isZero()) return;
+
+  const investorAllocations = investors.map((inv: any) => ({
+    id: inv.personId,
+    proportion: toDecimal(inv.amount || 0).div(totalCashInvestment)
+  }));
+  
+  const distribution = distributeSharesByLargestRemainder(
+    roundShares(totalCashInvestment.div(pricePerShare)),
+    investorAllocations
+  );
+
+  for (const investor of investors) {
+    let person = state.people.find(p => p.id === investor.personId);
+    if (!person) {
+      person = {
+        id: investor.personId,
+        name: investor.name,
+        type: PERSON_TYPES.INVESTOR as PersonType
+      };
+      state.people.push(person);
+    }
+    if (investor.proRataRights) {
+      person.hasProRataRights = true;
+    }
+
+    const allocation = distribution.find(d => d.id === investor.personId);
+    state.holdings.push({
+      id: uuidv4(),
+      holderId: investor.personId,
+      shareClassId,
+      quantity: String(allocation?.shares || 0),
+      sourceEventId: event.id,
+      isOption: false,
+      investmentAmount: investor.amount
+    });
+  }
+}
+
 function applySAFEIssuance(state: CapTableState, event: EventBase): CapTableState {
   const data = event.data as any;
+
+  const earlierSafes = [...state.safes];
   
   for (const safe of (data.safes || [data])) {
     if (!state.people.find(p => p.id === safe.investorId)) {
@@ -534,8 +833,8 @@ function applySAFEIssuance(state: CapTableState, event: EventBase): CapTableStat
       investorName: safe.investorName,
       principalAmount: safe.principalAmount,
       valuationType: safe.valuationType || 'post_money',
-      valuationCap: safe.valuationCap,
-      discountPercent: safe.discountPercent,
+      valuationCap: safe.valuationCap || undefined,
+      discountPercent: safe.discountPercent ? parseFloat(safe.discountPercent) : undefined,
       mostFavoredNation: safe.mostFavoredNation || false,
       issueDate: event.date,
       conversionShareClassId: safe.conversionShareClassId,
@@ -543,6 +842,288 @@ function applySAFEIssuance(state: CapTableState, event: EventBase): CapTableStat
     });
   }
 
+  const newSafes = state.safes.slice(earlierSafes.length);
+  for (const mfnSafe of earlierSafes.filter(s => s.mostFavoredNation && isOutstandingSAFE(s))) {
+    for (const laterSafe of newSafes) {
+      applyMFNTerms(mfnSafe, laterSafe);
+    }
+  }
+
+  return state;
+}
+
+function applySAFECancellation(state: CapTableState, event: EventBase): CapTableState {
+  const data = event.data as any;
+
+  const safeIds: string[] = data.safeIds || [];
+  if (safeIds.length === 0) {
+    throw new Error('Select at least one SAFE to cancel');
+  }
+
+  const cancelled: SAFE[] = [];
+  for (const safeId of safeIds) {
+    const safe = state.safes.find(s => s.id === safeId);
+    if (!safe) {
+      throw new Error('SAFE not found');
+    }
+    if (safe.convertedInEventId) {
+      throw new Error(`${safe.investorName || 'The'} SAFE has already converted and cannot be cancelled`);
+    }
+    if (safe.cancelledInEventId) {
+      throw new Error(`${safe.investorName || 'The'} SAFE has already been cancelled`);
+    }
+    cancelled.push(safe);
+  }
+
+  for (const safe of cancelled) {
+    safe.cancelledInEventId = event.id;
+  }
+
+  state.derivedOutputs[event.id] = {
+    eventId: event.id,
+    safeCancellation: {
+      safes: cancelled,
+      refundAmount: toDecimal(data.refundAmount || 0).toString()
+    }
+  };
+
+  return state;
+}
+
+function applyDividendDeclaration(state: CapTableState, event: EventBase): CapTableState {
+  const data = event.data as any;
+
+  const shareClass = state.shareClasses.find(sc => sc.id === data.shareClassId);
+  if (!shareClass) {
+    throw new Error('Share class not found');
+  }
+
+  const paymentForm = data.paymentForm || shareClass.dividends?.paymentForm || 'cash';
+  const issuePrice = toDecimal(shareClass.pricePerShare || 0);
+  if (paymentForm === 'pik' && issuePrice.isZero()) {
+    throw new Error(`${shareClass.name} has no issue price to value PIK shares at`);
+  }
+
+  // Treasury shares are not outstanding and receive nothing
+  const holdings = state.holdings.filter(
+    h => h.shareClassId === shareClass.id && !h.isOption && h.holderId !== TREASURY_HOLDER_ID
+  );
+
+  // Each lot is paid the declared amount per share, or else what it has accrued itself.
+  // A holder may own several lots of the class; each holder is paid once on the combined position.
+  const amountsByHolder = new Map<string, Decimal>();
+  let totalAmount = new Decimal(0);
+  let totalShares = 0;
+  for (const holding of holdings) {
+    const accrued = calculateAccruedDividends(shareClass, holding, event.date);
+    const amount = data.amountPerShare ? toDecimal(data.amountPerShare).times(holding.quantity) : accrued;
+    amountsByHolder.set(holding.holderId, (amountsByHolder.get(holding.holderId) || new Decimal(0)).plus(amount));
+    totalAmount = totalAmount.plus(amount);
+    totalShares += parseInt(holding.quantity, 10);
+
+    // Accrual restarts now, carrying forward anything a cumulative class was not paid
+    holding.dividendsAccruedFromDate = event.date;
+    holding.unpaidDividends = shareClass.dividends?.cumulative && accrued.gt(amount)
+      ? accrued.minus(amount).toString()
+      : undefined;
+  }
+  if (totalAmount.lte(0)) {
+    throw new Error(`No dividend is payable on ${shareClass.name}`);
+  }
+
+  const payments: { holderId: string; amount: string; pikShares: number }[] = [];
+  let totalPikShares = 0;
+  for (const [holderId, amount] of amountsByHolder) {
+    const pikShares = paymentForm === 'pik' ? roundShares(amount.div(issuePrice)) : 0;
+    payments.push({ holderId, amount: amount.toFixed(2), pikShares });
+    totalPikShares += pikShares;
+  }
+
+  // PIK shares start accruing now and carry none of the arrears left unpaid on the shares they were paid on
+  for (const payment of payments.filter(p => p.pikShares > 0)) {
+    state.holdings.push({
+      id: uuidv4(),
+      holderId: payment.holderId,
+      shareClassId: shareClass.id,
+      quantity: String(payment.pikShares),
+      sourceEventId: event.id,
+      isOption: false
+    });
+  }
+  const amountPerShare = data.amountPerShare ? toDecimal(data.amountPerShare) : totalAmount.div(totalShares);
+
+  state.derivedOutputs[event.id] = {
+    eventId: event.id,
+    dividendDeclaration: {
+      shareClassId: shareClass.id,
+      amountPerShare: amountPerShare.toString(),
+      paymentForm,
+      totalAmount: totalAmount.toFixed(2),
+      pikShares: totalPikShares,
+      payments
+    }
+  };
+
+  return state;
+}
+
+function applyShareRedemption(state: CapTableState, event: EventBase): CapTableState {
+  const data = event.data as any;
+
+  const shareClass = state.shareClasses.find(sc => sc.id === data.shareClassId);
+  if (!shareClass?.redemption) {
+    throw new Error('Share class has no redemption rights');
+  }
+  if (event.date < shareClass.redemption.earliestDate) {
+    throw new Error(`${shareClass.name} cannot be redeemed before ${shareClass.redemption.earliestDate}`);
+  }
+
+  const obligation = calculateRedemptionObligations(state, event.date)
+    .find(o => o.shareClassId === shareClass.id)!;
+  const sharesByHolder = new Map<string, number>();
+  for (const holding of state.holdings) {
+    if (holding.shareClassId !== shareClass.id || holding.isOption || holding.holderId === TREASURY_HOLDER_ID) continue;
+    sharesByHolder.set(holding.holderId, (sharesByHolder.get(holding.holderId) || 0) + parseInt(holding.quantity, 10));
+  }
+
+  // A named holder is due their pro-rata part of the shares due across the class
+  const dueShares = data.holderId
+    ? roundShares(toDecimal(obligation.dueShares).times(sharesByHolder.get(data.holderId) || 0).div(obligation.outstandingShares || 1))
+    : obligation.dueShares;
+  const redeemShares = data.shares ? parseInt(data.shares, 10) || 0 : dueShares;
+  if (redeemShares <= 0) {
+    throw new Error(`No ${shareClass.name} shares are due for redemption`);
+  }
+  if (redeemShares > obligation.outstandingShares) {
+    throw new Error(`Insufficient shares. Outstanding: ${obligation.outstandingShares}, Requested: ${redeemShares}`);
+  }
+
+  const pricePerShare = toDecimal(data.pricePerShare || shareClass.redemption.pricePerShare);
+
+  // Without a named holder the redemption is taken pro rata across the class
+  const allocations = data.holderId
+    ? [{ id: data.holderId as string, shares: redeemShares }]
+    : distributeSharesByLargestRemainder(
+        redeemShares,
+        [...sharesByHolder].map(([id, shares]) => ({
+          id,
+          proportion: toDecimal(shares).div(obligation.outstandingShares)
+        }))
+      );
+
+  const redemptions: { holderId: string; shares: number; amount: string }[] = [];
+  for (const allocation of allocations) {
+    if (allocation.shares === 0) continue;
+    removeIssuedShares(state, allocation.id, shareClass.id, allocation.shares);
+    redemptions.push({
+      holderId: allocation.id,
+      shares: allocation.shares,
+      amount: pricePerShare.times(allocation.shares).toFixed(2)
+    });
+  }
+
+  shareClass.redemption.redeemedShares = (shareClass.redemption.redeemedShares || 0) + redeemShares;
+
+  state.derivedOutputs[event.id] = {
+    eventId: event.id,
+    shareRedemption: {
+      shareClassId: shareClass.id,
+      pricePerShare: pricePerShare.toString(),
+      shares: redeemShares,
+      totalPaid: pricePerShare.times(redeemShares).toFixed(2),
+      redemptions
+    }
+  };
+
+  return state;
+}
+
+function applyAuthorizedShareIncrease(state: CapTableState, event: EventBase): CapTableState {
+  const data = event.data as any;
+
+  const classChanges = (data.classes || []).filter((c: any) => parseInt(c.authorizedShares, 10) > 0);
+  if (!data.companyAuthorizedShares && classChanges.length === 0) {
+    throw new Error('Set at least one new authorized share limit');
+  }
+
+  const usage = calculateAuthorizedShareUsage(state);
+  const changes: { shareClassId?: string; name: string; previous: number | null; authorized: number }[] = [];
+
+  // An amendment may not authorize fewer shares than are already issued or reserved
+  const checkLimit = (name: string, authorized: number, used: AuthorizedShareUsage | undefined) => {
+    const inUse = used ? used.issued + used.reserved : 0;
+    if (authorized < inUse) {
+      throw new Error(`${name} cannot be authorized below the ${inUse.toLocaleString()} shares already issued or reserved`);
+    }
+  };
+
+  if (data.companyAuthorizedShares) {
+    const authorized = parseInt(data.companyAuthorizedShares, 10) || 0;
+    // The settings limit applies from incorporation, so a later amendment must raise it
+    if (state.authorizedShares !== null && authorized <= state.authorizedShares) {
+      throw new Error(
+        `The new limit must exceed the ${state.authorizedShares.toLocaleString()} shares already authorized. ` +
+        'Company settings hold the limit at incorporation; if they show a later limit, set the original one there'
+      );
+    }
+    checkLimit('The company', authorized, usage.find(u => !u.shareClassId));
+    changes.push({ name: 'Company', previous: state.authorizedShares, authorized });
+    state.authorizedShares = authorized;
+  }
+
+  for (const change of classChanges) {
+    const shareClass = state.shareClasses.find(sc => sc.id === change.shareClassId);
+    if (!shareClass || shareClass.type === SHARE_CLASS_TYPES.OPTION) {
+      throw new Error('Authorized share limits apply to common and preferred classes');
+    }
+
+    const authorized = parseInt(change.authorizedShares, 10);
+    checkLimit(shareClass.name, authorized, usage.find(u => u.shareClassId === shareClass.id));
+    changes.push({
+      shareClassId: shareClass.id,
+      name: shareClass.name,
+      previous: shareClass.authorizedShares ?? null,
+      authorized
+    });
+    shareClass.authorizedShares = authorized;
+  }
+
+  state.derivedOutputs[event.id] = {
+    eventId: event.id,
+    authorizedShareIncrease: { changes }
+  };
+
+  return state;
+}
+
+function applyConvertibleNoteIssuance(state: CapTableState, event: EventBase): CapTableState {
+  const data = event.data as any;
+
+  for (const note of (data.notes || [data])) {
+    if (!state.people.find(p => p.id === note.investorId)) {
+      state.people.push({
+        id: note.investorId,
+        name: note.investorName,
+        type: PERSON_TYPES.INVESTOR as PersonType
+      });
+    }
+
+    state.convertibleNotes.push({
+      id: note.id || uuidv4(),
+      investorId: note.investorId,
+      investorName: note.investorName,
+      principalAmount: note.principalAmount,
+      interestRatePercent: parseFloat(note.interestRatePercent) || 0,
+      interestType: note.interestType || 'simple',
+      valuationCap: note.valuationCap || undefined,
+      discountPercent: note.discountPercent ? parseFloat(note.discountPercent) : undefined,
+      issueDate: event.date,
+      maturityDate: note.maturityDate || undefined,
+      conversionShareClassId: note.conversionShareClassId,
+      notes: note.notes
+    });
+  }
+
   return state;
 }
 
@@ -559,7 +1140,7 @@ function applyESOPPoolCreation(state: CapTableState, event: EventBase): CapTable
 
   let optionClass = state.shareClasses.find(sc => sc.type === SHARE_CLASS_TYPES.OPTION);
   if (!optionClass) {
-    const optionClassId = uuidv4();
+    const optionClassId = shareClassIdForEvent(event.id, SHARE_CLASS_TYPES.OPTION);
     state.shareClasses.push({
       id: optionClassId,
       name: 'Employee Options',
@@ -652,26 +1233,9 @@ function applyESOPGrant(state: CapTableState, event: EventBase): CapTableState {
     grantShares = parseInt(data.shares, 10) || 0;
   }
 
-  const poolHolding = state.holdings.find(
-    h => h.holderId === ESOP_POOL_HOLDER_ID && h.shareClassId === optionClass.id
-  );
-
-  if (poolHolding) {
-    const currentPool = parseInt(poolHolding.quantity, 10);
-    if (currentPool < grantShares) {
-      throw new Error(`Insufficient ESOP pool. Available: ${currentPool}, Requested: ${grantShares}`);
-    }
-    poolHolding.quantity = String(currentPool - grantShares);
-  }
+  drawFromPool(state, optionClass.id, grantShares);
 
-  let vestingScheduleId = data.vestingScheduleId;
-  if (data.vestingSchedule && !vestingScheduleId) {
-    vestingScheduleId = uuidv4();
-    state.vestingSchedules.push({
-      id: vestingScheduleId,
-      ...data.vestingSchedule
-    });
-  }
+  const vestingScheduleId = addVestingSchedule(state, data.vestingSchedule, data.vestingScheduleId);
 
   state.holdings.push({
     id: uuidv4(),
@@ -683,7 +1247,9 @@ function applyESOPGrant(state: CapTableState, event: EventBase): CapTableState {
     strikePrice: data.strikePrice,
     vestingScheduleId: vestingScheduleId,
     vestingStartDate: data.vestingStartDate || event.date,
-    grantDate: event.date
+    grantDate: event.date,
+    grantedShares: String(grantShares),
+    ...(data.allowEarlyExercise && { allowEarlyExercise: true })
   });
 
   return state;
@@ -700,7 +1266,7 @@ function applyOptionExercise(state: CapTableState, event: EventBase): CapTableSt
   }
 
   const optionHolding = state.holdings.find(
-    h => h.holderId === data.employeeId && h.shareClassId === optionClass.id && h.isOption
+    h => h.holderId === data.employeeId && h.shareClassId === optionClass.id && h.isOption && !h.isRSU
   );
 
   if (!optionHolding) {
@@ -709,37 +1275,1236 @@ function applyOptionExercise(state: CapTableState, event: EventBase): CapTableSt
 
   const exerciseShares = parseInt(data.shares, 10);
   const currentOptions = parseInt(optionHolding.quantity, 10);
+  if (exerciseShares > currentOptions) {
+    throw new Error(`Insufficient options. Outstanding: ${currentOptions}, Requested: ${exerciseShares}`);
+  }
 
   const vestedOptions = calculateVestedOptions(optionHolding, event.date, state);
-  if (vestedOptions < exerciseShares) {
+  if (vestedOptions < exerciseShares && !optionHolding.allowEarlyExercise) {
     throw new Error(`Insufficient vested options. Vested: ${vestedOptions}, Requested: ${exerciseShares}`);
   }
 
-  optionHolding.quantity = String(currentOptions - exerciseShares);
+  // Vested options are exercised first; the rest are early exercised into restricted common
+  const vestedShares = Math.min(exerciseShares, vestedOptions);
+  const unvestedShares = exerciseShares - vestedShares;
 
-  const existingCommon = state.holdings.find(
-    h => h.holderId === data.employeeId && h.shareClassId === commonClass.id && !h.isOption
-  );
+  const method = data.method || 'cash';
+  if (method !== 'cash' && unvestedShares > 0) {
+    throw new Error('Early exercise must be paid in cash');
+  }
+  const withholding = method !== 'cash'
+    ? calculateExerciseWithholding(state, optionHolding, vestedShares, data)
+    : undefined;
+  const deliveredShares = withholding ? withholding.netShares : vestedShares;
 
-  if (existingCommon) {
-    existingCommon.quantity = String(parseInt(existingCommon.quantity, 10) + exerciseShares);
+  optionHolding.quantity = String(currentOptions - exerciseShares);
+
+  // Net-exercise withholding is never issued: the plan either takes it back or retires it
+  if (withholding?.disposition === 'return_to_pool') {
+    returnOptionsToPool(state, vestedShares - withholding.netShares, event.id);
+  }
+
+  // Sell-to-cover issues every exercised share; those sold stay outstanding with the buyer
+  if (withholding?.buyerId) {
+    if (!state.people.find(p => p.id === data.buyerId)) {
+      state.people.push({
+        id: data.buyerId,
+        name: data.buyerName,
+        type: PERSON_TYPES.INVESTOR as PersonType
+      });
+    }
+
+    state.holdings.push({
+      id: uuidv4(),
+      holderId: data.buyerId,
+      shareClassId: commonClass.id,
+      quantity: String(vestedShares - withholding.netShares),
+      sourceEventId: event.id,
+      isOption: false,
+      investmentAmount: toDecimal(withholding.fairMarketValue).times(vestedShares - withholding.netShares).toString()
+    });
+  }
+
+  const existingCommon = state.holdings.find(
+    h => h.holderId === data.employeeId && h.shareClassId === commonClass.id && !h.isOption && !h.vestingScheduleId
+  );
+
+  if (deliveredShares > 0 && existingCommon) {
+    existingCommon.quantity = String(parseInt(existingCommon.quantity, 10) + deliveredShares);
+  } else if (deliveredShares > 0) {
+    state.holdings.push({
+      id: uuidv4(),
+      holderId: data.employeeId,
+      shareClassId: commonClass.id,
+      quantity: String(deliveredShares),
+      sourceEventId: event.id,
+      isOption: false
+    });
+  }
+
+  let section83bDeadline: string | undefined;
+  if (unvestedShares > 0) {
+    section83bDeadline = addDays(event.date, SECTION_83B_WINDOW_DAYS);
+    // The company can buy unvested shares back at the exercise price if the holder leaves
+    state.holdings.push({
+      id: uuidv4(),
+      holderId: data.employeeId,
+      shareClassId: commonClass.id,
+      quantity: String(unvestedShares),
+      sourceEventId: event.id,
+      isOption: false,
+      vestingScheduleId: addEarlyExerciseVestingSchedule(state, optionHolding, currentOptions, vestedShares, unvestedShares),
+      vestingStartDate: optionHolding.vestingStartDate,
+      grantDate: optionHolding.grantDate,
+      grantedShares: String(unvestedShares),
+      purchasePrice: optionHolding.strikePrice || '0',
+      earlyExerciseDate: event.date,
+      section83bDeadline
+    });
+  }
+
+  state.derivedOutputs[event.id] = {
+    eventId: event.id,
+    optionExercise: { vestedShares, unvestedShares, section83bDeadline, withholding }
+  };
+
+  return state;
+}
+
+/**
+ * Shares withheld to cover the strike and any tax on the spread in a net or
+ * cashless exercise, valued at the fair market value. Net exercise rounds the
+ * withheld shares down, leaving the holder a cash top-up; sell-to-cover sells
+ * whole shares rounded up and refunds the excess.
+ */
+function calculateExerciseWithholding(
+  state: CapTableState,
+  holding: SecurityHolding,
+  shares: number,
+  data: OptionExerciseEventData
+): ExerciseWithholding {
+  const method = data.method as ExerciseWithholding['method'];
+  if (method === 'cashless' && (!data.buyerId || data.buyerId === data.employeeId)) {
+    throw new Error('Cashless exercises need a buyer for the shares sold to cover');
+  }
+  const fairMarketValue = toDecimal(data.fairMarketValue);
+  const strike = toDecimal(holding.strikePrice);
+  if (fairMarketValue.lte(strike)) {
+    throw new Error('Net and cashless exercises need a fair market value above the strike price');
+  }
+
+  const strikeCost = strike.times(shares);
+  const taxRate = toDecimal(data.taxWithholdingPercent || 0).div(100);
+  const taxWithholding = fairMarketValue.minus(strike).times(shares).times(taxRate);
+
+  const toShares = (amount: Decimal) => {
+    const exact = amount.div(fairMarketValue);
+    return (method === 'net' ? exact.floor() : exact.ceil()).toNumber();
+  };
+  const sharesForStrike = toShares(strikeCost);
+  const sharesForTax = toShares(taxWithholding);
+  const withheld = sharesForStrike + sharesForTax;
+  if (withheld >= shares) {
+    throw new Error(`Withholding takes all ${shares} shares; exercise more options or pay in cash`);
+  }
+
+  return {
+    method,
+    fairMarketValue: fairMarketValue.toString(),
+    strikeCost: strikeCost.toFixed(2),
+    taxWithholding: taxWithholding.toFixed(2),
+    sharesForStrike,
+    sharesForTax,
+    netShares: shares - withheld,
+    cashBalance: fairMarketValue.times(withheld).minus(strikeCost).minus(taxWithholding).toFixed(2),
+    ...(method === 'net' ? { disposition: state.withheldSharePolicy } : { buyerId: data.buyerId })
+  };
+}
+
+function applySecondaryTransfer(state: CapTableState, event: EventBase): CapTableState {
+  const data = event.data as any;
+
+  const shareClass = state.shareClasses.find(sc => sc.id === data.shareClassId);
+  if (!shareClass || shareClass.type === SHARE_CLASS_TYPES.OPTION) {
+    throw new Error('Secondary transfers require an issued share class');
+  }
+
+  if (data.sellerId === data.buyerId) {
+    throw new Error('Seller and buyer must be different holders');
+  }
+
+  const transferShares = parseInt(data.shares, 10) || 0;
+  if (transferShares <= 0) {
+    throw new Error('Transfer quantity must be greater than zero');
+  }
+
+  removeIssuedShares(state, data.sellerId, shareClass.id, transferShares);
+
+  if (!state.people.find(p => p.id === data.buyerId)) {
+    state.people.push({
+      id: data.buyerId,
+      name: data.buyerName,
+      type: PERSON_TYPES.INVESTOR as PersonType
+    });
+  }
+
+  state.holdings.push({
+    id: uuidv4(),
+    holderId: data.buyerId,
+    shareClassId: shareClass.id,
+    quantity: String(transferShares),
+    sourceEventId: event.id,
+    isOption: false,
+    investmentAmount: toDecimal(data.pricePerShare).times(transferShares).toString()
+  });
+
+  return state;
+}
+
+function applyShareRepurchase(state: CapTableState, event: EventBase): CapTableState {
+  const data = event.data as any;
+
+  const shareClass = state.shareClasses.find(sc => sc.id === data.shareClassId);
+  if (!shareClass || shareClass.type === SHARE_CLASS_TYPES.OPTION) {
+    throw new Error('Share repurchases require an issued share class');
+  }
+
+  if (data.holderId === TREASURY_HOLDER_ID) {
+    throw new Error('Treasury shares cannot be repurchased');
+  }
+
+  const repurchaseShares = parseInt(data.shares, 10) || 0;
+  if (repurchaseShares <= 0) {
+    throw new Error('Repurchase quantity must be greater than zero');
+  }
+
+  removeIssuedShares(state, data.holderId, shareClass.id, repurchaseShares);
+
+  const disposition: RepurchaseDisposition = data.disposition === 'treasury' ? 'treasury' : 'cancel';
+  const pricePerShare = toDecimal(data.pricePerShare || 0);
+  state.derivedOutputs[event.id] = {
+    eventId: event.id,
+    shareRepurchase: {
+      shareClassId: shareClass.id,
+      shares: repurchaseShares,
+      pricePerShare: pricePerShare.toString(),
+      totalPaid: pricePerShare.times(repurchaseShares).toFixed(2),
+      disposition
+    }
+  };
+
+  if (disposition === 'treasury') {
+    if (!state.people.find(p => p.id === TREASURY_HOLDER_ID)) {
+      state.people.push({
+        id: TREASURY_HOLDER_ID,
+        name: 'Treasury',
+        type: PERSON_TYPES.TREASURY as PersonType
+      });
+    }
+
+    const treasuryHolding = state.holdings.find(
+      h => h.holderId === TREASURY_HOLDER_ID && h.shareClassId === shareClass.id
+    );
+
+    if (treasuryHolding) {
+      treasuryHolding.quantity = String(parseInt(treasuryHolding.quantity, 10) + repurchaseShares);
+    } else {
+      state.holdings.push({
+        id: uuidv4(),
+        holderId: TREASURY_HOLDER_ID,
+        shareClassId: shareClass.id,
+        quantity: String(repurchaseShares),
+        sourceEventId: event.id,
+        isOption: false
+      });
+    }
+  }
+
+  return state;
+}
+
+function applyEmployeeTermination(state: CapTableState, event: EventBase): CapTableState {
+  const data = event.data as any;
+
+  const optionHoldings = state.holdings.filter(
+    h => h.holderId === data.employeeId && h.isOption && !h.isWarrant && !h.terminationDate
+  );
+  const earlyExercisedHoldings = state.holdings.filter(
+    h => h.holderId === data.employeeId && h.earlyExerciseDate && !h.terminationDate
+  );
+
+  if (optionHoldings.length === 0 && earlyExercisedHoldings.length === 0) {
+    throw new Error('Employee has no active option holdings');
+  }
+
+  const exerciseDeadline = addDays(event.date, parseInt(data.exerciseWindowDays, 10) || 0);
+  let forfeited = 0;
+
+  for (const holding of optionHoldings) {
+    const vested = holding.isRSU
+      ? calculateVestedRSUs(holding, event.date, state)
+      : calculateVestedOptions(holding, event.date, state);
+    forfeited += parseInt(holding.quantity, 10) - vested;
+
+    // Only vested awards survive termination, so the remaining quantity is fully vested.
+    // Vested RSUs need no exercise, so they wait for settlement instead of lapsing.
+    holding.quantity = String(vested);
+    holding.terminationDate = event.date;
+    if (!holding.isRSU) {
+      holding.exerciseDeadline = exerciseDeadline;
+    }
+  }
+
+  // Unvested early-exercised shares are repurchased at the exercise price and return to the pool
+  let sharesRepurchased = 0;
+  let repurchaseAmount = new Decimal(0);
+  for (const holding of earlyExercisedHoldings) {
+    const vested = calculateVestedOptions(holding, event.date, state);
+    const unvested = parseInt(holding.quantity, 10) - vested;
+    sharesRepurchased += unvested;
+    repurchaseAmount = repurchaseAmount.plus(toDecimal(holding.purchasePrice).times(unvested));
+
+    holding.quantity = String(vested);
+    holding.terminationDate = event.date;
+  }
+
+  state.holdings = state.holdings.filter(
+    h => !earlyExercisedHoldings.includes(h) || parseInt(h.quantity, 10) > 0
+  );
+  returnOptionsToPool(state, forfeited + sharesRepurchased, event.id);
+
+  if (earlyExercisedHoldings.length > 0) {
+    state.derivedOutputs[event.id] = {
+      eventId: event.id,
+      earlyExerciseRepurchase: { sharesRepurchased, repurchaseAmount: repurchaseAmount.toFixed(2) }
+    };
+  }
+
+  return state;
+}
+
+function applyStockSplit(state: CapTableState, event: EventBase): CapTableState {
+  const data = event.data as any;
+
+  const ratioFrom = toDecimal(data.ratioFrom || 0);
+  const ratioTo = toDecimal(data.ratioTo || 0);
+  if (ratioFrom.lte(0) || ratioTo.lte(0)) {
+    throw new Error('Split ratio must be positive on both sides');
+  }
+
+  const ratio = ratioTo.div(ratioFrom);
+  const roundingPolicy: SplitRoundingPolicy = data.roundingPolicy || 'round_down';
+
+  // Prices move inversely to share counts so values and preferences are preserved
+  for (const shareClass of state.shareClasses) {
+    if (shareClass.pricePerShare) {
+      shareClass.pricePerShare = toDecimal(shareClass.pricePerShare).div(ratio).toString();
+    }
+    if (shareClass.conversionPrice) {
+      shareClass.conversionPrice = toDecimal(shareClass.conversionPrice).div(ratio).toString();
+    }
+    if (shareClass.authorizedShares) {
+      shareClass.authorizedShares = roundShares(toDecimal(shareClass.authorizedShares).times(ratio));
+    }
+    if (shareClass.redemption) {
+      shareClass.redemption.pricePerShare = toDecimal(shareClass.redemption.pricePerShare).div(ratio).toString();
+      if (shareClass.redemption.redeemedShares) {
+        shareClass.redemption.redeemedShares = roundShares(toDecimal(shareClass.redemption.redeemedShares).times(ratio));
+      }
+    }
+  }
+  // Splits are effected by charter amendment, which scales the authorized shares with them
+  if (state.authorizedShares) {
+    state.authorizedShares = roundShares(toDecimal(state.authorizedShares).times(ratio));
+  }
+  for (const tranche of state.tranches) {
+    if (!tranche.releasedInEventId) {
+      tranche.pricePerShare = toDecimal(tranche.pricePerShare).div(ratio).toString();
+    }
+  }
+
+  let sharesBefore = 0;
+  let sharesAfter = 0;
+  let fractionalShares = new Decimal(0);
+  let cashInLieu = new Decimal(0);
+  const cashOuts: { holderId: string; fractionalShares: string; amount: string }[] = [];
+
+  for (const holding of state.holdings) {
+    const before = parseInt(holding.quantity, 10);
+    const exact = toDecimal(before).times(ratio);
+    const after = applySplitRounding(exact, holding.isOption ? 'round_down' : roundingPolicy);
+    const fraction = exact.minus(after);
+
+    const isTreasury = holding.holderId === TREASURY_HOLDER_ID;
+    if (roundingPolicy === 'cash_out' && !holding.isOption && !isTreasury && fraction.gt(0)) {
+      const shareClass = state.shareClasses.find(sc => sc.id === holding.shareClassId);
+      const price = toDecimal(data.cashInLieuPrice || shareClass?.pricePerShare || 0);
+      const amount = fraction.times(price);
+      cashInLieu = cashInLieu.plus(amount);
+      cashOuts.push({
+        holderId: holding.holderId,
+        fractionalShares: fraction.toString(),
+        amount: amount.toFixed(2)
+      });
+    }
+
+    if (holding.strikePrice) {
+      holding.strikePrice = toDecimal(holding.strikePrice).div(ratio).toString();
+    }
+    if (holding.purchasePrice) {
+      holding.purchasePrice = toDecimal(holding.purchasePrice).div(ratio).toString();
+    }
+    if (holding.settledShares) {
+      holding.settledShares = String(roundShares(toDecimal(holding.settledShares).times(ratio)));
+    }
+    // Scale the shares already taken from the grant and add them back, so vesting
+    // (granted less taken) stays consistent with the rounded quantity
+    if (holding.grantedShares) {
+      const taken = roundShares(toDecimal(parseInt(holding.grantedShares, 10) - before).times(ratio));
+      holding.grantedShares = String(after + taken);
+    }
+
+    holding.quantity = String(after);
+    sharesBefore += before;
+    sharesAfter += after;
+    fractionalShares = fractionalShares.plus(exact.minus(after));
+  }
+
+  state.derivedOutputs[event.id] = {
+    eventId: event.id,
+    stockSplit: {
+      ratio: `${ratioTo.toString()}:${ratioFrom.toString()}`,
+      roundingPolicy,
+      sharesBefore,
+      sharesAfter,
+      fractionalShares: fractionalShares.toString(),
+      cashInLieu: cashInLieu.toFixed(2),
+      cashOuts
+    }
+  };
+
+  return state;
+}
+
+function applyWarrantIssuance(state: CapTableState, event: EventBase): CapTableState {
+  const data = event.data as any;
+
+  const shareClass = state.shareClasses.find(sc => sc.id === data.shareClassId);
+  if (!shareClass || shareClass.type === SHARE_CLASS_TYPES.OPTION) {
+    throw new Error('Warrants must target an issued share class');
+  }
+
+  const warrantShares = parseInt(data.shares, 10) || 0;
+  if (warrantShares <= 0) {
+    throw new Error('Warrant quantity must be greater than zero');
+  }
+
+  if (!state.people.find(p => p.id === data.holderId)) {
+    state.people.push({
+      id: data.holderId,
+      name: data.holderName,
+      type: PERSON_TYPES.INVESTOR as PersonType
+    });
+  }
+
+  // Warrants are a right to buy shares, so like options they are not issued stock
+  state.holdings.push({
+    id: uuidv4(),
+    holderId: data.holderId,
+    shareClassId: shareClass.id,
+    quantity: String(warrantShares),
+    sourceEventId: event.id,
+    isOption: true,
+    isWarrant: true,
+    strikePrice: data.strikePrice,
+    grantDate: event.date,
+    expiryDate: data.expiryDate || undefined
+  });
+
+  return state;
+}
+
+function applyWarrantExercise(state: CapTableState, event: EventBase): CapTableState {
+  const data = event.data as any;
+
+  const warrants = state.holdings.filter(
+    h => h.isWarrant && h.holderId === data.holderId && h.shareClassId === data.shareClassId
+  );
+
+  if (warrants.length === 0) {
+    throw new Error('Holder has no warrants for this share class');
+  }
+
+  const exerciseShares = parseInt(data.shares, 10) || 0;
+  const outstanding = warrants
+    .filter(w => !w.expiryDate || w.expiryDate >= event.date)
+    .reduce((sum, w) => sum + parseInt(w.quantity, 10), 0);
+
+  if (exerciseShares <= 0) {
+    throw new Error('Exercise quantity must be greater than zero');
+  }
+  if (outstanding < exerciseShares) {
+    throw new Error(`Insufficient unexpired warrants. Outstanding: ${outstanding}, Requested: ${exerciseShares}`);
+  }
+
+  let remaining = exerciseShares;
+  for (const warrant of warrants) {
+    if (remaining === 0) break;
+    if (warrant.expiryDate && warrant.expiryDate < event.date) continue;
+
+    const current = parseInt(warrant.quantity, 10);
+    const exercised = Math.min(current, remaining);
+    if (exercised === 0) continue;
+
+    warrant.quantity = String(current - exercised);
+    remaining -= exercised;
+
+    state.holdings.push({
+      id: uuidv4(),
+      holderId: warrant.holderId,
+      shareClassId: warrant.shareClassId,
+      quantity: String(exercised),
+      sourceEventId: event.id,
+      isOption: false,
+      investmentAmount: toDecimal(warrant.strikePrice).times(exercised).toString()
+    });
+  }
+
+  return state;
+}
+
+function applyRestrictedStockAward(state: CapTableState, event: EventBase): CapTableState {
+  const data = event.data as any;
+
+  const commonClass = state.shareClasses.find(sc => sc.type === SHARE_CLASS_TYPES.COMMON);
+  if (!commonClass) {
+    throw new Error('Common share class not found');
+  }
+
+  const awardShares = parseInt(data.shares, 10) || 0;
+  if (awardShares <= 0) {
+    throw new Error('Award quantity must be greater than zero');
+  }
+
+  if (!state.people.find(p => p.id === data.holderId)) {
+    state.people.push({
+      id: data.holderId,
+      name: data.holderName,
+      type: (data.holderType || PERSON_TYPES.FOUNDER) as PersonType
+    });
+  }
+
+  state.holdings.push({
+    id: uuidv4(),
+    holderId: data.holderId,
+    shareClassId: commonClass.id,
+    quantity: String(awardShares),
+    sourceEventId: event.id,
+    isOption: false,
+    vestingScheduleId: addVestingSchedule(state, data.vestingSchedule, data.vestingScheduleId),
+    vestingStartDate: data.vestingStartDate || event.date,
+    grantDate: event.date,
+    grantedShares: String(awardShares),
+    purchasePrice: data.purchasePrice || '0'
+  });
+
+  return state;
+}
+
+function applyFounderDeparture(state: CapTableState, event: EventBase): CapTableState {
+  const data = event.data as any;
+
+  const restrictedHoldings = state.holdings.filter(
+    h => h.holderId === data.founderId && !h.isOption && h.vestingScheduleId && !h.terminationDate
+  );
+
+  if (restrictedHoldings.length === 0) {
+    throw new Error('Holder has no restricted stock subject to vesting');
+  }
+
+  const repurchase = data.repurchaseUnvested !== false;
+  let vestedShares = 0;
+  let unvestedShares = 0;
+  let repurchaseAmount = new Decimal(0);
+
+  for (const holding of restrictedHoldings) {
+    const vested = calculateVestedOptions(holding, event.date, state);
+    const unvested = parseInt(holding.quantity, 10) - vested;
+    vestedShares += vested;
+    unvestedShares += unvested;
+
+    // Unvested shares go back at the original price; if the right is waived they stay with the holder
+    if (repurchase && unvested > 0) {
+      holding.quantity = String(vested);
+      repurchaseAmount = repurchaseAmount.plus(toDecimal(holding.purchasePrice).times(unvested));
+    }
+    holding.terminationDate = event.date;
+  }
+
+  state.holdings = state.holdings.filter(
+    h => h.holderId !== data.founderId || h.isOption || parseInt(h.quantity, 10) > 0
+  );
+
+  state.derivedOutputs[event.id] = {
+    eventId: event.id,
+    founderDeparture: {
+      vestedShares,
+      unvestedShares,
+      sharesRepurchased: repurchase ? unvestedShares : 0,
+      repurchaseAmount: repurchaseAmount.toFixed(2)
+    }
+  };
+
+  return state;
+}
+
+function applyRSUGrant(state: CapTableState, event: EventBase): CapTableState {
+  const data = event.data as any;
+
+  if (!state.people.find(p => p.id === data.employeeId)) {
+    state.people.push({
+      id: data.employeeId,
+      name: data.employeeName,
+      type: PERSON_TYPES.EMPLOYEE as PersonType
+    });
+  }
+
+  const optionClass = state.shareClasses.find(sc => sc.type === SHARE_CLASS_TYPES.OPTION);
+  if (!optionClass) {
+    throw new Error('No equity pool exists. Create an ESOP pool first.');
+  }
+
+  const grantShares = parseInt(data.shares, 10) || 0;
+  if (grantShares <= 0) {
+    throw new Error('RSU quantity must be greater than zero');
+  }
+
+  drawFromPool(state, optionClass.id, grantShares);
+
+  // RSUs sit in the pool's class like options but carry no strike and are never exercised
+  state.holdings.push({
+    id: uuidv4(),
+    holderId: data.employeeId,
+    shareClassId: optionClass.id,
+    quantity: String(grantShares),
+    sourceEventId: event.id,
+    isOption: true,
+    isRSU: true,
+    requiresLiquidityEvent: !!data.requiresLiquidityEvent,
+    settledShares: '0',
+    vestingScheduleId: addVestingSchedule(state, data.vestingSchedule, data.vestingScheduleId),
+    vestingStartDate: data.vestingStartDate || event.date,
+    grantDate: event.date
+  });
+
+  return state;
+}
+
+function applyRSUSettlement(state: CapTableState, event: EventBase): CapTableState {
+  const data = event.data as any;
+
+  const commonClass = state.shareClasses.find(sc => sc.type === SHARE_CLASS_TYPES.COMMON);
+  if (!commonClass) {
+    throw new Error('Common share class not found');
+  }
+
+  const rsuHoldings = state.holdings.filter(h => h.isRSU && h.holderId === data.employeeId);
+  if (rsuHoldings.length === 0) {
+    throw new Error('Employee has no RSU holdings');
+  }
+
+  const settleShares = parseInt(data.shares, 10) || 0;
+  if (settleShares <= 0) {
+    throw new Error('Settlement quantity must be greater than zero');
+  }
+
+  // Double-trigger RSUs only settle once a liquidity event has occurred
+  const eligible = rsuHoldings.filter(h => !h.requiresLiquidityEvent || data.liquidityEvent);
+  const settleable = eligible.reduce((sum, h) => sum + calculateVestedRSUs(h, event.date, state), 0);
+
+  if (settleable < settleShares) {
+    throw new Error(`Insufficient settleable RSUs. Vested: ${settleable}, Requested: ${settleShares}`);
+  }
+
+  let remaining = settleShares;
+  for (const holding of eligible) {
+    if (remaining === 0) break;
+
+    const settled = Math.min(calculateVestedRSUs(holding, event.date, state), remaining);
+    holding.quantity = String(parseInt(holding.quantity, 10) - settled);
+    holding.settledShares = String(parseInt(holding.settledShares || '0', 10) + settled);
+    remaining -= settled;
+  }
+
+  const existingCommon = state.holdings.find(
+    h => h.holderId === data.employeeId && h.shareClassId === commonClass.id && !h.isOption && !h.vestingScheduleId
+  );
+
+  if (existingCommon) {
+    existingCommon.quantity = String(parseInt(existingCommon.quantity, 10) + settleShares);
+  } else {
+    state.holdings.push({
+      id: uuidv4(),
+      holderId: data.employeeId,
+      shareClassId: commonClass.id,
+      quantity: String(settleShares),
+      sourceEventId: event.id,
+      isOption: false
+    });
+  }
+
+  return state;
+}
+
+function applyShareClassConversion(state: CapTableState, event: EventBase): CapTableState {
+  const data = event.data as any;
+
+  const commonClass = state.shareClasses.find(sc => sc.type === SHARE_CLASS_TYPES.COMMON);
+  if (!commonClass) {
+    throw new Error('Common share class not found');
+  }
+
+  const scope = data.scope || 'holder';
+  const classes = scope === 'all_preferred'
+    ? state.shareClasses.filter(sc => sc.type === SHARE_CLASS_TYPES.PREFERRED)
+    : state.shareClasses.filter(sc => sc.id === data.shareClassId && sc.type === SHARE_CLASS_TYPES.PREFERRED);
+
+  if (classes.length === 0) {
+    throw new Error('Conversions require a preferred share class');
+  }
+
+  // Work out what converts before touching holdings, since conversion rewrites them
+  const conversions: { holderId: string; shareClass: ShareClass; shares: number }[] = [];
+  for (const shareClass of classes) {
+    const classHoldings = state.holdings.filter(h => h.shareClassId === shareClass.id && !h.isOption);
+    const holderIds = scope === 'holder'
+      ? [data.holderId]
+      : [...new Set(classHoldings.map(h => h.holderId))];
+
+    for (const holderId of holderIds) {
+      const held = classHoldings
+        .filter(h => h.holderId === holderId)
+        .reduce((sum, h) => sum + parseInt(h.quantity, 10), 0);
+      const shares = scope === 'holder' && data.shares ? parseInt(data.shares, 10) : held;
+      if (shares > 0) {
+        conversions.push({ holderId, shareClass, shares });
+      }
+    }
+  }
+
+  if (conversions.length === 0) {
+    throw new Error('No preferred shares to convert');
+  }
+
+  let preferredShares = 0;
+  let commonShares = 0;
+
+  for (const conversion of conversions) {
+    const investment = removeIssuedShares(state, conversion.holderId, conversion.shareClass.id, conversion.shares);
+    const converted = roundShares(toDecimal(conversion.shares).times(getConversionRatio(conversion.shareClass)));
+
+    state.holdings.push({
+      id: uuidv4(),
+      holderId: conversion.holderId,
+      shareClassId: commonClass.id,
+      quantity: String(converted),
+      sourceEventId: event.id,
+      isOption: false,
+      investmentAmount: investment.gt(0) ? investment.toString() : undefined
+    });
+
+    preferredShares += conversion.shares;
+    commonShares += converted;
+  }
+
+  state.derivedOutputs[event.id] = {
+    eventId: event.id,
+    shareClassConversion: { preferredShares, commonShares }
+  };
+
+  return state;
+}
+
+// =============================================================================
+// HELPER FUNCTIONS
+// =============================================================================
+
+/**
+ * Gives an MFN SAFE any term of a later SAFE that is better for the holder:
+ * a lower cap (compared only between SAFEs of the same valuation type) or a
+ * higher discount. The terms at issuance are kept in originalTerms.
+ */
+function applyMFNTerms(mfnSafe: SAFE, laterSafe: SAFE): void {
+  const currentCap = mfnSafe.valuationCap ? toDecimal(mfnSafe.valuationCap) : null;
+  const laterCap = laterSafe.valuationCap ? toDecimal(laterSafe.valuationCap) : null;
+  const betterCap = laterCap !== null
+    && laterSafe.valuationType === mfnSafe.valuationType
+    && (currentCap === null || laterCap.lt(currentCap));
+
+  const currentDiscount = Number(mfnSafe.discountPercent) || 0;
+  const laterDiscount = Number(laterSafe.discountPercent) || 0;
+  const betterDiscount = laterDiscount > currentDiscount;
+
+  if (!betterCap && !betterDiscount) return;
+
+  if (!mfnSafe.originalTerms) {
+    mfnSafe.originalTerms = {
+      valuationType: mfnSafe.valuationType,
+      valuationCap: mfnSafe.valuationCap,
+      discountPercent: mfnSafe.discountPercent
+    };
+  }
+  if (betterCap) {
+    mfnSafe.valuationCap = laterSafe.valuationCap;
+    mfnSafe.mfnCapSourceSafeId = laterSafe.id;
+  }
+  if (betterDiscount) {
+    mfnSafe.discountPercent = laterDiscount;
+    mfnSafe.mfnDiscountSourceSafeId = laterSafe.id;
+  }
+}
+
+/**
+ * Common shares each share of a class converts into. Anti-dilution
+ * adjustments lower the conversion price below the original issue price,
+ * so protected holders convert into more than one common share each.
+ */
+export function getConversionRatio(shareClass?: ShareClass): Decimal {
+  if (!shareClass?.conversionPrice || !shareClass.pricePerShare) return new Decimal(1);
+
+  const conversionPrice = toDecimal(shareClass.conversionPrice);
+  if (conversionPrice.lte(0)) return new Decimal(1);
+
+  return toDecimal(shareClass.pricePerShare).div(conversionPrice);
+}
+
+/**
+ * Lowers the conversion price of earlier protected preferred classes when a
+ * round is priced below it. Weighted-average formulas use the money raised
+ * and shares issued in the round, including converted SAFEs and notes.
+ */
+function applyAntiDilution(
+  state: CapTableState,
+  event: EventBase,
+  roundPrice: Decimal,
+  preRoundMetrics: ReturnType<typeof calculatePreRoundMetrics>,
+  roundClassId: string
+): void {
+  const roundHoldings = state.holdings.filter(
+    h => h.sourceEventId === event.id && h.shareClassId === roundClassId && !h.isOption
+  );
+  const newShares = roundHoldings.reduce((sum, h) => sum.plus(toDecimal(h.quantity)), new Decimal(0));
+  const consideration = roundHoldings.reduce((sum, h) => sum.plus(toDecimal(h.investmentAmount)), new Decimal(0));
+  const adjustments: AntiDilutionAdjustment[] = [];
+
+  for (const shareClass of state.shareClasses) {
+    if (shareClass.id === roundClassId || shareClass.type !== SHARE_CLASS_TYPES.PREFERRED) continue;
+    if (!shareClass.antiDilution || shareClass.antiDilution === 'none') continue;
+
+    const currentPrice = toDecimal(shareClass.conversionPrice || shareClass.pricePerShare);
+    if (currentPrice.lte(0) || roundPrice.gte(currentPrice)) continue;
+
+    const classShares = state.holdings
+      .filter(h => h.shareClassId === shareClass.id && !h.isOption && h.holderId !== TREASURY_HOLDER_ID)
+      .reduce((sum, h) => sum.plus(toDecimal(h.quantity)), new Decimal(0));
+
+    let adjustedPrice: Decimal;
+    if (shareClass.antiDilution === 'full_ratchet') {
+      adjustedPrice = roundPrice;
+    } else {
+      // CP2 = CP1 * (A + B) / (A + C)
+      const outstanding = shareClass.antiDilution === 'broad_based_weighted_average'
+        ? toDecimal(preRoundMetrics.fullyDilutedShares)
+        : classShares;
+      const sharesAtOldPrice = consideration.div(currentPrice);
+      adjustedPrice = currentPrice.times(outstanding.plus(sharesAtOldPrice)).div(outstanding.plus(newShares));
+    }
+
+    const sharesBefore = classShares.times(getConversionRatio(shareClass));
+    shareClass.conversionPrice = adjustedPrice.toString();
+    const sharesAfter = classShares.times(getConversionRatio(shareClass));
+
+    adjustments.push({
+      shareClassId: shareClass.id,
+      shareClassName: shareClass.name,
+      antiDilution: shareClass.antiDilution,
+      previousConversionPrice: currentPrice.toString(),
+      adjustedConversionPrice: adjustedPrice.toString(),
+      additionalShares: roundShares(sharesAfter.minus(sharesBefore))
+    });
+  }
+
+  if (adjustments.length > 0) {
+    state.derivedOutputs[event.id] = {
+      ...state.derivedOutputs[event.id],
+      eventId: event.id,
+      antiDilution: adjustments
+    };
+  }
+}
+
+/**
+ * Converts the prior preferred of holders who invested less than the required
+ * share of their pro-rata allocation in a pay-to-play round, either into common
+ * at the class's conversion ratio or 1:1 into a shadow series that keeps the
+ * conversion terms but carries no liquidation preference, dividends or
+ * anti-dilution protection.
+ */
+function applyPayToPlay(
+  state: CapTableState,
+  event: EventBase,
+  allocations: ProRataAllocation[],
+  priorPreferredClasses: ShareClass[]
+): PayToPlayOutcome[] {
+  const data = event.data as any;
+  const conversion = data.payToPlay.conversion || 'common';
+  const requiredFraction = toDecimal(data.payToPlay.requiredPercent ?? 100).div(100);
+
+  const commonClass = state.shareClasses.find(sc => sc.type === SHARE_CLASS_TYPES.COMMON);
+  if (conversion === 'common' && !commonClass) {
+    throw new Error('Common share class not found');
+  }
+
+  // Committed milestone tranches count toward participation alongside cash invested now
+  const commitments = [...(data.investors || []), ...(data.tranches || [])];
+
+  return allocations.map(allocation => {
+    const required = toDecimal(allocation.allocation).times(requiredFraction);
+    const invested = commitments
+      .filter((c: any) => c.personId === allocation.holderId)
+      .reduce((sum: Decimal, c: any) => sum.plus(toDecimal(c.amount || 0)), new Decimal(0));
+    const participated = invested.gte(required);
+    const conversions: PayToPlayOutcome['conversions'] = [];
+
+    if (!participated) {
+      for (const shareClass of priorPreferredClasses) {
+        const holdings = state.holdings.filter(
+          h => h.holderId === allocation.holderId && h.shareClassId === shareClass.id && !h.isOption
+        );
+        const shares = holdings.reduce((sum, h) => sum + parseInt(h.quantity, 10), 0);
+        if (shares === 0) continue;
+
+        if (conversion === 'shadow_series') {
+          const shadowClassId = shareClassIdForEvent(event.id, `shadow-${shareClass.id}`);
+          if (!state.shareClasses.some(sc => sc.id === shadowClassId)) {
+            state.shareClasses.push({
+              id: shadowClassId,
+              name: `${shareClass.name} Shadow`,
+              type: SHARE_CLASS_TYPES.PREFERRED as ShareClassType,
+              seniorityRank: shareClass.seniorityRank,
+              liquidationPreferenceMultiple: 0,
+              participation: 'non_participating',
+              isConvertibleToCommon: true,
+              pricePerShare: shareClass.pricePerShare,
+              conversionPrice: shareClass.conversionPrice,
+              antiDilution: 'none'
+            });
+          }
+
+          // Holdings move across whole, keeping their issue history
+          for (const holding of holdings) {
+            holding.shareClassId = shadowClassId;
+          }
+          conversions.push({ fromShareClassId: shareClass.id, toShareClassId: shadowClassId, shares, convertedShares: shares });
+        } else {
+          const investment = removeIssuedShares(state, allocation.holderId, shareClass.id, shares);
+          const converted = roundShares(toDecimal(shares).times(getConversionRatio(shareClass)));
+
+          state.holdings.push({
+            id: uuidv4(),
+            holderId: allocation.holderId,
+            shareClassId: commonClass!.id,
+            quantity: String(converted),
+            sourceEventId: event.id,
+            isOption: false,
+            investmentAmount: investment.gt(0) ? investment.toString() : undefined
+          });
+          conversions.push({ fromShareClassId: shareClass.id, toShareClassId: commonClass!.id, shares, convertedShares: converted });
+        }
+      }
+    }
+
+    return {
+      holderId: allocation.holderId,
+      holderName: allocation.holderName,
+      required: required.toFixed(0),
+      invested: invested.toString(),
+      participated,
+      conversions
+    };
+  });
+}
+
+/**
+ * Flags an event that takes any authorized share limit past its limit, either
+ * by rejecting it or, when the company is set to warn, by recording a warning
+ * on the event. Limits already exceeded before the event are only flagged
+ * again if the event adds to them.
+ */
+function checkAuthorizedShares(before: CapTableState, after: CapTableState, event: EventBase): void {
+  const usageBefore = calculateAuthorizedShareUsage(before);
+
+  const violations = calculateAuthorizedShareUsage(after).flatMap(usage => {
+    if (usage.authorized === null || usage.available === null || usage.available >= 0) return [];
+
+    const previous = usageBefore.find(u => u.shareClassId === usage.shareClassId);
+    const inUse = usage.issued + usage.reserved;
+    if (previous && inUse <= previous.issued + previous.reserved) return [];
+
+    return [`${usage.name} would have ${inUse.toLocaleString()} shares issued or reserved against ${usage.authorized.toLocaleString()} authorized`];
+  });
+
+  if (violations.length === 0) return;
+
+  if (after.authorizedShareEnforcement === 'warning') {
+    after.derivedOutputs[event.id] = {
+      ...after.derivedOutputs[event.id],
+      eventId: event.id,
+      authorizationWarnings: violations
+    };
+    return;
+  }
+
+  throw new Error(`${event.label || 'Event'} exceeds authorized shares: ${violations.join('; ')}`);
+}
+
+/**
+ * Takes granted awards out of the unallocated pool. Grants made without a
+ * pool holding are not limited.
+ */
+function drawFromPool(state: CapTableState, optionClassId: string, shares: number): void {
+  const poolHolding = state.holdings.find(
+    h => h.holderId === ESOP_POOL_HOLDER_ID && h.shareClassId === optionClassId
+  );
+
+  if (poolHolding) {
+    const currentPool = parseInt(poolHolding.quantity, 10);
+    if (currentPool < shares) {
+      throw new Error(`Insufficient ESOP pool. Available: ${currentPool}, Requested: ${shares}`);
+    }
+    poolHolding.quantity = String(currentPool - shares);
+  }
+}
+
+/**
+ * Registers an inline vesting schedule from event data and returns its id.
+ * An explicit schedule id takes precedence over the inline definition.
+ */
+function addVestingSchedule(
+  state: CapTableState,
+  schedule?: Omit<VestingSchedule, 'id'>,
+  scheduleId?: string
+): string | undefined {
+  if (scheduleId || !schedule) return scheduleId;
+
+  if (schedule.tranches?.length) {
+    const offsets = new Set(schedule.tranches.map(t => t.monthOffset));
+    if (offsets.size !== schedule.tranches.length || schedule.tranches.some(t => t.monthOffset < 0 || t.percent < 0)) {
+      throw new Error('Vesting tranches need distinct, non-negative month offsets and percentages');
+    }
+    const totalPercent = schedule.tranches.reduce((sum, t) => sum.plus(t.percent), new Decimal(0));
+    if (!totalPercent.eq(100)) {
+      throw new Error(`Vesting tranches must add up to 100% (got ${totalPercent.toString()}%)`);
+    }
+  }
+
+  const id = uuidv4();
+  state.vestingSchedules.push({ id, ...schedule });
+  return id;
+}
+
+/**
+ * Registers the vesting schedule for shares bought by early exercise. They
+ * vest on the option's original dates, taking the part of the grant's vesting
+ * that follows the options already exercised or vested at exercise. Exercising
+ * a whole grant before any of it vests keeps the grant's own schedule.
+ */
+function addEarlyExerciseVestingSchedule(
+  state: CapTableState,
+  optionHolding: SecurityHolding,
+  optionShares: number,
+  vestedShares: number,
+  unvestedShares: number
+): string | undefined {
+  const schedule = state.vestingSchedules.find(v => v.id === optionHolding.vestingScheduleId);
+  const startDate = optionHolding.vestingStartDate || optionHolding.grantDate;
+  if (!schedule || !startDate) return optionHolding.vestingScheduleId;
+
+  const granted = optionHolding.grantedShares ? parseInt(optionHolding.grantedShares, 10) : optionShares;
+  const taken = granted - optionShares + vestedShares;
+  if (taken === 0 && unvestedShares === granted) return schedule.id;
+
+  const tranches: VestingTranche[] = [];
+  let previous = 0;
+  for (const step of buildVestingSteps(schedule)) {
+    const vested = vestedSharesAt(schedule, granted, startDate, addMonths(startDate, step.monthOffset));
+    const restricted = Math.min(Math.max(vested - taken, 0), unvestedShares);
+    if (restricted <= previous) continue;
+
+    tranches.push({ monthOffset: step.monthOffset, percent: (restricted - previous) / unvestedShares * 100 });
+    previous = restricted;
+  }
+
+  const id = uuidv4();
+  state.vestingSchedules.push({ ...schedule, id, description: `${schedule.description || 'Option grant'} (early exercise)`, tranches });
+  return id;
+}
+
+/**
+ * Rounds a post-split share count. Cash-out rounds down; the dropped fraction is
+ * paid in cash by the caller. Options always round down.
+ */
+function applySplitRounding(shares: Decimal, policy: SplitRoundingPolicy): number {
+  switch (policy) {
+    case 'round_up':
+      return shares.ceil().toNumber();
+    case 'round_nearest':
+      return shares.round().toNumber();
+    case 'round_down':
+    case 'cash_out':
+    default:
+      return shares.floor().toNumber();
+  }
+}
+
+/**
+ * Adds calendar months, clamping to the last day of shorter months
+ * (Jan 31 + 1 month is Feb 28 or 29).
+ */
+function addMonths(date: string, months: number): string {
+  const start = new Date(date);
+  const target = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(start.getUTCDate(), lastDay));
+  return target.toISOString().split('T')[0];
+}
+
+function addDays(date: string, days: number): string {
+  const result = new Date(date);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().split('T')[0];
+}
+
+function returnOptionsToPool(state: CapTableState, options: number, sourceEventId: string): void {
+  if (options <= 0) return;
+
+  const optionClass = state.shareClasses.find(sc => sc.type === SHARE_CLASS_TYPES.OPTION);
+  if (!optionClass) return;
+
+  const poolHolding = state.holdings.find(
+    h => h.holderId === ESOP_POOL_HOLDER_ID && h.shareClassId === optionClass.id
+  );
+
+  if (poolHolding) {
+    poolHolding.quantity = String(parseInt(poolHolding.quantity, 10) + options);
   } else {
+    if (!state.people.find(p => p.id === ESOP_POOL_HOLDER_ID)) {
+      state.people.push({
+        id: ESOP_POOL_HOLDER_ID,
+        name: 'ESOP Pool (Unallocated)',
+        type: PERSON_TYPES.ESOP_POOL as PersonType
+      });
+    }
     state.holdings.push({
       id: uuidv4(),
-      holderId: data.employeeId,
-      shareClassId: commonClass.id,
-      quantity: String(exerciseShares),
-      sourceEventId: event.id,
-      isOption: false
+      holderId: ESOP_POOL_HOLDER_ID,
+      shareClassId: optionClass.id,
+      quantity: String(options),
+      sourceEventId,
+      isOption: true
     });
   }
+}
 
-  return state;
+/**
+ * Returns vested options of terminated holders to the pool once their
+ * post-termination exercise window has closed before the given date.
+ * Warrants past their expiry date lapse without returning anywhere.
+ */
+function expireLapsedOptions(state: CapTableState, asOfDate: string): void {
+  for (const holding of state.holdings) {
+    if (holding.isWarrant) {
+      if (holding.expiryDate && holding.expiryDate < asOfDate) {
+        holding.quantity = '0';
+      }
+      continue;
+    }
+
+    if (!holding.isOption || !holding.exerciseDeadline) continue;
+    if (holding.exerciseDeadline >= asOfDate) continue;
+
+    const lapsed = parseInt(holding.quantity, 10);
+    if (lapsed > 0) {
+      holding.quantity = '0';
+      returnOptionsToPool(state, lapsed, holding.sourceEventId);
+    }
+  }
 }
 
-// =============================================================================
-// HELPER FUNCTIONS
-// =============================================================================
+/**
+ * Removes issued shares of one class from a holder, drawing down their holdings
+ * in issuance order. Recorded investment amounts are scaled down proportionally
+ * so the remaining cost basis stays correct, and the removed portion is returned.
+ * Throws if the holder has too few shares.
+ */
+function removeIssuedShares(
+  state: CapTableState,
+  holderId: string,
+  shareClassId: string,
+  shares: number
+): Decimal {
+  const holderHoldings = state.holdings.filter(
+    h => h.holderId === holderId && h.shareClassId === shareClassId && !h.isOption
+  );
+
+  const heldShares = holderHoldings.reduce((sum, h) => sum + parseInt(h.quantity, 10), 0);
+  if (heldShares < shares) {
+    throw new Error(`Insufficient shares. Held: ${heldShares}, Requested: ${shares}`);
+  }
+
+  // Unvested restricted shares stay with the holder until they vest or are repurchased on departure
+  const available = new Map(holderHoldings.map(h => [
+    h,
+    h.vestingScheduleId && state.asOfDate ? calculateVestedOptions(h, state.asOfDate, state) : parseInt(h.quantity, 10)
+  ]));
+  const vestedShares = [...available.values()].reduce((sum, n) => sum + n, 0);
+  if (vestedShares < shares) {
+    throw new Error(`Insufficient vested shares. Vested: ${vestedShares}, Requested: ${shares}`);
+  }
+
+  let remaining = shares;
+  let removedInvestment = new Decimal(0);
+  const modified: SecurityHolding[] = [];
+  for (const holding of holderHoldings) {
+    if (remaining === 0) break;
+
+    const current = parseInt(holding.quantity, 10);
+    const taken = Math.min(available.get(holding)!, remaining);
+    if (taken === 0) continue;
+
+    if (holding.investmentAmount) {
+      const retained = toDecimal(current - taken).div(current);
+      const investment = toDecimal(holding.investmentAmount);
+      holding.investmentAmount = investment.times(retained).toString();
+      removedInvestment = removedInvestment.plus(investment.minus(holding.investmentAmount));
+    }
+
+    // What the holding has accrued so far stays with the holder
+    const shareClass = state.shareClasses.find(sc => sc.id === shareClassId);
+    if (shareClass?.dividends && holding.dividendsAccruedFromDate && state.asOfDate) {
+      holding.unpaidDividends = calculateAccruedDividends(shareClass, holding, state.asOfDate).toString();
+      holding.dividendsAccruedFromDate = state.asOfDate;
+    }
+
+    holding.quantity = String(current - taken);
+    remaining -= taken;
+    modified.push(holding);
+  }
+
+  state.holdings = state.holdings.filter(h => !modified.includes(h) || parseInt(h.quantity, 10) > 0);
+
+  return removedInvestment;
+}
 
 export function calculatePreRoundMetrics(state: CapTableState): {
   legalIssuedShares: string;
@@ -753,6 +2518,9 @@ export function calculatePreRoundMetrics(state: CapTableState): {
   const holdingsByHolder: Record<string, Decimal> = {};
 
   for (const holding of state.holdings) {
+    // Treasury shares are issued but not outstanding
+    if (holding.holderId === TREASURY_HOLDER_ID) continue;
+
     const qty = toDecimal(holding.quantity);
     
     if (!holdingsByClass[holding.shareClassId]) {
@@ -766,11 +2534,12 @@ export function calculatePreRoundMetrics(state: CapTableState): {
     holdingsByHolder[holding.holderId] = holdingsByHolder[holding.holderId].plus(qty);
 
     const shareClass = state.shareClasses.find(sc => sc.id === holding.shareClassId);
-    if (shareClass && shareClass.type !== SHARE_CLASS_TYPES.OPTION) {
+    if (shareClass && shareClass.type !== SHARE_CLASS_TYPES.OPTION && !holding.isOption) {
       legalIssuedShares = legalIssuedShares.plus(qty);
+      fullyDilutedShares = fullyDilutedShares.plus(qty.times(getConversionRatio(shareClass)));
+    } else {
+      fullyDilutedShares = fullyDilutedShares.plus(qty);
     }
-
-    fullyDilutedShares = fullyDilutedShares.plus(qty);
   }
 
   return {
@@ -781,6 +2550,43 @@ export function calculatePreRoundMetrics(state: CapTableState): {
   };
 }
 
+/**
+ * Each pro-rata rights holder's share of a new round, in proportion to their
+ * as-converted fully diluted ownership immediately before it. Allocations are
+ * rounded to whole currency units. Passing holderIds measures those holders
+ * instead of the rights holders.
+ */
+export function calculateProRataAllocations(
+  state: CapTableState,
+  roundSize: string | number | Decimal,
+  holderIds?: string[]
+): ProRataAllocation[] {
+  const totalFD = toDecimal(calculatePreRoundMetrics(state).fullyDilutedShares);
+  if (totalFD.isZero()) return [];
+
+  return state.people
+    .filter(person => holderIds ? holderIds.includes(person.id) : person.hasProRataRights)
+    .map(person => {
+      const holderFD = state.holdings
+        .filter(h => h.holderId === person.id)
+        .reduce((sum, h) => {
+          const shareClass = state.shareClasses.find(sc => sc.id === h.shareClassId);
+          const asConverted = h.isOption || shareClass?.type === SHARE_CLASS_TYPES.OPTION
+            ? toDecimal(h.quantity)
+            : toDecimal(h.quantity).times(getConversionRatio(shareClass));
+          return sum.plus(asConverted);
+        }, new Decimal(0));
+      const ownership = holderFD.div(totalFD);
+
+      return {
+        holderId: person.id,
+        holderName: person.name,
+        ownershipPercent: ownership.times(100).toFixed(2),
+        allocation: ownership.times(toDecimal(roundSize)).toFixed(0)
+      };
+    });
+}
+
 export function getUnallocatedESOPPool(state: CapTableState): number {
   const poolHolding = state.holdings.find(
     h => h.holderId === ESOP_POOL_HOLDER_ID && h.isOption
@@ -788,49 +2594,315 @@ export function getUnallocatedESOPPool(state: CapTableState): number {
   return poolHolding ? parseInt(poolHolding.quantity, 10) : 0;
 }
 
-function calculateSAFEConversion(
-  safe: SAFE,
-  roundPrice: Decimal,
-  preRoundMetrics: { fullyDilutedShares: string }
-): { shares: number; effectivePrice: Decimal; method: string } {
-  const principal = toDecimal(safe.principalAmount);
-  let effectivePrice = roundPrice;
-  let method = 'round_price';
+/** A SAFE that has neither converted nor been cancelled. */
+export function isOutstandingSAFE(safe: SAFE): boolean {
+  return !safe.convertedInEventId && !safe.cancelledInEventId;
+}
+
+/**
+ * Interest accrued on a convertible note from its issue date up to the given date,
+ * on an actual/365 basis. Compound notes compound annually.
+ */
+function calculateNoteAccruedInterest(note: ConvertibleNote, asOfDate: string): Decimal {
+  const principal = toDecimal(note.principalAmount);
+  const rate = toDecimal(note.interestRatePercent || 0).div(100);
+  const days = (new Date(asOfDate).getTime() - new Date(note.issueDate).getTime()) / (24 * 60 * 60 * 1000);
+
+  if (days <= 0 || rate.isZero()) {
+    return new Decimal(0);
+  }
 
-  let capPrice: Decimal | null = null;
-  if (safe.valuationCap) {
-    const cap = toDecimal(safe.valuationCap);
-    capPrice = cap.div(toDecimal(preRoundMetrics.fullyDilutedShares));
+  const years = toDecimal(days).div(365);
+  if (note.interestType === 'compound') {
+    return principal.times(rate.plus(1).pow(years).minus(1));
   }
+  return principal.times(rate).times(years);
+}
 
-  let discountPrice: Decimal | null = null;
-  if (safe.discountPercent && safe.discountPercent > 0) {
-    discountPrice = roundPrice.times(1 - safe.discountPercent / 100);
+/**
+ * Dividends accrued on a holding and not yet paid, from its issue date or the
+ * last declaration to asOfDate, on the original issue price. The unpaid balance
+ * carried from earlier declarations compounds with it.
+ */
+export function calculateAccruedDividends(shareClass: ShareClass, holding: SecurityHolding, asOfDate: string): Decimal {
+  const terms = shareClass.dividends;
+  if (!terms || !holding.dividendsAccruedFromDate) {
+    return new Decimal(0);
   }
 
-  if (capPrice && discountPrice) {
-    if (capPrice.lt(discountPrice)) {
-      effectivePrice = capPrice;
-      method = 'cap';
-    } else {
-      effectivePrice = discountPrice;
-      method = 'discount';
+  const carried = toDecimal(holding.unpaidDividends || 0);
+  const rate = toDecimal(terms.ratePercent || 0).div(100);
+  const days = (new Date(asOfDate).getTime() - new Date(holding.dividendsAccruedFromDate).getTime()) / (24 * 60 * 60 * 1000);
+
+  if (days <= 0 || rate.isZero()) {
+    return carried;
+  }
+
+  const years = toDecimal(days).div(365);
+  const issueValue = toDecimal(shareClass.pricePerShare || 0).times(holding.quantity);
+  if (terms.compounding === 'compound') {
+    return carried.plus(issueValue.plus(carried).times(rate.plus(1).pow(years).minus(1)));
+  }
+  return carried.plus(issueValue.times(rate).times(years));
+}
+
+/** Shares issued into a dividend class start accruing on their issue date. */
+function startDividendAccrual(state: CapTableState, date: string): void {
+  for (const holding of state.holdings) {
+    if (holding.isOption || holding.dividendsAccruedFromDate) continue;
+    if (state.shareClasses.find(sc => sc.id === holding.shareClassId)?.dividends) {
+      holding.dividendsAccruedFromDate = date;
     }
-  } else if (capPrice) {
-    if (capPrice.lt(roundPrice)) {
-      effectivePrice = capPrice;
-      method = 'cap';
+  }
+}
+
+/**
+ * Authorized, issued and available shares for the company and each common or
+ * preferred class. Treasury shares remain issued. Options, RSUs and warrants
+ * are reserved against the class they settle in; the pool and awards held in
+ * the option class settle in common.
+ */
+export function calculateAuthorizedShareUsage(state: CapTableState): AuthorizedShareUsage[] {
+  const equityClasses = state.shareClasses.filter(sc => sc.type !== SHARE_CLASS_TYPES.OPTION);
+  const optionClassIds = state.shareClasses
+    .filter(sc => sc.type === SHARE_CLASS_TYPES.OPTION)
+    .map(sc => sc.id);
+  const commonClass = equityClasses.find(sc => sc.type === SHARE_CLASS_TYPES.COMMON);
+
+  const classUsage = equityClasses.map(shareClass => {
+    let issued = 0;
+    let reserved = 0;
+    for (const holding of state.holdings) {
+      const quantity = parseInt(holding.quantity, 10) || 0;
+      const settlesInClass = holding.shareClassId === shareClass.id
+        || (shareClass.id === commonClass?.id && optionClassIds.includes(holding.shareClassId));
+      if (!settlesInClass) continue;
+
+      if (holding.isOption || optionClassIds.includes(holding.shareClassId)) {
+        reserved += quantity;
+      } else {
+        issued += quantity;
+      }
     }
-  } else if (discountPrice) {
-    if (discountPrice.lt(roundPrice)) {
-      effectivePrice = discountPrice;
-      method = 'discount';
+
+    const authorized = shareClass.authorizedShares ?? null;
+    return {
+      shareClassId: shareClass.id,
+      name: shareClass.name,
+      authorized,
+      issued,
+      reserved,
+      available: authorized === null ? null : authorized - issued - reserved
+    };
+  });
+
+  const issued = classUsage.reduce((sum, u) => sum + u.issued, 0);
+  const reserved = classUsage.reduce((sum, u) => sum + u.reserved, 0);
+
+  return [
+    {
+      name: 'Company',
+      authorized: state.authorizedShares,
+      issued,
+      reserved,
+      available: state.authorizedShares === null ? null : state.authorizedShares - issued - reserved
+    },
+    ...classUsage
+  ];
+}
+
+/**
+ * Redemption position of each redeemable class as of a date. Instalments
+ * divide the shares ever subject to redemption (outstanding plus already
+ * redeemed) equally; shares due are those reached by asOfDate less any
+ * redeemed so far.
+ */
+export function calculateRedemptionObligations(state: CapTableState, asOfDate: string): RedemptionObligation[] {
+  return state.shareClasses.flatMap(shareClass => {
+    const terms = shareClass.redemption;
+    if (!terms) return [];
+
+    const outstandingShares = state.holdings
+      .filter(h => h.shareClassId === shareClass.id && !h.isOption && h.holderId !== TREASURY_HOLDER_ID)
+      .reduce((sum, h) => sum + parseInt(h.quantity, 10), 0);
+    const redeemedShares = terms.redeemedShares || 0;
+
+    const instalmentDates = Array.from(
+      { length: terms.instalments },
+      (_, i) => addMonths(terms.earliestDate, i * terms.instalmentIntervalMonths)
+    );
+    const instalmentsReached = instalmentDates.filter(date => date <= asOfDate).length;
+    const sharesReached = roundShares(
+      toDecimal(outstandingShares + redeemedShares).times(instalmentsReached).div(terms.instalments)
+    );
+    const dueShares = Math.min(Math.max(sharesReached - redeemedShares, 0), outstandingShares);
+
+    return [{
+      shareClassId: shareClass.id,
+      shareClassName: shareClass.name,
+      pricePerShare: terms.pricePerShare,
+      outstandingShares,
+      redeemedShares,
+      dueShares,
+      dueAmount: toDecimal(terms.pricePerShare).times(dueShares).toFixed(2),
+      scheduledShares: outstandingShares - dueShares,
+      nextInstalmentDate: instalmentDates.find(date => date > asOfDate)
+    }];
+  });
+}
+
+function calculateNoteBalance(note: ConvertibleNote, asOfDate: string): Decimal {
+  return toDecimal(note.principalAmount).plus(calculateNoteAccruedInterest(note, asOfDate));
+}
+
+type ConvertingInstrument = Pick<SAFE, 'id' | 'principalAmount' | 'valuationCap' | 'discountPercent'> & {
+  valuationType?: ValuationType;
+};
+
+/**
+ * Converts SAFEs and notes at a round price following the YC definitions.
+ * Pre-money instruments (and notes) divide their cap by the pre-round
+ * capitalization. Post-money SAFEs divide by a capitalization that also
+ * includes every converting instrument and the pool increase, both of which
+ * depend on the conversion itself, so it is solved by iteration.
+ */
+export function calculateSAFEConversions(
+  instruments: ConvertingInstrument[],
+  roundPrice: Decimal | string | number,
+  preRoundCapitalization: Decimal | string | number,
+  poolTopUp?: { targetPercent: number; currentPool: number; newMoneyShares: Decimal }
+): { breakdowns: Record<string, ConversionBreakdown>; totalShares: number; poolIncrease: number } {
+  const price = toDecimal(roundPrice);
+  const preMoneyCapitalization = toDecimal(preRoundCapitalization);
+  let postMoneyCapitalization = preMoneyCapitalization;
+  let conversions: { id: string; breakdown: ConversionBreakdown; exactShares: Decimal }[] = [];
+  let poolIncrease = 0;
+
+  for (let iter = 0; iter < 50; iter++) {
+    conversions = instruments.map(instrument => convertInstrument(
+      instrument,
+      price,
+      instrument.valuationType === 'post_money' ? postMoneyCapitalization : preMoneyCapitalization
+    ));
+
+    const convertedShares = conversions.reduce((sum, c) => sum.plus(c.exactShares), new Decimal(0));
+    poolIncrease = poolTopUp
+      ? calculateESOPExtension(
+          preMoneyCapitalization.plus(convertedShares).plus(poolTopUp.newMoneyShares),
+          poolTopUp.currentPool,
+          poolTopUp.targetPercent
+        )
+      : 0;
+
+    const capitalization = preMoneyCapitalization.plus(convertedShares).plus(poolIncrease);
+    if (capitalization.minus(postMoneyCapitalization).abs().lt(0.0001)) break;
+    postMoneyCapitalization = capitalization;
+  }
+
+  const breakdowns: Record<string, ConversionBreakdown> = {};
+  let totalShares = 0;
+  for (const conversion of conversions) {
+    breakdowns[conversion.id] = conversion.breakdown;
+    totalShares += conversion.breakdown.shares;
+  }
+
+  return { breakdowns, totalShares, poolIncrease };
+}
+
+function convertInstrument(
+  instrument: ConvertingInstrument,
+  roundPrice: Decimal,
+  capitalization: Decimal
+): { id: string; breakdown: ConversionBreakdown; exactShares: Decimal } {
+  let conversionPrice = roundPrice;
+  let method: ConversionMethod = 'round_price';
+
+  const discountPercent = Number(instrument.discountPercent) || 0;
+  const discountPrice = discountPercent > 0 ? roundPrice.times(1 - discountPercent / 100) : null;
+  if (discountPrice && discountPrice.lt(conversionPrice)) {
+    conversionPrice = discountPrice;
+    method = 'discount';
+  }
+
+  const capPrice = instrument.valuationCap ? toDecimal(instrument.valuationCap).div(capitalization) : null;
+  if (capPrice && capPrice.lt(conversionPrice)) {
+    conversionPrice = capPrice;
+    method = 'cap';
+  }
+
+  const exactShares = toDecimal(instrument.principalAmount).div(conversionPrice);
+
+  return {
+    id: instrument.id,
+    exactShares,
+    breakdown: {
+      valuationType: instrument.valuationType || 'pre_money',
+      capitalization: capitalization.toString(),
+      roundPrice: roundPrice.toString(),
+      capPrice: capPrice?.toString(),
+      discountPrice: discountPrice?.toString(),
+      conversionPrice: conversionPrice.toString(),
+      method,
+      shares: roundShares(exactShares)
     }
+  };
+}
+
+/**
+ * Cumulative vesting steps for a schedule: the percentage vested once each
+ * month offset from the vesting start has passed. Custom tranches are used as
+ * given. Otherwise the cliff releases its percentage and the remainder vests
+ * linearly in steps at the schedule frequency, counted from the vesting start.
+ */
+export function buildVestingSteps(schedule: Omit<VestingSchedule, 'id'>): VestingTranche[] {
+  if (schedule.tranches?.length) {
+    let cumulative = 0;
+    return [...schedule.tranches]
+      .sort((a, b) => a.monthOffset - b.monthOffset)
+      .map(t => ({ monthOffset: t.monthOffset, percent: (cumulative += t.percent) }));
+  }
+
+  const totalMonths = Math.max(schedule.totalMonths, 0);
+  const cliffMonths = Math.min(Math.max(schedule.cliffMonths, 0), totalMonths);
+  if (cliffMonths === totalMonths) {
+    return [{ monthOffset: totalMonths, percent: 100 }];
+  }
+
+  const interval = VESTING_FREQUENCY_MONTHS[schedule.vestingFrequency] || 1;
+  const cliffPercent = cliffMonths > 0 ? (schedule.initialCliffPercent ?? 25) : 0;
+  const steps: VestingTranche[] = [];
+  if (cliffMonths > 0) {
+    steps.push({ monthOffset: cliffMonths, percent: cliffPercent });
+  }
+  for (let month = interval; month < totalMonths; month += interval) {
+    if (month <= cliffMonths) continue;
+    steps.push({
+      monthOffset: month,
+      percent: cliffPercent + (100 - cliffPercent) * (month - cliffMonths) / (totalMonths - cliffMonths)
+    });
   }
+  steps.push({ monthOffset: totalMonths, percent: 100 });
+  return steps;
+}
 
-  const shares = roundShares(principal.div(effectivePrice));
+/**
+ * Shares vested under a schedule by a date. Each step vests on the start
+ * date's day of month, clamped to the end of shorter months.
+ */
+function vestedSharesAt(
+  schedule: Omit<VestingSchedule, 'id'>,
+  quantity: number,
+  startDate: string,
+  asOfDate: string
+): number {
+  let vestedPercent = 0;
+  for (const step of buildVestingSteps(schedule)) {
+    if (addMonths(startDate, step.monthOffset) > asOfDate) break;
+    vestedPercent = step.percent;
+  }
 
-  return { shares, effectivePrice, method };
+  if (vestedPercent >= 100) return quantity;
+  return toDecimal(quantity).mul(vestedPercent).div(100).toDecimalPlaces(6).floor().toNumber();
 }
 
 export function calculateVestedOptions(
@@ -838,7 +2910,7 @@ export function calculateVestedOptions(
   asOfDate: string,
   state: CapTableState
 ): number {
-  if (!holding.vestingScheduleId) {
+  if (!holding.vestingScheduleId || holding.terminationDate) {
     return parseInt(holding.quantity, 10);
   }
 
@@ -847,55 +2919,191 @@ export function calculateVestedOptions(
     return parseInt(holding.quantity, 10);
   }
 
-  const startDate = new Date(holding.vestingStartDate || holding.grantDate || asOfDate);
-  const evalDate = new Date(asOfDate);
-  const totalOptions = parseInt(holding.quantity, 10);
+  // Shares already taken off the grant came out of what had vested
+  const quantity = parseInt(holding.quantity, 10);
+  const granted = holding.grantedShares ? parseInt(holding.grantedShares, 10) : quantity;
+  const startDate = holding.vestingStartDate || holding.grantDate || asOfDate;
+  return Math.max(vestedSharesAt(schedule, granted, startDate, asOfDate) - (granted - quantity), 0);
+}
 
-  const monthsElapsed = Math.floor(
-    (evalDate.getTime() - startDate.getTime()) / (30.44 * 24 * 60 * 60 * 1000)
+/**
+ * Dated vesting projection for a holding, a holder or, with no scope, every
+ * vesting award in the company. Tranches carry the shares vesting on each
+ * date and the holding's cumulative vested amount; the series sums them per
+ * date. Awards project on the original grant, including shares since settled,
+ * exercised or sold, so early-exercised shares are counted with their option
+ * grant. Terminated holdings stop vesting on the termination date.
+ */
+export function calculateVestingProjection(
+  state: CapTableState,
+  scope: { holdingId?: string; holderId?: string } = {}
+): VestingProjection {
+  const holdings = state.holdings.filter(h =>
+    h.vestingScheduleId &&
+    !h.earlyExerciseDate &&
+    h.holderId !== ESOP_POOL_HOLDER_ID &&
+    (!scope.holdingId || h.id === scope.holdingId) &&
+    (!scope.holderId || h.holderId === scope.holderId)
   );
 
-  if (monthsElapsed < schedule.cliffMonths) {
-    return 0;
+  let totalShares = 0;
+  const tranches: VestingProjectionTranche[] = [];
+  for (const holding of holdings) {
+    const schedule = state.vestingSchedules.find(v => v.id === holding.vestingScheduleId);
+    const startDate = holding.vestingStartDate || holding.grantDate;
+    if (!schedule || !startDate) continue;
+
+    const quantity = holding.grantedShares
+      ? parseInt(holding.grantedShares, 10)
+      : parseInt(holding.quantity, 10) + (holding.isRSU ? parseInt(holding.settledShares || '0', 10) : 0);
+    const awardType = holding.isRSU ? 'rsu' : holding.isOption ? 'option' : 'restricted_stock';
+
+    let previous = 0;
+    for (const step of buildVestingSteps(schedule)) {
+      const date = addMonths(startDate, step.monthOffset);
+      if (holding.terminationDate && date > holding.terminationDate) break;
+      const cumulative = vestedSharesAt(schedule, quantity, startDate, date);
+      if (cumulative <= previous) continue;
+
+      tranches.push({
+        date,
+        holdingId: holding.id,
+        holderId: holding.holderId,
+        awardType,
+        shares: cumulative - previous,
+        cumulative
+      });
+      previous = cumulative;
+    }
+    totalShares += holding.terminationDate ? previous : quantity;
   }
 
-  const cliffPercent = schedule.initialCliffPercent || 25;
-  const cliffVested = Math.floor(totalOptions * cliffPercent / 100);
-  
-  const remainingOptions = totalOptions - cliffVested;
-  const remainingMonths = schedule.totalMonths - schedule.cliffMonths;
-  const monthsAfterCliff = monthsElapsed - schedule.cliffMonths;
-  
-  const postCliffVested = Math.min(
-    remainingOptions,
-    Math.floor(remainingOptions * monthsAfterCliff / remainingMonths)
-  );
+  tranches.sort((a, b) => a.date.localeCompare(b.date));
+
+  const series: VestingProjectionPoint[] = [];
+  let cumulative = 0;
+  for (const tranche of tranches) {
+    cumulative += tranche.shares;
+    const last = series[series.length - 1];
+    if (last && last.date === tranche.date) {
+      last.vested += tranche.shares;
+      last.cumulative = cumulative;
+    } else {
+      series.push({ date: tranche.date, vested: tranche.shares, cumulative });
+    }
+  }
+
+  return { totalShares, tranches, series };
+}
+
+/**
+ * Early exercises with their 83(b) election deadlines, soonest first.
+ * Exercises since repurchased in full drop out with their holdings.
+ */
+export function calculateSection83bElections(state: CapTableState): Section83bElection[] {
+  return state.holdings
+    .filter(h => h.earlyExerciseDate && h.section83bDeadline)
+    .map(h => ({
+      holdingId: h.id,
+      holderId: h.holderId,
+      holderName: state.people.find(p => p.id === h.holderId)?.name || 'Unknown',
+      exerciseDate: h.earlyExerciseDate!,
+      shares: parseInt(h.quantity, 10),
+      deadline: h.section83bDeadline!
+    }))
+    .sort((a, b) => a.deadline.localeCompare(b.deadline));
+}
 
-  return Math.min(totalOptions, cliffVested + postCliffVested);
+/**
+ * Vested RSUs that have not yet settled. Vesting runs on the original grant
+ * size, so shares already settled are subtracted rather than re-vested.
+ */
+export function calculateVestedRSUs(
+  holding: SecurityHolding,
+  asOfDate: string,
+  state: CapTableState
+): number {
+  const settled = parseInt(holding.settledShares || '0', 10);
+  const granted = String(parseInt(holding.quantity, 10) + settled);
+  const vested = calculateVestedOptions({ ...holding, quantity: granted }, asOfDate, state);
+  return Math.max(vested - settled, 0);
+}
+
+/**
+ * Splits a holding into vested and unvested quantities. Holdings without a
+ * vesting schedule, or evaluated without a date, count as fully vested.
+ */
+function splitVesting(
+  holding: SecurityHolding,
+  state: CapTableState,
+  asOfDate?: string
+): { vested: number; unvested: number } {
+  const quantity = parseInt(holding.quantity, 10);
+  if (!asOfDate || !holding.vestingScheduleId) {
+    return { vested: quantity, unvested: 0 };
+  }
+
+  const vested = holding.isRSU
+    ? calculateVestedRSUs(holding, asOfDate, state)
+    : calculateVestedOptions(holding, asOfDate, state);
+  return { vested, unvested: quantity - vested };
+}
+
+/**
+ * Splits a vesting award at a change of control into the part vested by the
+ * exit date, the part its acceleration terms release, and what stays unvested.
+ * Double-trigger acceleration applies only when the holder is also terminated.
+ */
+function calculateExitVesting(
+  holding: SecurityHolding,
+  state: CapTableState,
+  exitDate: string,
+  doubleTriggerTermination: boolean
+): { vested: number; accelerated: number; unvested: number } {
+  const quantity = parseInt(holding.quantity, 10);
+  const vested = holding.isRSU
+    ? calculateVestedRSUs(holding, exitDate, state)
+    : splitVesting(holding, state, exitDate).vested;
+  const unvested = quantity - vested;
+
+  const schedule = state.vestingSchedules.find(v => v.id === holding.vestingScheduleId);
+  const acceleration = schedule?.acceleration;
+  const triggered = !!acceleration && (acceleration.trigger === 'single' || doubleTriggerTermination);
+  const accelerated = triggered
+    ? Math.floor(unvested * Math.min(Math.max(acceleration!.percent, 0), 100) / 100)
+    : 0;
+
+  return { vested, accelerated, unvested: unvested - accelerated };
 }
 
 // =============================================================================
 // CAP TABLE VIEWS
 // =============================================================================
 
-export function buildLegalCapTable(state: CapTableState): LegalCapTable {
+export function buildLegalCapTable(state: CapTableState, asOfDate?: string): LegalCapTable {
   const rows: LegalCapTableRow[] = [];
   const metrics = calculatePreRoundMetrics(state);
   const totalLegal = toDecimal(metrics.legalIssuedShares);
 
   for (const person of state.people) {
-    if (person.id === ESOP_POOL_HOLDER_ID) continue;
+    if (person.id === ESOP_POOL_HOLDER_ID || person.id === TREASURY_HOLDER_ID) continue;
 
     const personHoldings = state.holdings.filter(
       h => h.holderId === person.id && !h.isOption
     );
 
     let totalShares = new Decimal(0);
+    let vestedShares = 0;
+    let unvestedShares = 0;
     const byClass: Record<string, number> = {};
 
     for (const holding of personHoldings) {
       const qty = toDecimal(holding.quantity);
       totalShares = totalShares.plus(qty);
+
+      const { vested, unvested } = splitVesting(holding, state, asOfDate);
+      vestedShares += vested;
+      unvestedShares += unvested;
       
       const shareClass = state.shareClasses.find(sc => sc.id === holding.shareClassId);
       if (shareClass) {
@@ -912,6 +3120,8 @@ export function buildLegalCapTable(state: CapTableState): LegalCapTable {
         holderName: person.name,
         holderType: person.type,
         totalShares: roundShares(totalShares),
+        vestedShares,
+        unvestedShares,
         ownershipPercent: totalShares.div(totalLegal).times(100).toFixed(2),
         byClass
       });
@@ -920,9 +3130,14 @@ export function buildLegalCapTable(state: CapTableState): LegalCapTable {
 
   rows.sort((a, b) => b.totalShares - a.totalShares);
 
+  const treasuryShares = state.holdings
+    .filter(h => h.holderId === TREASURY_HOLDER_ID)
+    .reduce((sum, h) => sum.plus(toDecimal(h.quantity)), new Decimal(0));
+
   return {
     rows,
     totalShares: roundShares(totalLegal),
+    treasuryShares: roundShares(treasuryShares),
     shareClasses: state.shareClasses.filter(sc => sc.type !== SHARE_CLASS_TYPES.OPTION)
   };
 }
@@ -933,29 +3148,43 @@ export function buildFullyDilutedCapTable(state: CapTableState, asOfDate?: strin
   const totalFD = toDecimal(metrics.fullyDilutedShares);
 
   for (const person of state.people) {
+    if (person.id === TREASURY_HOLDER_ID) continue;
+
     const personHoldings = state.holdings.filter(h => h.holderId === person.id);
 
     let totalShares = new Decimal(0);
     let issuedShares = new Decimal(0);
     let optionShares = new Decimal(0);
+    let warrantShares = new Decimal(0);
+    let rsuShares = new Decimal(0);
+    let antiDilutionShares = new Decimal(0);
     let vestedOptions = 0;
     let unvestedOptions = 0;
+    let vestedShares = 0;
+    let unvestedShares = 0;
 
     for (const holding of personHoldings) {
       const qty = toDecimal(holding.quantity);
       totalShares = totalShares.plus(qty);
 
-      if (holding.isOption) {
+      if (holding.isWarrant) {
+        warrantShares = warrantShares.plus(qty);
+      } else if (holding.isRSU) {
+        rsuShares = rsuShares.plus(qty);
+      } else if (holding.isOption) {
         optionShares = optionShares.plus(qty);
-        if (asOfDate && holding.vestingScheduleId) {
-          const vested = calculateVestedOptions(holding, asOfDate, state);
-          vestedOptions += vested;
-          unvestedOptions += (parseInt(holding.quantity, 10) - vested);
-        } else {
-          vestedOptions += parseInt(holding.quantity, 10);
-        }
+        const { vested, unvested } = splitVesting(holding, state, asOfDate);
+        vestedOptions += vested;
+        unvestedOptions += unvested;
       } else {
         issuedShares = issuedShares.plus(qty);
+        const shareClass = state.shareClasses.find(sc => sc.id === holding.shareClassId);
+        const extraShares = qty.times(getConversionRatio(shareClass).minus(1));
+        antiDilutionShares = antiDilutionShares.plus(extraShares);
+        totalShares = totalShares.plus(extraShares);
+        const { vested, unvested } = splitVesting(holding, state, asOfDate);
+        vestedShares += vested;
+        unvestedShares += unvested;
       }
     }
 
@@ -968,6 +3197,11 @@ export function buildFullyDilutedCapTable(state: CapTableState, asOfDate?: strin
         totalShares: roundShares(totalShares),
         issuedShares: roundShares(issuedShares),
         optionShares: roundShares(optionShares),
+        warrantShares: roundShares(warrantShares),
+        rsuShares: roundShares(rsuShares),
+        antiDilutionShares: roundShares(antiDilutionShares),
+        vestedShares,
+        unvestedShares,
         vestedOptions,
         unvestedOptions,
         ownershipPercent: totalShares.div(totalFD).times(100).toFixed(2)
@@ -975,7 +3209,24 @@ export function buildFullyDilutedCapTable(state: CapTableState, asOfDate?: strin
     }
   }
 
-  const unconvertedSAFEs = state.safes.filter(s => !s.convertedInEventId);
+  const unconvertedSAFEs = state.safes.filter(isOutstandingSAFE);
+
+  const accrualDate = asOfDate || state.asOfDate || new Date().toISOString().split('T')[0];
+  const unconvertedNotes: OutstandingConvertibleNote[] = state.convertibleNotes
+    .filter(n => !n.convertedInEventId)
+    .map(n => ({
+      ...n,
+      accruedInterest: calculateNoteAccruedInterest(n, accrualDate).toFixed(2),
+      outstandingBalance: calculateNoteBalance(n, accrualDate).toFixed(2),
+      matured: !!n.maturityDate && n.maturityDate <= accrualDate
+    }));
+
+  const committedTranches: CommittedTranche[] = state.tranches
+    .filter(t => !t.releasedInEventId)
+    .map(t => ({
+      ...t,
+      committedShares: roundShares(toDecimal(t.amount).div(toDecimal(t.pricePerShare)))
+    }));
 
   rows.sort((a, b) => b.totalShares - a.totalShares);
 
@@ -983,89 +3234,132 @@ export function buildFullyDilutedCapTable(state: CapTableState, asOfDate?: strin
     rows,
     totalShares: roundShares(totalFD),
     shareClasses: state.shareClasses,
-    unconvertedSAFEs
+    unconvertedSAFEs,
+    unconvertedNotes,
+    committedTranches
   };
 }
 
-export function calculateExitWaterfall(state: CapTableState, exitValuation: number): ExitWaterfall {
+export function calculateExitWaterfall(
+  state: CapTableState,
+  exitValuation: number,
+  options: ExitWaterfallOptions = {}
+): ExitWaterfall {
+  const eventType = options.eventType || 'liquidity';
   const exitValue = toDecimal(exitValuation);
   const results: ExitDistribution[] = [];
   
-  // Clone state for exit calculations
+  // Clone state for exit calculations, leaving out treasury shares which take no proceeds
   const exitState: CapTableState = {
     ...state,
-    holdings: [...state.holdings.map(h => ({ ...h }))],
+    holdings: state.holdings.filter(h => h.holderId !== TREASURY_HOLDER_ID).map(h => ({ ...h })),
     people: [...state.people],
     shareClasses: [...state.shareClasses],
     safes: [...state.safes]
   };
-  
-  // Convert unconverted SAFEs
-  const unconvertedSAFEs = exitState.safes.filter(s => !s.convertedInEventId);
-  
-  if (unconvertedSAFEs.length > 0) {
-    let preExitFD = new Decimal(0);
-    for (const holding of exitState.holdings) {
-      preExitFD = preExitFD.plus(toDecimal(holding.quantity));
-    }
-    
-    let safeConversionClassId: string;
-    const existingPreferred = exitState.shareClasses.filter(sc => sc.type === SHARE_CLASS_TYPES.PREFERRED);
-    
-    if (existingPreferred.length > 0) {
-      safeConversionClassId = existingPreferred.sort((a, b) => b.seniorityRank - a.seniorityRank)[0].id;
-    } else {
-      safeConversionClassId = uuidv4();
-      exitState.shareClasses.push({
-        id: safeConversionClassId,
-        name: 'SAFE Conversion',
-        type: SHARE_CLASS_TYPES.PREFERRED as ShareClassType,
-        seniorityRank: 1,
-        liquidationPreferenceMultiple: 1.0,
-        participation: 'non_participating',
-        isConvertibleToCommon: true,
-        pricePerShare: exitValue.div(preExitFD).toString()
-      });
+
+  // Options past their post-termination window and expired warrants lapse first
+  const exitDate = options.exitDate || state.asOfDate || new Date().toISOString().split('T')[0];
+  expireLapsedOptions(exitState, exitDate);
+
+  // Awards vest up to the exit date plus any acceleration the sale releases. The
+  // exit is the liquidity event, so RSUs settle into common. Unvested options and
+  // RSUs the acquirer assumes keep their share of the proceeds; cancelled ones fall
+  // away. Restricted stock is already issued, so all of it stays outstanding.
+  const exitCommonClass = exitState.shareClasses.find(sc => sc.type === SHARE_CLASS_TYPES.COMMON);
+  const unvestedAwards = options.unvestedAwards || 'cancelled';
+  const awardMethods = new Map<string, string>();
+  exitState.holdings = exitState.holdings.flatMap(holding => {
+    const isGrantedOption = holding.isOption && !holding.isWarrant && holding.holderId !== ESOP_POOL_HOLDER_ID;
+    if (!isGrantedOption && !holding.vestingScheduleId) return [holding];
+
+    const { vested, accelerated, unvested } = calculateExitVesting(
+      holding, state, exitDate, !!options.doubleTriggerTermination
+    );
+    const parts: { id: string; quantity: number; method?: string }[] = [
+      { id: holding.id, quantity: isGrantedOption ? vested : vested + unvested },
+      { id: `${holding.id}:accelerated`, quantity: accelerated, method: 'accelerated' },
+      { id: `${holding.id}:assumed`, quantity: isGrantedOption && unvestedAwards === 'assumed' ? unvested : 0, method: 'assumed' }
+    ];
+
+    return parts.flatMap(part => {
+      if (part.quantity <= 0) return [];
+      if (holding.isOption && !exitCommonClass) return [];
+      if (part.method) awardMethods.set(part.id, part.method);
+
+      return [{
+        ...holding,
+        id: part.id,
+        quantity: String(part.quantity),
+        ...(holding.isRSU && { shareClassId: exitCommonClass!.id, isOption: false, isRSU: false })
+      }];
+    });
+  });
+
+  // Options and warrants in the money at the exit price per share are net
+  // exercised; the rest lapse. Only instruments that exercise dilute that price,
+  // so they are added from the lowest strike while the price stays above it.
+  const exercisable = exitState.holdings
+    .filter(h => h.isOption && h.holderId !== ESOP_POOL_HOLDER_ID && parseInt(h.quantity, 10) > 0)
+    .sort((a, b) => toDecimal(a.strikePrice).comparedTo(toDecimal(b.strikePrice)));
+  let exitFD = exitState.holdings
+    .filter(h => !h.isOption)
+    .reduce((sum, h) => {
+      const shareClass = exitState.shareClasses.find(sc => sc.id === h.shareClassId);
+      return sum.plus(toDecimal(h.quantity).times(getConversionRatio(shareClass)));
+    }, new Decimal(0));
+  let exitSharePrice = exitFD.isZero() ? new Decimal(0) : exitValue.div(exitFD);
+  const inTheMoney = new Set<string>();
+  for (const holding of exercisable) {
+    const dilutedFD = exitFD.plus(toDecimal(holding.quantity));
+    const dilutedPrice = exitValue.div(dilutedFD);
+    if (dilutedPrice.lte(toDecimal(holding.strikePrice))) break;
+    exitFD = dilutedFD;
+    exitSharePrice = dilutedPrice;
+    inTheMoney.add(holding.id);
+  }
+
+  // The unallocated pool was never granted, so it drops out with the lapsed instruments
+  exitState.holdings = exitState.holdings.flatMap(holding => {
+    if (!holding.isOption) return [holding];
+    if (!inTheMoney.has(holding.id)) return [];
+
+    const strike = toDecimal(holding.strikePrice);
+    const netShares = toDecimal(holding.quantity).times(exitSharePrice.minus(strike)).div(exitSharePrice);
+    if (!holding.isWarrant && !awardMethods.has(holding.id)) {
+      awardMethods.set(holding.id, 'option exercise');
     }
-    
-    const exitPricePerShare = exitValue.div(preExitFD);
-    
-    for (const safe of unconvertedSAFEs) {
-      const principal = toDecimal(safe.principalAmount);
-      let effectivePrice = exitPricePerShare;
-      
-      if (safe.valuationCap) {
-        const capPrice = toDecimal(safe.valuationCap).div(preExitFD);
-        if (capPrice.lt(effectivePrice)) {
-          effectivePrice = capPrice;
-        }
-      }
-      
-      if (safe.discountPercent && safe.discountPercent > 0) {
-        const discountPrice = exitPricePerShare.times(1 - safe.discountPercent / 100);
-        if (discountPrice.lt(effectivePrice)) {
-          effectivePrice = discountPrice;
-        }
-      }
-      
-      const shares = roundShares(principal.div(effectivePrice));
-      
-      if (!exitState.people.find(p => p.id === safe.investorId)) {
-        exitState.people.push({
-          id: safe.investorId,
-          name: safe.investorName || 'SAFE Investor',
-          type: PERSON_TYPES.INVESTOR as PersonType
-        });
-      }
-      
-      exitState.holdings.push({
-        id: uuidv4(),
-        holderId: safe.investorId,
-        shareClassId: safeConversionClassId,
-        quantity: String(shares),
-        sourceEventId: '',
-        isOption: false,
-        investmentAmount: safe.principalAmount
+
+    return [{
+      ...holding,
+      quantity: String(roundShares(netShares)),
+      isOption: false,
+      ...(!holding.isWarrant && { shareClassId: exitCommonClass!.id })
+    }];
+  });
+  
+  // Unconverted SAFEs are paid out rather than converted into a share class.
+  // In a liquidity event the conversion amount uses the Liquidity Price: the
+  // cap for capped SAFEs, the discounted exit price for uncapped ones.
+  const unconvertedSAFEs = exitState.safes.filter(isOutstandingSAFE);
+  let preExitFD = new Decimal(0);
+  for (const holding of exitState.holdings) {
+    preExitFD = preExitFD.plus(toDecimal(holding.quantity));
+  }
+  const safeConversions = eventType === 'liquidity' && unconvertedSAFEs.length > 0 && !preExitFD.isZero()
+    ? calculateSAFEConversions(
+        unconvertedSAFEs.map(safe => safe.valuationCap ? { ...safe, discountPercent: undefined } : safe),
+        exitValue.div(preExitFD),
+        preExitFD
+      )
+    : null;
+
+  for (const safe of unconvertedSAFEs) {
+    if (!exitState.people.find(p => p.id === safe.investorId)) {
+      exitState.people.push({
+        id: safe.investorId,
+        name: safe.investorName || 'SAFE Investor',
+        type: PERSON_TYPES.INVESTOR as PersonType
       });
     }
   }
@@ -1091,16 +3385,57 @@ export function calculateExitWaterfall(state: CapTableState, exitValuation: numb
     }
   }
 
-  let totalCommonEquivalent = new Decimal(0);
+  let totalCommonEquivalent = new Decimal(safeConversions?.totalShares || 0);
   for (const shareClass of exitState.shareClasses) {
     if (shareClass.type !== SHARE_CLASS_TYPES.OPTION) {
-      totalCommonEquivalent = totalCommonEquivalent.plus(classTotals[shareClass.id] || new Decimal(0));
+      totalCommonEquivalent = totalCommonEquivalent.plus(
+        (classTotals[shareClass.id] || new Decimal(0)).times(getConversionRatio(shareClass))
+      );
     }
   }
 
+  for (const safe of unconvertedSAFEs) {
+    holderInvestments[safe.investorId] = (holderInvestments[safe.investorId] || new Decimal(0))
+      .plus(toDecimal(safe.principalAmount));
+  }
+
   const distributions = new Map<string, { proceeds: Decimal; method: string[] }>();
 
-  // Pay liquidation preferences
+  // Repay outstanding convertible notes ahead of equity, pro-rata if the exit falls short
+  const outstandingNotes = state.convertibleNotes.filter(n => !n.convertedInEventId);
+  const totalNoteBalance = outstandingNotes.reduce(
+    (sum, n) => sum.plus(calculateNoteBalance(n, exitDate)),
+    new Decimal(0)
+  );
+  const noteRepaymentFactor = totalNoteBalance.gt(exitValue) ? exitValue.div(totalNoteBalance) : new Decimal(1);
+
+  for (const note of outstandingNotes) {
+    if (!exitState.people.find(p => p.id === note.investorId)) {
+      exitState.people.push({
+        id: note.investorId,
+        name: note.investorName || 'Noteholder',
+        type: PERSON_TYPES.INVESTOR as PersonType
+      });
+    }
+
+    if (!distributions.has(note.investorId)) {
+      distributions.set(note.investorId, { proceeds: new Decimal(0), method: [] });
+    }
+    const current = distributions.get(note.investorId)!;
+    current.proceeds = current.proceeds.plus(calculateNoteBalance(note, exitDate).times(noteRepaymentFactor));
+    current.method.push(note.maturityDate && note.maturityDate <= exitDate ? 'matured note repayment' : 'note repayment');
+
+    holderInvestments[note.investorId] = (holderInvestments[note.investorId] || new Decimal(0))
+      .plus(toDecimal(note.principalAmount));
+  }
+
+  const equityValue = Decimal.max(exitValue.minus(totalNoteBalance), new Decimal(0));
+
+  // Preferred holders take the greater of their preference or as-converted amount,
+  // and SAFEs the greater of their cash-out or conversion amount. Preferences and
+  // cash-outs rank ahead of common and share pro-rata if the equity value falls short.
+  const claims: { holderId: string; amount: Decimal; method: string; isPreference: boolean }[] = [];
+
   for (const prefClass of preferredClasses) {
     const classShares = classTotals[prefClass.id] || new Decimal(0);
     if (classShares.isZero()) continue;
@@ -1111,30 +3446,52 @@ export function calculateExitWaterfall(state: CapTableState, exitValuation: numb
     
     for (const holding of holdersOfClass) {
       const holderShares = toDecimal(holding.quantity);
-      const holderPreference = holderShares.times(pricePerShare).times(prefClass.liquidationPreferenceMultiple || 1);
-      const holderConversion = exitValue.times(holderShares).div(totalCommonEquivalent);
-      
-      let holderProceeds: Decimal;
-      let method: string;
+      // Accrued but unpaid cumulative dividends are added on top of the preference
+      const holderDividends = prefClass.dividends?.cumulative
+        ? calculateAccruedDividends(prefClass, holding, exitDate)
+        : new Decimal(0);
+      const holderPreference = holderShares.times(pricePerShare).times(prefClass.liquidationPreferenceMultiple ?? 1)
+        .plus(holderDividends);
+      const holderConversion = equityValue.times(holderShares.times(getConversionRatio(prefClass))).div(totalCommonEquivalent);
       
       if (prefClass.participation === 'participating') {
-        holderProceeds = holderPreference;
-        method = 'participating';
+        claims.push({ holderId: holding.holderId, amount: holderPreference, method: 'participating', isPreference: true });
       } else if (holderPreference.gt(holderConversion)) {
-        holderProceeds = holderPreference;
-        method = 'preference';
+        claims.push({ holderId: holding.holderId, amount: holderPreference, method: 'preference', isPreference: true });
       } else {
-        holderProceeds = holderConversion;
-        method = 'conversion';
+        claims.push({ holderId: holding.holderId, amount: holderConversion, method: 'conversion', isPreference: false });
       }
+    }
+  }
 
-      if (!distributions.has(holding.holderId)) {
-        distributions.set(holding.holderId, { proceeds: new Decimal(0), method: [] });
-      }
-      const current = distributions.get(holding.holderId)!;
-      current.proceeds = current.proceeds.plus(holderProceeds);
-      current.method.push(method);
+  for (const safe of unconvertedSAFEs) {
+    const cashOut = toDecimal(safe.principalAmount);
+    const conversionShares = safeConversions?.breakdowns[safe.id]?.shares || 0;
+    const conversionAmount = totalCommonEquivalent.isZero()
+      ? new Decimal(0)
+      : equityValue.times(conversionShares).div(totalCommonEquivalent);
+
+    if (conversionAmount.gt(cashOut)) {
+      claims.push({ holderId: safe.investorId, amount: conversionAmount, method: 'SAFE conversion', isPreference: false });
+    } else {
+      claims.push({ holderId: safe.investorId, amount: cashOut, method: 'SAFE cash-out', isPreference: true });
+    }
+  }
+
+  const totalPreferenceClaims = claims
+    .filter(c => c.isPreference)
+    .reduce((sum, c) => sum.plus(c.amount), new Decimal(0));
+  const preferenceFactor = totalPreferenceClaims.gt(equityValue)
+    ? equityValue.div(totalPreferenceClaims)
+    : new Decimal(1);
+
+  for (const claim of claims) {
+    if (!distributions.has(claim.holderId)) {
+      distributions.set(claim.holderId, { proceeds: new Decimal(0), method: [] });
     }
+    const current = distributions.get(claim.holderId)!;
+    current.proceeds = current.proceeds.plus(claim.isPreference ? claim.amount.times(preferenceFactor) : claim.amount);
+    current.method.push(claim.method);
   }
 
   // Distribute to common holders
@@ -1160,7 +3517,7 @@ export function calculateExitWaterfall(state: CapTableState, exitValuation: numb
     }
     const current = distributions.get(holding.holderId)!;
     current.proceeds = current.proceeds.plus(holderProceeds);
-    current.method.push('common');
+    current.method.push(awardMethods.get(holding.id) || 'common');
   }
 
   // Build results
@@ -1187,6 +3544,7 @@ export function calculateExitWaterfall(state: CapTableState, exitValuation: numb
   results.sort((a, b) => parseFloat(b.proceeds) - parseFloat(a.proceeds));
 
   return {
+    eventType,
     exitValuation: exitValue.toString(),
     distributions: results,
     totalDistributed: results.reduce((sum, r) => sum + parseFloat(r.proceeds), 0).toFixed(2)
@@ -1197,15 +3555,15 @@ export function calculateExitWaterfall(state: CapTableState, exitValuation: numb
 // OWNERSHIP HISTORY
 // =============================================================================
 
-export function computeOwnershipHistory(companyId: string, events: EventBase[]): OwnershipSnapshot[] {
-  const { snapshots } = replayAllEvents(companyId, events);
+export function computeOwnershipHistory(companyId: string, events: EventBase[], settings: CapTableSettings = {}): OwnershipSnapshot[] {
+  const { snapshots } = replayAllEvents(companyId, events, settings);
   
   return snapshots.map(snapshot => {
     const metrics = calculatePreRoundMetrics(snapshot.state);
     const totalFD = toDecimal(metrics.fullyDilutedShares);
     
     const ownership = snapshot.state.people
-      .filter(p => p.id !== ESOP_POOL_HOLDER_ID)
+      .filter(p => p.id !== ESOP_POOL_HOLDER_ID && p.id !== TREASURY_HOLDER_ID)
       .map(person => {
         const personHoldings = snapshot.state.holdings.filter(h => h.holderId === person.id);
         const totalShares = personHoldings.reduce(
@@ -1241,21 +3599,25 @@ export interface CapTableResponse {
   state: CapTableState | null;
 }
 
-export function computeCapTable(companyId: string, events: EventBase[]): CapTableResponse {
+export function computeCapTable(companyId: string, events: EventBase[], settings: CapTableSettings = {}): CapTableResponse {
   if (events.length === 0) {
     return {
-      legalCapTable: { rows: [], totalShares: 0, shareClasses: [] },
-      fullyDilutedCapTable: { rows: [], totalShares: 0, shareClasses: [], unconvertedSAFEs: [] },
+      legalCapTable: { rows: [], totalShares: 0, treasuryShares: 0, shareClasses: [] },
+      fullyDilutedCapTable: { rows: [], totalShares: 0, shareClasses: [], unconvertedSAFEs: [], unconvertedNotes: [], committedTranches: [] },
       state: null
     };
   }
   
-  const { finalState } = replayAllEvents(companyId, events);
-  
+  const { finalState } = replayAllEvents(companyId, events, settings);
+  const today = new Date().toISOString().split('T')[0];
+  // Options and warrants lapsing after the last event still expire by today
+  const currentState = cloneState(finalState);
+  expireLapsedOptions(currentState, today);
+
   return {
-    legalCapTable: buildLegalCapTable(finalState),
-    fullyDilutedCapTable: buildFullyDilutedCapTable(finalState),
-    state: finalState
+    legalCapTable: buildLegalCapTable(currentState, today),
+    fullyDilutedCapTable: buildFullyDilutedCapTable(currentState, today),
+    state: currentState
   };
 }
 
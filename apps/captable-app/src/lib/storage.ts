@@ -74,6 +74,8 @@ export const localStorageProvider: StorageProvider = {
       baseCurrency: data.baseCurrency || 'USD',
       incorporationDate: data.incorporationDate,
       authorizedShares: data.authorizedShares,
+      authorizedShareEnforcement: data.authorizedShareEnforcement,
+      withheldSharePolicy: data.withheldSharePolicy,
       createdAt: now,
       updatedAt: now,
     };
@@ -178,6 +180,8 @@ export const supabaseProvider: StorageProvider = {
       baseCurrency: c.base_currency,
       incorporationDate: c.incorporation_date,
       authorizedShares: c.authorized_shares,
+      authorizedShareEnforcement: c.authorized_share_enforcement,
+      withheldSharePolicy: c.withheld_share_policy,
       createdAt: c.created_at,
       updatedAt: c.updated_at,
     }));
@@ -201,6 +205,8 @@ export const supabaseProvider: StorageProvider = {
       baseCurrency: data.base_currency,
       incorporationDate: data.incorporation_date,
       authorizedShares: data.authorized_shares,
+      authorizedShareEnforcement: data.authorized_share_enforcement,
+      withheldSharePolicy: data.withheld_share_policy,
       createdAt: data.created_at,
       updatedAt: data.updated_at,
     };
@@ -239,6 +245,8 @@ export const supabaseProvider: StorageProvider = {
       baseCurrency: company.base_currency,
       incorporationDate: company.incorporation_date,
       authorizedShares: company.authorized_shares,
+      authorizedShareEnforcement: company.authorized_share_enforcement,
+      withheldSharePolicy: company.withheld_share_policy,
       createdAt: company.created_at,
       updatedAt: company.updated_at,
     };
@@ -250,6 +258,8 @@ export const supabaseProvider: StorageProvider = {
     if (data.baseCurrency !== undefined) updates.base_currency = data.baseCurrency;
     if (data.incorporationDate !== undefined) updates.incorporation_date = data.incorporationDate;
     if (data.authorizedShares !== undefined) updates.authorized_shares = data.authorizedShares;
+    if (data.authorizedShareEnforcement !== undefined) updates.authorized_share_enforcement = data.authorizedShareEnforcement;
+    if (data.withheldSharePolicy !== undefined) updates.withheld_share_policy = data.withheldSharePolicy;
     
     const { data: company, error } = await supabase
       .from('companies')
@@ -266,6 +276,8 @@ export const supabaseProvider: StorageProvider = {
       baseCurrency: company.base_currency,
       incorporationDate: company.incorporation_date,
       authorizedShares: company.authorized_shares,
+      authorizedShareEnforcement: company.authorized_share_enforcement,
+      withheldSharePolicy: company.withheld_share_policy,
       createdAt: company.created_at,
       updatedAt: company.updated_at,
     };
@@ -2,11 +2,25 @@
 // CORE TYPES
 // =============================================================================
 
-export type PersonType = 'founder' | 'employee' | 'advisor' | 'investor' | 'other' | 'esop_pool';
+export type PersonType = 'founder' | 'employee' | 'advisor' | 'investor' | 'other' | 'esop_pool' | 'treasury';
 export type ShareClassType = 'common' | 'preferred' | 'option';
 export type ParticipationType = 'non_participating' | 'participating' | 'capped_participating';
 export type ValuationType = 'pre_money' | 'post_money';
+export type InterestType = 'simple' | 'compound';
+export type RepurchaseDisposition = 'cancel' | 'treasury';
+export type SplitRoundingPolicy = 'round_down' | 'round_up' | 'round_nearest' | 'cash_out';
+export type ConversionScope = 'holder' | 'class' | 'all_preferred';
+export type AntiDilutionType = 'none' | 'full_ratchet' | 'broad_based_weighted_average' | 'narrow_based_weighted_average';
+export type ExitEventType = 'liquidity' | 'dissolution';
+export type ProRataStatus = 'exercised' | 'under_exercised' | 'waived';
+export type DividendPaymentForm = 'cash' | 'pik';
+export type PayToPlayConversion = 'common' | 'shadow_series';
+export type AuthorizedShareEnforcement = 'error' | 'warning';
+export type OptionExerciseMethod = 'cash' | 'net' | 'cashless';
+export type WithheldSharePolicy = 'return_to_pool' | 'retire';
 export type VestingFrequency = 'monthly' | 'quarterly' | 'yearly';
+export type AccelerationTrigger = 'single' | 'double';
+export type UnvestedAwardTreatment = 'cancelled' | 'assumed';
 export type EventType = 
   | 'incorporation' 
   | 'priced_round' 
@@ -14,9 +28,28 @@ export type EventType =
   | 'esop_pool_creation' 
   | 'esop_pool_extension' 
   | 'esop_grant' 
-  | 'option_exercise';
+  | 'option_exercise'
+  | 'secondary_transfer'
+  | 'share_repurchase'
+  | 'employee_termination'
+  | 'stock_split'
+  | 'convertible_note_issuance'
+  | 'warrant_issuance'
+  | 'warrant_exercise'
+  | 'restricted_stock_award'
+  | 'founder_departure'
+  | 'rsu_grant'
+  | 'rsu_settlement'
+  | 'share_class_conversion'
+  | 'round_closing'
+  | 'tranche_release'
+  | 'safe_cancellation'
+  | 'dividend_declaration'
+  | 'share_redemption'
+  | 'authorized_share_increase';
 
 export const ESOP_POOL_HOLDER_ID = '__esop_pool__';
+export const TREASURY_HOLDER_ID = '__treasury__';
 
 // =============================================================================
 // DATA MODELS
@@ -27,11 +60,18 @@ export interface Company {
   name: string;
   baseCurrency: string;
   incorporationDate?: string;
+  // Authorized shares at incorporation; amendments are Authorized Share Increase events
   authorizedShares?: number;
+  // Whether exceeding authorized shares rejects an event or only flags it (the default)
+  authorizedShareEnforcement?: AuthorizedShareEnforcement;
+  // Plan rule for shares withheld in net exercises
+  withheldSharePolicy?: WithheldSharePolicy;
   createdAt?: string;
   updatedAt?: string;
 }
 
+export type CapTableSettings = Pick<Company, 'authorizedShares' | 'authorizedShareEnforcement' | 'withheldSharePolicy'>;
+
 export interface CompanyStats {
   lastRoundName: string;
   lastRoundPrice: string | null;
@@ -49,6 +89,7 @@ export interface Person {
   name: string;
   type: PersonType;
   email?: string;
+  hasProRataRights?: boolean;
 }
 
 export interface ShareClass {
@@ -61,9 +102,30 @@ export interface ShareClass {
   participationCapMultiple?: number;
   isConvertibleToCommon: boolean;
   pricePerShare?: string;
+  antiDilution?: AntiDilutionType;
+  conversionPrice?: string;
+  dividends?: DividendTerms;
+  redemption?: RedemptionTerms;
+  authorizedShares?: number;
   notes?: string;
 }
 
+export interface DividendTerms {
+  ratePercent: number;
+  cumulative: boolean;
+  compounding: InterestType;
+  paymentForm: DividendPaymentForm;
+}
+
+export interface RedemptionTerms {
+  // Holders may require redemption in equal instalments, the first on earliestDate
+  earliestDate: string;
+  pricePerShare: string;
+  instalments: number;
+  instalmentIntervalMonths: number;
+  redeemedShares?: number;
+}
+
 export interface SecurityHolding {
   id: string;
   holderId: string;
@@ -75,7 +137,41 @@ export interface SecurityHolding {
   vestingScheduleId?: string;
   vestingStartDate?: string;
   grantDate?: string;
+  // Original award size; vesting runs on it, and shares already taken off the holding count as vested
+  grantedShares?: string;
   investmentAmount?: string;
+  terminationDate?: string;
+  exerciseDeadline?: string;
+  isWarrant?: boolean;
+  expiryDate?: string;
+  purchasePrice?: string;
+  isRSU?: boolean;
+  requiresLiquidityEvent?: boolean;
+  settledShares?: string;
+  conversionBreakdown?: ConversionBreakdown;
+  // Options that may be exercised before they vest
+  allowEarlyExercise?: boolean;
+  // Set on unvested shares bought by early exercise; the 83(b) election is due 30 days after
+  earlyExerciseDate?: string;
+  section83bDeadline?: string;
+  // Dividends accrue on each holding from its issue date or last declaration; unpaidDividends
+  // carries any shortfall, which stays with the holder if shares are sold or split
+  dividendsAccruedFromDate?: string;
+  unpaidDividends?: string;
+}
+
+export type ConversionMethod = 'cap' | 'discount' | 'round_price';
+
+/** How a SAFE or note converted, as calculated at the conversion date. */
+export interface ConversionBreakdown {
+  valuationType: ValuationType;
+  capitalization: string;
+  roundPrice: string;
+  capPrice?: string;
+  discountPrice?: string;
+  conversionPrice: string;
+  method: ConversionMethod;
+  shares: number;
 }
 
 export interface VestingSchedule {
@@ -85,6 +181,25 @@ export interface VestingSchedule {
   totalMonths: number;
   vestingFrequency: VestingFrequency;
   initialCliffPercent: number;
+  /** Explicit steps replacing the cliff and linear schedule when present */
+  tranches?: VestingTranche[];
+  acceleration?: AccelerationTerms;
+}
+
+/**
+ * Vesting released on a change of control. Single trigger accelerates on the
+ * sale itself; double trigger also needs the holder to be terminated.
+ */
+export interface AccelerationTerms {
+  trigger: AccelerationTrigger;
+  // Share of the then-unvested award that vests, 0 to 100
+  percent: number;
+}
+
+/** Percent of the award vesting a number of calendar months after the start */
+export interface VestingTranche {
+  monthOffset: number;
+  percent: number;
 }
 
 export interface SAFE {
@@ -99,7 +214,47 @@ export interface SAFE {
   issueDate: string;
   conversionShareClassId?: string;
   convertedInEventId?: string;
+  // Refunded or cancelled before converting; kept for history but never converts or takes proceeds
+  cancelledInEventId?: string;
   notes?: string;
+  originalTerms?: SAFETerms;
+  // The later SAFEs whose cap and discount an MFN SAFE took, which may differ
+  mfnCapSourceSafeId?: string;
+  mfnDiscountSourceSafeId?: string;
+}
+
+export interface SAFETerms {
+  valuationType: ValuationType;
+  valuationCap?: string;
+  discountPercent?: number;
+}
+
+export interface ConvertibleNote {
+  id: string;
+  investorId: string;
+  investorName?: string;
+  principalAmount: string;
+  interestRatePercent: number;
+  interestType: InterestType;
+  valuationCap?: string;
+  discountPercent?: number;
+  issueDate: string;
+  maturityDate?: string;
+  conversionShareClassId?: string;
+  convertedInEventId?: string;
+  notes?: string;
+}
+
+export interface InvestmentTranche {
+  id: string;
+  roundEventId: string;
+  investorId: string;
+  investorName?: string;
+  amount: string;
+  milestone: string;
+  shareClassId: string;
+  pricePerShare: string;
+  releasedInEventId?: string;
 }
 
 // =============================================================================
@@ -127,12 +282,15 @@ export interface IncorporationEventData {
     name: string;
     percentage?: number;
     shares?: number;
+    vestingStartDate?: string;
+    vestingSchedule?: Omit<VestingSchedule, 'id'>;
   }[];
   esopPool?: {
     inputMode: 'percentage' | 'shares';
     percentage?: number;
     shares?: number;
   };
+  commonAuthorizedShares?: number;
 }
 
 export interface PricedRoundEventData {
@@ -145,15 +303,54 @@ export interface PricedRoundEventData {
     personId: string;
     name: string;
     amount: string;
+    proRataRights?: boolean;
   }[];
+  // Round size that pro-rata allocations are measured against; defaults to totalNewMoney
+  proRataRoundSize?: string;
   shareClassId?: string;
   createNewShareClass?: boolean;
   shareClassName?: string;
   liquidationPreference?: number;
   participation?: ParticipationType;
   participationCap?: number;
+  antiDilution?: AntiDilutionType;
+  dividends?: DividendTerms;
+  payToPlay?: PayToPlayTerms;
+  authorizedShares?: number;
+  // Price defaults to the round price, and a single instalment on earliestDate
+  redemption?: Pick<RedemptionTerms, 'earliestDate'> & Partial<Pick<RedemptionTerms, 'pricePerShare' | 'instalments' | 'instalmentIntervalMonths'>>;
   esopTargetPercent?: number;
   safesToConvert?: string[];
+  notesToConvert?: string[];
+  tranches?: {
+    id: string;
+    personId: string;
+    name: string;
+    amount: string;
+    milestone: string;
+  }[];
+}
+
+export interface PayToPlayTerms {
+  // What prior preferred converts into when its holder does not participate
+  conversion: PayToPlayConversion;
+  // Share of each holder's pro-rata allocation they must invest; defaults to 100
+  requiredPercent?: number;
+}
+
+export interface RoundClosingEventData {
+  roundEventId: string;
+  investors: {
+    personId: string;
+    name: string;
+    amount: string;
+    proRataRights?: boolean;
+  }[];
+}
+
+export interface TrancheReleaseEventData {
+  trancheIds: string[];
+  notes?: string;
 }
 
 export interface SAFEIssuanceEventData {
@@ -170,6 +367,92 @@ export interface SAFEIssuanceEventData {
   }[];
 }
 
+export interface DividendDeclarationEventData {
+  shareClassId: string;
+  // Defaults to the dividends accrued per share since the last declaration
+  amountPerShare?: string;
+  // Defaults to the class's dividend terms
+  paymentForm?: DividendPaymentForm;
+}
+
+export interface AuthorizedShareIncreaseEventData {
+  // New totals after the charter amendment; omitted limits are unchanged
+  companyAuthorizedShares?: string;
+  classes?: {
+    shareClassId: string;
+    authorizedShares: string;
+  }[];
+}
+
+export interface ShareRedemptionEventData {
+  shareClassId: string;
+  // Defaults to the shares due under the class's instalment schedule
+  shares?: string;
+  // Defaults to the class's redemption price
+  pricePerShare?: string;
+  // Redeems from one holder; otherwise shares are taken pro rata across the class
+  holderId?: string;
+}
+
+export interface SAFECancellationEventData {
+  safeIds: string[];
+  // Cash returned to the holders; omit for a cancellation without refund
+  refundAmount?: string;
+  notes?: string;
+}
+
+export interface ConvertibleNoteIssuanceEventData {
+  notes: {
+    id?: string;
+    investorId: string;
+    investorName: string;
+    principalAmount: string;
+    interestRatePercent: number;
+    interestType: InterestType;
+    valuationCap?: string;
+    discountPercent?: number;
+    maturityDate?: string;
+    notes?: string;
+  }[];
+}
+
+export interface WarrantIssuanceEventData {
+  holderId: string;
+  holderName: string;
+  shareClassId: string;
+  shares: number;
+  strikePrice: string;
+  expiryDate: string;
+}
+
+export interface WarrantExerciseEventData {
+  holderId: string;
+  shareClassId: string;
+  shares: number;
+}
+
+export interface RestrictedStockAwardEventData {
+  holderId: string;
+  holderName: string;
+  holderType: PersonType;
+  shares: number;
+  purchasePrice: string;
+  vestingStartDate?: string;
+  vestingSchedule: Omit<VestingSchedule, 'id'>;
+}
+
+export interface FounderDepartureEventData {
+  founderId: string;
+  repurchaseUnvested: boolean;
+}
+
+export interface ShareClassConversionEventData {
+  scope: ConversionScope;
+  shareClassId?: string;
+  holderId?: string;
+  shares?: number;
+}
+
 export interface ESOPPoolCreationEventData {
   inputMode: 'percentage' | 'shares';
   percentage?: number;
@@ -187,18 +470,299 @@ export interface ESOPGrantEventData {
   strikePrice: string;
   vestingStartDate?: string;
   vestingScheduleId?: string;
-  vestingSchedule?: {
-    description?: string;
-    cliffMonths: number;
-    totalMonths: number;
-    vestingFrequency: VestingFrequency;
-    initialCliffPercent: number;
-  };
+  vestingSchedule?: Omit<VestingSchedule, 'id'>;
+  allowEarlyExercise?: boolean;
 }
 
 export interface OptionExerciseEventData {
   employeeId: string;
   shares: number;
+  // Defaults to a cash purchase; net and cashless exercises need a fair market value
+  method?: OptionExerciseMethod;
+  fairMarketValue?: string;
+  // Withheld on the spread between fair market value and strike
+  taxWithholdingPercent?: number;
+  // Cashless exercises sell the shares covering strike and tax to this buyer
+  buyerId?: string;
+  buyerName?: string;
+}
+
+export interface RSUGrantEventData {
+  employeeId: string;
+  employeeName: string;
+  shares: number;
+  vestingStartDate?: string;
+  vestingSchedule?: Omit<VestingSchedule, 'id'>;
+  requiresLiquidityEvent: boolean;
+}
+
+export interface RSUSettlementEventData {
+  employeeId: string;
+  shares: number;
+  liquidityEvent: boolean;
+}
+
+export interface SecondaryTransferEventData {
+  sellerId: string;
+  buyerId: string;
+  buyerName: string;
+  shareClassId: string;
+  shares: number;
+  pricePerShare: string;
+}
+
+export interface ShareRepurchaseEventData {
+  holderId: string;
+  shareClassId: string;
+  shares: number;
+  pricePerShare: string;
+  disposition: RepurchaseDisposition;
+}
+
+export interface EmployeeTerminationEventData {
+  employeeId: string;
+  exerciseWindowDays: number;
+}
+
+export interface StockSplitEventData {
+  // Holders receive ratioTo new shares for every ratioFrom old shares
+  ratioFrom: number;
+  ratioTo: number;
+  roundingPolicy: SplitRoundingPolicy;
+  cashInLieuPrice?: string;
+}
+
+// =============================================================================
+// DERIVED EVENT OUTPUT
+// =============================================================================
+
+export interface StockSplitOutput {
+  ratio: string;
+  roundingPolicy: SplitRoundingPolicy;
+  sharesBefore: number;
+  sharesAfter: number;
+  fractionalShares: string;
+  cashInLieu: string;
+  cashOuts: {
+    holderId: string;
+    fractionalShares: string;
+    amount: string;
+  }[];
+}
+
+export interface ShareRepurchaseOutput {
+  shareClassId: string;
+  shares: number;
+  pricePerShare: string;
+  totalPaid: string;
+  disposition: RepurchaseDisposition;
+}
+
+export interface OptionExerciseOutput {
+  vestedShares: number;
+  // Early-exercised shares, held as restricted common until they vest
+  unvestedShares: number;
+  section83bDeadline?: string;
+  withholding?: ExerciseWithholding;
+}
+
+/**
+ * Shares covering the strike and tax in a net or cashless exercise. A net
+ * exercise withholds them, rounded down, and the holder pays the remainder in
+ * cash; a cashless exercise sells whole shares to a buyer and refunds the excess.
+ */
+export interface ExerciseWithholding {
+  method: Exclude<OptionExerciseMethod, 'cash'>;
+  fairMarketValue: string;
+  strikeCost: string;
+  taxWithholding: string;
+  sharesForStrike: number;
+  sharesForTax: number;
+  netShares: number;
+  // Positive when refunded to the holder, negative when the holder pays it
+  cashBalance: string;
+  // Net exercise only: withheld shares are never issued and follow the plan rule
+  disposition?: WithheldSharePolicy;
+  // Cashless only: shares sold to cover are issued to the buyer and stay outstanding
+  buyerId?: string;
+}
+
+/** Unvested early-exercised shares bought back when the holder leaves */
+export interface EarlyExerciseRepurchaseOutput {
+  sharesRepurchased: number;
+  repurchaseAmount: string;
+}
+
+/** An early exercise whose 83(b) election window applies to the holder */
+export interface Section83bElection {
+  holdingId: string;
+  holderId: string;
+  holderName: string;
+  exerciseDate: string;
+  shares: number;
+  deadline: string;
+}
+
+export interface FounderDepartureOutput {
+  vestedShares: number;
+  unvestedShares: number;
+  sharesRepurchased: number;
+  repurchaseAmount: string;
+}
+
+export interface AntiDilutionAdjustment {
+  shareClassId: string;
+  shareClassName: string;
+  antiDilution: AntiDilutionType;
+  previousConversionPrice: string;
+  adjustedConversionPrice: string;
+  additionalShares: number;
+}
+
+export interface PricedRoundOutput {
+  shareClassId: string;
+  pricePerShare: string;
+}
+
+export interface ProRataAllocation {
+  holderId: string;
+  holderName: string;
+  ownershipPercent: string;
+  allocation: string;
+}
+
+export interface ProRataOutcome extends ProRataAllocation {
+  invested: string;
+  status: ProRataStatus;
+}
+
+export interface PayToPlayOutcome {
+  holderId: string;
+  holderName: string;
+  required: string;
+  invested: string;
+  participated: boolean;
+  conversions: {
+    fromShareClassId: string;
+    toShareClassId: string;
+    shares: number;
+    convertedShares: number;
+  }[];
+}
+
+export interface DividendDeclarationOutput {
+  shareClassId: string;
+  amountPerShare: string;
+  paymentForm: DividendPaymentForm;
+  totalAmount: string;
+  pikShares: number;
+  payments: {
+    holderId: string;
+    amount: string;
+    pikShares: number;
+  }[];
+}
+
+export interface ShareRedemptionOutput {
+  shareClassId: string;
+  pricePerShare: string;
+  shares: number;
+  totalPaid: string;
+  redemptions: {
+    holderId: string;
+    shares: number;
+    amount: string;
+  }[];
+}
+
+export interface AuthorizedShareIncreaseOutput {
+  changes: {
+    // Absent for the company-wide limit
+    shareClassId?: string;
+    name: string;
+    previous: number | null;
+    authorized: number;
+  }[];
+}
+
+export interface AuthorizedShareUsage {
+  // Absent for the company-wide limit
+  shareClassId?: string;
+  name: string;
+  authorized: number | null;
+  issued: number;
+  // Options, RSUs and warrants that would be settled in these shares
+  reserved: number;
+  available: number | null;
+}
+
+export type VestingAwardType = 'option' | 'rsu' | 'restricted_stock';
+
+/** One dated vesting step of a single holding */
+export interface VestingProjectionTranche {
+  date: string;
+  holdingId: string;
+  holderId: string;
+  awardType: VestingAwardType;
+  shares: number;
+  // Vested in the holding once this tranche has passed
+  cumulative: number;
+}
+
+/** Shares vesting on a date across the projected holdings */
+export interface VestingProjectionPoint {
+  date: string;
+  vested: number;
+  cumulative: number;
+}
+
+export interface VestingProjection {
+  totalShares: number;
+  tranches: VestingProjectionTranche[];
+  series: VestingProjectionPoint[];
+}
+
+export interface RedemptionObligation {
+  shareClassId: string;
+  shareClassName: string;
+  pricePerShare: string;
+  outstandingShares: number;
+  redeemedShares: number;
+  // Due under instalments already reached but not yet redeemed
+  dueShares: number;
+  dueAmount: string;
+  // Outstanding shares whose instalments fall after the as-of date
+  scheduledShares: number;
+  nextInstalmentDate?: string;
+}
+
+export interface SAFECancellationOutput {
+  safes: SAFE[];
+  refundAmount: string;
+}
+
+export interface ShareClassConversionOutput {
+  preferredShares: number;
+  commonShares: number;
+}
+
+export interface EventDerivedOutput {
+  eventId: string;
+  pricedRound?: PricedRoundOutput;
+  shareClassConversion?: ShareClassConversionOutput;
+  antiDilution?: AntiDilutionAdjustment[];
+  stockSplit?: StockSplitOutput;
+  shareRepurchase?: ShareRepurchaseOutput;
+  founderDeparture?: FounderDepartureOutput;
+  optionExercise?: OptionExerciseOutput;
+  earlyExerciseRepurchase?: EarlyExerciseRepurchaseOutput;
+  safeCancellation?: SAFECancellationOutput;
+  proRata?: ProRataOutcome[];
+  payToPlay?: PayToPlayOutcome[];
+  dividendDeclaration?: DividendDeclarationOutput;
+  shareRedemption?: ShareRedemptionOutput;
+  authorizedShareIncrease?: AuthorizedShareIncreaseOutput;
+  authorizationWarnings?: string[];
 }
 
 // =============================================================================
@@ -210,6 +774,8 @@ export interface LegalCapTableRow {
   holderName: string;
   holderType: PersonType;
   totalShares: number;
+  vestedShares: number;
+  unvestedShares: number;
   ownershipPercent: string;
   byClass: Record<string, number>;
 }
@@ -217,6 +783,7 @@ export interface LegalCapTableRow {
 export interface LegalCapTable {
   rows: LegalCapTableRow[];
   totalShares: number;
+  treasuryShares: number;
   shareClasses: ShareClass[];
 }
 
@@ -228,16 +795,34 @@ export interface FullyDilutedCapTableRow {
   totalShares: number;
   issuedShares: number;
   optionShares: number;
+  warrantShares: number;
+  rsuShares: number;
+  antiDilutionShares: number;
+  vestedShares: number;
+  unvestedShares: number;
   vestedOptions: number;
   unvestedOptions: number;
   ownershipPercent: string;
 }
 
+export interface OutstandingConvertibleNote extends ConvertibleNote {
+  accruedInterest: string;
+  outstandingBalance: string;
+  // Past its maturity date without converting, so the balance is due for repayment
+  matured: boolean;
+}
+
+export interface CommittedTranche extends InvestmentTranche {
+  committedShares: number;
+}
+
 export interface FullyDilutedCapTable {
   rows: FullyDilutedCapTableRow[];
   totalShares: number;
   shareClasses: ShareClass[];
   unconvertedSAFEs: SAFE[];
+  unconvertedNotes: OutstandingConvertibleNote[];
+  committedTranches: CommittedTranche[];
 }
 
 export interface CapTableState {
@@ -247,8 +832,15 @@ export interface CapTableState {
   shareClasses: ShareClass[];
   holdings: SecurityHolding[];
   safes: SAFE[];
+  convertibleNotes: ConvertibleNote[];
+  tranches: InvestmentTranche[];
   people: Person[];
   vestingSchedules: VestingSchedule[];
+  // Company-wide limit; per-class limits live on the share classes
+  authorizedShares: number | null;
+  authorizedShareEnforcement: AuthorizedShareEnforcement;
+  withheldSharePolicy: WithheldSharePolicy;
+  derivedOutputs: Record<string, EventDerivedOutput>;
 }
 
 export interface CapTableResponse {
@@ -288,7 +880,19 @@ export interface ExitDistribution {
   method: string;
 }
 
+export interface ExitWaterfallOptions {
+  // A dissolution returns SAFE principal only; a liquidity event also offers conversion
+  eventType?: ExitEventType;
+  // Dividends accrue and awards vest up to this date; defaults to the state's date
+  exitDate?: string;
+  // Holders are terminated in connection with the sale, releasing double-trigger acceleration
+  doubleTriggerTermination?: boolean;
+  // Whether the acquirer cancels or assumes options and RSUs still unvested; defaults to cancelled
+  unvestedAwards?: UnvestedAwardTreatment;
+}
+
 export interface ExitWaterfall {
+  eventType: ExitEventType;
   exitValuation: string;
   distributions: ExitDistribution[];
   totalDistributed: string;
@@ -317,6 +921,81 @@ export const EVENT_TYPE_LABELS: Record<EventType, string> = {
   esop_pool_extension: 'ESOP Pool Extension',
   esop_grant: 'Option Grant',
   option_exercise: 'Option Exercise',
+  secondary_transfer: 'Secondary Transfer',
+  share_repurchase: 'Share Repurchase',
+  employee_termination: 'Employee Termination',
+  stock_split: 'Stock Split',
+  convertible_note_issuance: 'Convertible Note',
+  warrant_issuance: 'Warrant Issuance',
+  warrant_exercise: 'Warrant Exercise',
+  restricted_stock_award: 'Restricted Stock Award',
+  founder_departure: 'Founder Departure',
+  rsu_grant: 'RSU Grant',
+  rsu_settlement: 'RSU Settlement',
+  share_class_conversion: 'Preferred Conversion',
+  round_closing: 'Round Closing',
+  tranche_release: 'Tranche Release',
+  safe_cancellation: 'SAFE Cancellation',
+  dividend_declaration: 'Dividend Declaration',
+  share_redemption: 'Share Redemption',
+  authorized_share_increase: 'Authorized Share Increase',
+};
+
+export const ANTI_DILUTION_LABELS: Record<AntiDilutionType, string> = {
+  none: 'None',
+  full_ratchet: 'Full Ratchet',
+  broad_based_weighted_average: 'Broad-Based Weighted Average',
+  narrow_based_weighted_average: 'Narrow-Based Weighted Average',
+};
+
+export const PRO_RATA_STATUS_LABELS: Record<ProRataStatus, string> = {
+  exercised: 'Exercised',
+  under_exercised: 'Under-Exercised',
+  waived: 'Waived',
+};
+
+export const PAY_TO_PLAY_CONVERSION_LABELS: Record<PayToPlayConversion, string> = {
+  common: 'Common Stock',
+  shadow_series: 'Shadow Series',
+};
+
+export const VESTING_FREQUENCY_LABELS: Record<VestingFrequency, string> = {
+  monthly: 'Monthly',
+  quarterly: 'Quarterly',
+  yearly: 'Yearly',
+};
+
+export const ACCELERATION_TRIGGER_LABELS: Record<AccelerationTrigger, string> = {
+  single: 'Single Trigger',
+  double: 'Double Trigger',
+};
+
+export const UNVESTED_AWARD_TREATMENT_LABELS: Record<UnvestedAwardTreatment, string> = {
+  cancelled: 'Cancelled',
+  assumed: 'Assumed by Acquirer',
+};
+
+export const VESTING_AWARD_TYPE_LABELS: Record<VestingAwardType, string> = {
+  option: 'Options',
+  rsu: 'RSUs',
+  restricted_stock: 'Restricted Stock',
+};
+
+export const OPTION_EXERCISE_METHOD_LABELS: Record<OptionExerciseMethod, string> = {
+  cash: 'Cash',
+  net: 'Net Exercise',
+  cashless: 'Cashless (Sell to Cover)',
+};
+
+export const WITHHELD_SHARE_POLICY_LABELS: Record<WithheldSharePolicy, string> = {
+  return_to_pool: 'Return to Pool',
+  retire: 'Retire',
+};
+
+export const CONVERSION_METHOD_LABELS: Record<ConversionMethod, string> = {
+  cap: 'Cap',
+  discount: 'Discount',
+  round_price: 'Round Price',
 };
 
 // Person type labels
@@ -327,5 +1006,6 @@ export const PERSON_TYPE_LABELS: Record<PersonType, string> = {
   investor: 'Investor',
   other: 'Other',
   esop_pool: 'ESOP Pool',
+  treasury: 'Treasury',
 };
 
@@ -0,0 +1,6 @@
+-- Whether events that exceed authorized shares are rejected or only flagged.
+-- Existing companies default to flagging so their history keeps replaying.
+
+ALTER TABLE companies
+  ADD COLUMN authorized_share_enforcement TEXT NOT NULL DEFAULT 'warning'
+  CHECK (authorized_share_enforcement IN ('error', 'warning'));
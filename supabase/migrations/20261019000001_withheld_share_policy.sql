@@ -0,0 +1,5 @@
+-- What happens to shares withheld in net and cashless option exercises
+
+ALTER TABLE companies
+  ADD COLUMN withheld_share_policy TEXT NOT NULL DEFAULT 'return_to_pool'
+  CHECK (withheld_share_policy IN ('return_to_pool', 'retire'));